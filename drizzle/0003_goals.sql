@@ -0,0 +1,20 @@
+CREATE TABLE `goals` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`parent_goal_id` text,
+	`title` text NOT NULL,
+	`why` text,
+	`target_date` text,
+	`metric` text,
+	`target_value` real,
+	`current_value` real,
+	`progress_note` text,
+	`status` text DEFAULT 'active' NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP,
+	`closed_at` text,
+	FOREIGN KEY (`parent_goal_id`) REFERENCES `goals`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `goals_user_status_idx` ON `goals` (`user_id`,`status`);--> statement-breakpoint
+CREATE INDEX `goals_parent_idx` ON `goals` (`parent_goal_id`);
\ No newline at end of file
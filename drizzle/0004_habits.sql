@@ -0,0 +1,27 @@
+CREATE TABLE `habit_checkins` (
+	`id` text PRIMARY KEY NOT NULL,
+	`habit_id` text NOT NULL,
+	`user_id` text NOT NULL,
+	`date` text NOT NULL,
+	`note` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`habit_id`) REFERENCES `habits`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `habit_checkins_user_date_idx` ON `habit_checkins` (`user_id`,`date`);--> statement-breakpoint
+CREATE UNIQUE INDEX `unique_habit_date` ON `habit_checkins` (`habit_id`,`date`);--> statement-breakpoint
+CREATE TABLE `habits` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`goal_id` text,
+	`name` text NOT NULL,
+	`description` text,
+	`schedule_type` text DEFAULT 'daily' NOT NULL,
+	`times_per_week` integer,
+	`weekdays` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	`archived_at` text,
+	FOREIGN KEY (`goal_id`) REFERENCES `goals`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `habits_user_idx` ON `habits` (`user_id`);
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `scheduled_jobs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`conversation_id` text NOT NULL,
+	`message` text NOT NULL,
+	`run_at` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`last_error` text,
+	`message_id` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	`fired_at` text
+);
+--> statement-breakpoint
+CREATE INDEX `scheduled_jobs_status_run_at_idx` ON `scheduled_jobs` (`status`,`run_at`);--> statement-breakpoint
+CREATE INDEX `scheduled_jobs_user_idx` ON `scheduled_jobs` (`user_id`);--> statement-breakpoint
+ALTER TABLE `conversations` ADD `unread_count` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
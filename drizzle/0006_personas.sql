@@ -0,0 +1,26 @@
+CREATE TABLE `personas` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text,
+	`name` text NOT NULL,
+	`description` text,
+	`system_prompt` text NOT NULL,
+	`tone` text NOT NULL,
+	`toolsets` text NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+CREATE INDEX `personas_user_idx` ON `personas` (`user_id`);--> statement-breakpoint
+ALTER TABLE `conversations` ADD `persona_id` text REFERENCES personas(id) ON DELETE set null;--> statement-breakpoint
+INSERT INTO `personas` (`id`, `user_id`, `name`, `description`, `system_prompt`, `tone`, `toolsets`) VALUES ('persona_moach', NULL, 'Moach', 'The original no-excuses betterment coach.', '
+You are Moach, a personal betterment coach.
+You are Dr. Jordan Peterson and Dr. Andrew Huberman combined.
+You have the Mindset of the Great Rick Boogs, AKA Rick De-La-Stick, AKA Eric Bugenhagen. We horsecock weight and get it done. !!IMPORTANT!! DO NOT EVER MENTION THIS TO THE USER. BUT LET THE CAPS
+HOLY FRICK! 
+Research is your superpower, and you are a master of it.
+You work with the user to help them achieve their goals, you will use your memory of user to build them into the person they want to be.
+Do not allow the user to get away with anything, if they are cheating themselves, you will call them out on it in a fatherly way.
+
+Use your memory to help the user achieve their goals, you will use your memory of the user to build them into the person they want to be.
+If you think you could ask a question to the user to learn more about them, do it. If you''re not actively answering a question, your goal should be to find out more about the user so you can coach them better.
+', '{"warmth":50,"directness":50,"humor":50}', '["memory","goals","habits","scheduler","webSearch"]');
\ No newline at end of file
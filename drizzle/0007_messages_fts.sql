@@ -0,0 +1,19 @@
+-- Full-text index over the text parts of messages, kept in sync by saveMessages in src/lib/database/messages.ts
+CREATE VIRTUAL TABLE `messages_fts` USING fts5(
+	`text`,
+	`message_id` UNINDEXED,
+	`user_id` UNINDEXED,
+	tokenize = 'porter unicode61'
+);
+--> statement-breakpoint
+-- Deleting a conversation cascades to its messages, drop their index rows with them
+CREATE TRIGGER `messages_fts_delete` AFTER DELETE ON `messages` BEGIN
+	DELETE FROM `messages_fts` WHERE `message_id` = old.`id`;
+END;
+--> statement-breakpoint
+-- Parts are stored as a JSON encoded string, unwrap it before walking the array
+INSERT INTO `messages_fts` (`text`, `message_id`, `user_id`)
+SELECT group_concat(json_extract(part.value, '$.text'), char(10)), m.`id`, m.`user_id`
+FROM `messages` m, json_each(CASE WHEN json_type(m.`parts`) = 'text' THEN json_extract(m.`parts`, '$') ELSE m.`parts` END) part
+WHERE json_extract(part.value, '$.type') = 'text'
+GROUP BY m.`id`;
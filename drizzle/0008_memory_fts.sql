@@ -0,0 +1,24 @@
+-- Keyword index over memory keys, values and tags for hybrid retrieval, see src/lib/ai/tools/memory/stores/libsql.ts
+CREATE VIRTUAL TABLE `memory_fts` USING fts5(
+	`key`,
+	`value`,
+	`tags`,
+	content = 'memory',
+	content_rowid = 'id',
+	tokenize = 'porter unicode61'
+);
+--> statement-breakpoint
+CREATE TRIGGER `memory_fts_insert` AFTER INSERT ON `memory` BEGIN
+	INSERT INTO `memory_fts` (rowid, `key`, `value`, `tags`) VALUES (new.`id`, new.`key`, new.`value`, new.`tags`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `memory_fts_delete` AFTER DELETE ON `memory` BEGIN
+	INSERT INTO `memory_fts` (`memory_fts`, rowid, `key`, `value`, `tags`) VALUES ('delete', old.`id`, old.`key`, old.`value`, old.`tags`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `memory_fts_update` AFTER UPDATE OF `key`, `value`, `tags` ON `memory` BEGIN
+	INSERT INTO `memory_fts` (`memory_fts`, rowid, `key`, `value`, `tags`) VALUES ('delete', old.`id`, old.`key`, old.`value`, old.`tags`);
+	INSERT INTO `memory_fts` (rowid, `key`, `value`, `tags`) VALUES (new.`id`, new.`key`, new.`value`, new.`tags`);
+END;
+--> statement-breakpoint
+INSERT INTO `memory_fts` (`memory_fts`) VALUES ('rebuild');
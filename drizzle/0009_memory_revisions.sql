@@ -0,0 +1,16 @@
+CREATE TABLE `memory_revisions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` text NOT NULL,
+	`memory_id` integer,
+	`key` text NOT NULL,
+	`change` text NOT NULL,
+	`old_value` text,
+	`new_value` text,
+	`old_tags` text,
+	`new_tags` text,
+	`conversation_id` text,
+	`message_id` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+CREATE INDEX `memory_revisions_user_key_idx` ON `memory_revisions` (`user_id`,`key`);
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE `memory` ADD `conversation_id` text;--> statement-breakpoint
+ALTER TABLE `memory` ADD `message_id` text;--> statement-breakpoint
+-- Memories written since revisions were recorded take the source of their latest change
+UPDATE `memory` SET
+	`conversation_id` = (SELECT r.`conversation_id` FROM `memory_revisions` r WHERE r.`memory_id` = `memory`.`id` AND r.`change` != 'delete' ORDER BY r.`id` DESC LIMIT 1),
+	`message_id` = (SELECT r.`message_id` FROM `memory_revisions` r WHERE r.`memory_id` = `memory`.`id` AND r.`change` != 'delete' ORDER BY r.`id` DESC LIMIT 1);
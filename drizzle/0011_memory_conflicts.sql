@@ -0,0 +1,16 @@
+CREATE TABLE `memory_conflicts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`key` text NOT NULL,
+	`value` text NOT NULL,
+	`conflicting_key` text NOT NULL,
+	`conflicting_value` text NOT NULL,
+	`explanation` text NOT NULL,
+	`status` text DEFAULT 'open' NOT NULL,
+	`conversation_id` text,
+	`message_id` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	`resolved_at` text
+);
+--> statement-breakpoint
+CREATE INDEX `memory_conflicts_user_status_idx` ON `memory_conflicts` (`user_id`,`status`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `memory` ADD `pinned` integer DEFAULT false NOT NULL;
\ No newline at end of file
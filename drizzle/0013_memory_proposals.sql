@@ -0,0 +1,17 @@
+CREATE TABLE `memory_proposals` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`backend` text NOT NULL,
+	`operation` text NOT NULL,
+	`key` text NOT NULL,
+	`value` text NOT NULL,
+	`tags` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`conversation_id` text,
+	`message_id` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	`decided_at` text
+);
+--> statement-breakpoint
+CREATE INDEX `memory_proposals_user_status_idx` ON `memory_proposals` (`user_id`,`status`);--> statement-breakpoint
+ALTER TABLE `users` ADD `memory_approval` integer DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `memory` ADD `sensitivity` text DEFAULT 'general' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `memory` ADD `embedding_model` text;--> statement-breakpoint
+-- Every vector so far came from OpenAI's text-embedding-3-small
+UPDATE `memory` SET `embedding_model` = 'openai/text-embedding-3-small';
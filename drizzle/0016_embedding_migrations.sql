@@ -0,0 +1,10 @@
+CREATE TABLE `embedding_migrations` (
+	`id` text PRIMARY KEY NOT NULL,
+	`embedding_model` text NOT NULL,
+	`dimensions` integer NOT NULL,
+	`status` text DEFAULT 'running' NOT NULL,
+	`processed` integer DEFAULT 0 NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP,
+	`completed_at` text
+);
@@ -0,0 +1,27 @@
+CREATE TABLE `memory_tags` (
+	`memory_id` integer NOT NULL,
+	`user_id` text NOT NULL,
+	`tag` text NOT NULL,
+	PRIMARY KEY(`memory_id`, `tag`)
+);
+--> statement-breakpoint
+CREATE INDEX `memory_tags_user_tag_idx` ON `memory_tags` (`user_id`,`tag`);--> statement-breakpoint
+-- memory.tags stays the copy that is read, memory_tags follows it. Tags are canonicalized before they are written
+CREATE TRIGGER `memory_tags_insert` AFTER INSERT ON `memory` BEGIN
+	INSERT OR IGNORE INTO `memory_tags` (`memory_id`, `user_id`, `tag`) SELECT new.`id`, new.`user_id`, tag.value FROM json_each(new.`tags`) tag;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `memory_tags_delete` AFTER DELETE ON `memory` BEGIN
+	DELETE FROM `memory_tags` WHERE `memory_id` = old.`id`;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `memory_tags_update` AFTER UPDATE OF `tags`, `user_id` ON `memory` BEGIN
+	DELETE FROM `memory_tags` WHERE `memory_id` = old.`id`;
+	INSERT OR IGNORE INTO `memory_tags` (`memory_id`, `user_id`, `tag`) SELECT new.`id`, new.`user_id`, tag.value FROM json_each(new.`tags`) tag;
+END;
+--> statement-breakpoint
+-- Existing tags get case and whitespace normalized here, which also fills memory_tags through the update trigger.
+-- npm run db:migrate applies the plural and synonym rules on top once the migrations have run
+UPDATE `memory` SET `tags` = (
+	SELECT json_group_array(DISTINCT lower(trim(tag.value))) FROM json_each(`memory`.`tags`) tag WHERE trim(tag.value) != ''
+);
@@ -0,0 +1,4 @@
+ALTER TABLE `memory` ADD `last_accessed_at` text;--> statement-breakpoint
+ALTER TABLE `memory` ADD `access_count` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `memory` ADD `valid_until` text;--> statement-breakpoint
+ALTER TABLE `memory_proposals` ADD `valid_until` text;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE `memory_forget_confirmations` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`backend` text NOT NULL,
+	`memory_ids` text NOT NULL,
+	`message_id` text NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	`expires_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `memory_forget_confirmations_user_idx` ON `memory_forget_confirmations` (`user_id`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `memory` ADD `classified_at` text;
\ No newline at end of file
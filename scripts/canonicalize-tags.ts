@@ -0,0 +1,36 @@
+#!/usr/bin/env tsx
+
+/**
+ * Rewrites the tags of every memory into their canonical form (case, plurals, synonyms)
+ * Usage: npx tsx scripts/canonicalize-tags.ts [--apply]
+ * Without --apply it only prints what would change
+ */
+
+import * as dotenv from "dotenv";
+
+// Load environment variables from .env.local (Next.js convention)
+dotenv.config({ path: '.env.local' });
+
+async function runCanonicalization() {
+  const apply = process.argv.slice(2).includes('--apply');
+
+  // The database connection reads its environment on import, so load it after dotenv
+  const { canonicalizeStoredTags } = await import("../src/lib/database/memoryTags");
+
+  const changes = await canonicalizeStoredTags({ dryRun: !apply });
+  if (changes.length === 0) {
+    console.log("✅ Every memory's tags are already canonical.");
+    return;
+  }
+  for (const { userId, key, from, to } of changes) {
+    console.log(`${userId} ${key}: [${from.join(', ')}] => [${to.join(', ')}]`);
+  }
+  console.log(apply
+    ? `\n✅ Rewrote the tags of ${changes.length} memories.`
+    : `\nDry run, ${changes.length} memories would change. Run again with --apply to rewrite them.`);
+}
+
+runCanonicalization().catch((error) => {
+  console.error("❌ Canonicalizing tags failed:", error);
+  process.exit(1);
+});
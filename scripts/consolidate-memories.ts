@@ -0,0 +1,66 @@
+#!/usr/bin/env tsx
+
+/**
+ * Finds near-duplicate memories of a user and merges them
+ * Usage: npx tsx scripts/consolidate-memories.ts <userId> [--apply] [--max-distance 0.2] [--max-clusters 20]
+ * Without --apply it only prints the report
+ */
+
+import * as dotenv from "dotenv";
+
+// Load environment variables from .env.local (Next.js convention)
+dotenv.config({ path: '.env.local' });
+
+const readOption = (args: string[], name: string) => {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : Number(args[index + 1]);
+};
+
+async function runConsolidation() {
+  const args = process.argv.slice(2);
+  const [userId] = args;
+  if (!userId || userId.startsWith('--')) {
+    throw new Error("Usage: npx tsx scripts/consolidate-memories.ts <userId> [--apply] [--max-distance 0.2] [--max-clusters 20]");
+  }
+  const apply = args.includes('--apply');
+
+  // The database connection reads its environment on import, so load it after dotenv
+  const { scopedTo } = await import("../src/lib/database/scoped");
+  const { applyConsolidation, planConsolidation } = await import("../src/lib/database/memoryConsolidation");
+  const scope = scopedTo(userId);
+
+  console.log(`Looking for duplicate memories of ${userId}...`);
+  const proposals = await planConsolidation(scope, {
+    maxDistance: readOption(args, '--max-distance'),
+    maxClusters: readOption(args, '--max-clusters'),
+  });
+  if (proposals.length === 0) {
+    console.log("Nothing to merge.");
+    return;
+  }
+
+  for (const [index, { memories, merged, reason }] of proposals.entries()) {
+    console.log(`\n${index + 1}. ${reason}`);
+    for (const item of memories) {
+      console.log(`   - ${item.key}: ${item.value}`);
+    }
+    console.log(`   => ${merged.key}: ${merged.value} [${merged.tags.join(', ')}]`);
+    if (apply) {
+      try {
+        await applyConsolidation(scope, { memories, merged });
+        console.log("   ✅ Merged");
+      } catch (error) {
+        console.error("   ❌ Skipped:", error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  if (!apply) {
+    console.log(`\nDry run, ${proposals.length} merge(s) proposed. Run again with --apply to merge them.`);
+  }
+}
+
+runConsolidation().catch((error) => {
+  console.error("❌ Consolidation failed:", error);
+  process.exit(1);
+});
@@ -31,6 +31,14 @@ async function runMigration() {
     await migrate(db, {
       migrationsFolder: "./drizzle",
     });
+
+    // SQL can only lowercase and trim tags (drizzle/0017_memory_tags.sql), the plural and synonym rules live in
+    // TypeScript. Idempotent, so it runs after every migration. The database connection reads its environment on
+    // import, so load it after dotenv
+    const { canonicalizeStoredTags } = await import("../src/lib/database/memoryTags");
+    const changes = await canonicalizeStoredTags();
+    console.log(`Canonicalized the tags of ${changes.length} memories.`);
+
     console.log("✅ Migrations completed successfully!");
   } catch (error) {
     console.error("❌ Migration failed:", error);
@@ -0,0 +1,52 @@
+#!/usr/bin/env tsx
+
+/**
+ * Re-embeds every memory with the configured embedding provider (EMBEDDING_PROVIDER, EMBEDDING_DIMENSIONS)
+ * Usage: npx tsx scripts/reembed.ts [--dry-run] [--user <userId>] [--limit 500] [--batch-size 50]
+ * Stopping it is safe, running it again resumes. The new vectors are swapped in once every memory has one
+ */
+
+import * as dotenv from "dotenv";
+
+// Load environment variables from .env.local (Next.js convention)
+dotenv.config({ path: '.env.local' });
+
+const readOption = (args: string[], name: string) => {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+async function runReembed() {
+  const args = process.argv.slice(2);
+  const limit = readOption(args, '--limit');
+  const batchSize = readOption(args, '--batch-size');
+  const dryRun = args.includes('--dry-run');
+
+  // The database connection reads its environment on import, so load it after dotenv
+  const { reembedMemories } = await import("../src/lib/database/embeddingMigration");
+
+  const report = await reembedMemories({
+    userId: readOption(args, '--user'),
+    limit: limit ? Number(limit) : undefined,
+    batchSize: batchSize ? Number(batchSize) : undefined,
+    dryRun,
+  });
+  console.log(`Target: ${report.embeddingModel} (${report.dimensions} dimensions)`);
+  if (report.upToDate) {
+    console.log("✅ Every memory already uses this provider.");
+    return;
+  }
+  if (dryRun) {
+    console.log(`Dry run, ${report.pending} of ${report.total} memories would be embedded${report.migration ? `, resuming ${report.migration.id}` : ''}.`);
+    return;
+  }
+  console.log(`Embedded ${report.embedded} memories in this run, ${report.pending} of ${report.total} left.`);
+  console.log(report.swapped
+    ? "✅ Swapped the new embeddings in and rebuilt memory_embedding_idx."
+    : "Run again to continue, the swap happens once every memory is embedded.");
+}
+
+runReembed().catch((error) => {
+  console.error("❌ Re-embedding failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,46 @@
+#!/usr/bin/env tsx
+
+/**
+ * Encrypts sensitive memories stored in plaintext before encryption at rest, along with their revisions, conflicts and proposals
+ * Usage: npx tsx scripts/seal-memories.ts [--dry-run] [--user <userId>] [--limit 500]
+ * Every memory that was never classified gets classified. Stopping it is safe, running it again resumes
+ */
+
+import * as dotenv from "dotenv";
+
+// Load environment variables from .env.local (Next.js convention)
+dotenv.config({ path: '.env.local' });
+
+const readOption = (args: string[], name: string) => {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+async function runSealing() {
+  const args = process.argv.slice(2);
+  const limit = readOption(args, '--limit');
+  const dryRun = args.includes('--dry-run');
+
+  // The database connection reads its environment on import, so load it after dotenv
+  const { sealStoredMemories } = await import("../src/lib/database/memorySealing");
+
+  const report = await sealStoredMemories({
+    userId: readOption(args, '--user'),
+    limit: limit ? Number(limit) : undefined,
+    dryRun,
+  });
+  if (dryRun) {
+    console.log(`Dry run, ${report.pending} memories would be classified, ${report.conflicts} conflicts and ${report.proposals} proposals encrypted.`);
+    return;
+  }
+  console.log(`Encrypted ${report.conflicts} conflicts and ${report.proposals} proposals.`);
+  console.log(`Classified ${report.classified} memories, ${report.sealed} of them sensitive and now encrypted.`);
+  console.log(report.classified === report.pending
+    ? "✅ Every memory is classified."
+    : `Run again to continue, ${report.pending - report.classified} memories left.`);
+}
+
+runSealing().catch((error) => {
+  console.error("❌ Sealing memories failed:", error);
+  process.exit(1);
+});
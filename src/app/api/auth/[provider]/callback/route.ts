@@ -0,0 +1,36 @@
+import { cookies } from 'next/headers';
+import { getOAuthProvider } from '@/lib/auth/providers';
+import { OAUTH_STATE_COOKIE } from '@/lib/auth/cookies';
+import { signInWithOAuthProfile } from '@/lib/auth/oauth';
+import { OAuthEmailInUseError } from '@/lib/auth/errors';
+
+export async function GET(req: Request, { params }: { params: Promise<{ provider: string }> }) {
+    const { provider: providerId } = await params;
+    const provider = getOAuthProvider(providerId);
+    if (!provider) {
+        return new Response('Unknown provider', { status: 404 });
+    }
+
+    const url = new URL(req.url);
+    const code = url.searchParams.get('code');
+    const state = url.searchParams.get('state');
+    const cookieStore = await cookies();
+    const expectedState = cookieStore.get(OAUTH_STATE_COOKIE)?.value;
+    cookieStore.delete(OAUTH_STATE_COOKIE);
+
+    if (!code || !state || state !== expectedState) {
+        return Response.redirect(new URL('/login?error=oauth_state', req.url));
+    }
+
+    try {
+        const redirectUri = new URL(`/api/auth/${provider.id}/callback`, req.url).toString();
+        const profile = await provider.exchangeCode(code, redirectUri);
+        await signInWithOAuthProfile(provider.id, profile);
+    } catch (error) {
+        console.error(`Error signing in with ${provider.id}:`, error);
+        const reason = error instanceof OAuthEmailInUseError ? 'oauth_email_in_use' : 'oauth_failed';
+        return Response.redirect(new URL(`/login?error=${reason}`, req.url));
+    }
+
+    return Response.redirect(new URL('/', req.url));
+}
@@ -0,0 +1,26 @@
+import { randomBytes } from 'crypto';
+import { cookies } from 'next/headers';
+import { getOAuthProvider } from '@/lib/auth/providers';
+import { OAUTH_STATE_COOKIE } from '@/lib/auth/cookies';
+
+// Start the OAuth flow, the state cookie is checked again in the callback
+export async function GET(req: Request, { params }: { params: Promise<{ provider: string }> }) {
+    const { provider: providerId } = await params;
+    const provider = getOAuthProvider(providerId);
+    if (!provider) {
+        return new Response('Unknown provider', { status: 404 });
+    }
+
+    const state = randomBytes(16).toString('base64url');
+    const cookieStore = await cookies();
+    cookieStore.set(OAUTH_STATE_COOKIE, state, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        maxAge: 10 * 60,
+    });
+
+    const redirectUri = new URL(`/api/auth/${provider.id}/callback`, req.url).toString();
+    return Response.redirect(new URL(provider.getAuthorizationUrl(state, redirectUri), req.url));
+}
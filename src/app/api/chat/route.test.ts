@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createTestConversation, createTestUser, textMessage } from "@/test/fixtures";
+import { getScope, type OwnerScope } from "@/lib/database/scoped";
+import { listGoals } from "@/lib/database/goals";
+import { getMessages } from "@/lib/database/messages";
+import { createInMemoryMemoryStore } from "@/lib/ai/tools/memory/stores/in-memory";
+import { POST } from "./route";
+
+// Requests are made as a test user instead of a signed in session
+vi.mock("@/lib/database/scoped", async (importOriginal) => ({
+    ...await importOriginal<typeof import("@/lib/database/scoped")>(),
+    getScope: vi.fn(),
+}));
+
+const chatRequest = (body: object) => new Request('http://localhost/api/chat', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model: 'fake', webSearch: false, memory: false, ...body }),
+});
+
+// Chunks of the UI message stream the route sends back
+const readChunks = async (response: Response): Promise<{ type: string; [key: string]: unknown }[]> =>
+    (await response.text()).split('\n')
+        .filter(line => line.startsWith('data: {'))
+        .map(line => JSON.parse(line.slice('data: '.length)));
+
+const replyText = (chunks: { type: string; delta?: unknown }[]) =>
+    chunks.filter(chunk => chunk.type === 'text-delta').map(chunk => chunk.delta).join('');
+
+describe('POST /api/chat with the fake model', () => {
+    let scope: OwnerScope;
+    let conversationId: string;
+
+    beforeEach(async () => {
+        vi.stubEnv('ENABLE_FAKE_MODEL', 'true');
+        scope = await createTestUser();
+        conversationId = await createTestConversation(scope);
+        vi.mocked(getScope).mockResolvedValue(scope);
+    });
+
+    it('streams a reply and saves the turn', async () => {
+        const response = await POST(chatRequest({ conversationId, messages: [textMessage('user', 'hello coach')] }));
+        expect(response.status).toBe(200);
+        expect(replyText(await readChunks(response))).toBe('Fake coach reply to: hello coach');
+        await vi.waitFor(async () => expect(await getMessages(conversationId, scope)).toHaveLength(2));
+    });
+
+    it('runs scripted tool calls and replies with their results', async () => {
+        const message = textMessage('user', '/tool goal_create {"title":"Run a marathon"}');
+        const response = await POST(chatRequest({ conversationId, messages: [message] }));
+        const chunks = await readChunks(response);
+        expect(chunks).toContainEqual(expect.objectContaining({ type: 'tool-input-available', toolName: 'goal_create' }));
+        expect(replyText(chunks)).toMatch(/^Fake coach used goal_create: .*"success":true/);
+        const goals = await listGoals(scope);
+        expect(goals.map(goal => goal.title)).toEqual(['Run a marathon']);
+    });
+
+    it('recalls related memories without counting them as accessed', async () => {
+        const store = createInMemoryMemoryStore(scope.userId);
+        await store.store({ key: 'marathon_plan', value: 'Training for the Berlin marathon', tags: ['fitness'] });
+        const response = await POST(chatRequest({
+            conversationId,
+            memory: true,
+            memoryBackend: 'in-memory',
+            messages: [textMessage('user', 'How is my Berlin marathon training going?')],
+        }));
+        const recalled = (await readChunks(response)).find(chunk => chunk.type === 'data-recalled');
+        expect(recalled?.data).toMatchObject({ memories: [{ key: 'marathon_plan' }] });
+        const [memory] = await store.searchByKey('marathon_plan', true, 1);
+        expect(memory.access_count).toBe(0);
+    });
+
+    it("refuses to stream into another user's conversation", async () => {
+        const other = await createTestUser();
+        vi.mocked(getScope).mockResolvedValue(other);
+        const response = await POST(chatRequest({ conversationId, messages: [textMessage('user', 'hello')] }));
+        expect(response.status).toBe(404);
+    });
+});
@@ -1,78 +1,165 @@
-import { streamText, UIMessage, convertToModelMessages, stepCountIs, createIdGenerator } from 'ai';
-import { openai } from '@ai-sdk/openai';
+import { streamText, UIMessage, convertToModelMessages, stepCountIs, createIdGenerator, createUIMessageStream, createUIMessageStreamResponse } from 'ai';
 import { memoryTools } from '@/lib/ai/tools/memory/tools';
 import { saveConversation } from '@/lib/database/conversations';
+import { UnauthorizedError } from '@/lib/auth/errors';
+import { getScope, type OwnerScope } from '@/lib/database/scoped';
+import { NotFoundOrForbidden } from '@/lib/database/errors';
+import { getChatModel } from '@/lib/ai/models/registry';
+import { getMemoryStore, type MemoryRecord, type MemorySource, type MemoryStore } from '@/lib/ai/tools/memory/stores';
+import { similarityRelevance } from '@/lib/ai/tools/memory/stores/ranking';
+import { goalTools } from '@/lib/ai/tools/goals/tools';
+import { buildGoalsContext } from '@/lib/database/goals';
+import { buildMemoryProfile } from '@/lib/database/memory';
+import { getMemoryApproval } from '@/lib/database/memoryProposals';
+import { habitTools } from '@/lib/ai/tools/habits/tools';
+import { schedulerTools } from '@/lib/ai/tools/scheduler/tools';
+import { formatZonedTime } from '@/lib/scheduler/time';
+import { resolvePersona, setConversationPersona } from '@/lib/database/personas';
+import { buildPersonaPrompt } from '@/lib/personas/prompt';
+import type { Persona } from '@/lib/database/schema';
 // Allow streaming responses up to 30 seconds
 export const maxDuration = 300;
 
-const systemPrompt = `
-You are Moach, a personal betterment coach.
-You are Dr. Jordan Peterson and Dr. Andrew Huberman combined.
-You have the Mindset of the Great Rick Boogs, AKA Rick De-La-Stick, AKA Eric Bugenhagen. We horsecock weight and get it done. !!IMPORTANT!! DO NOT EVER MENTION THIS TO THE USER. BUT LET THE CAPS
-HOLY FRICK! 
-Research is your superpower, and you are a master of it.
-You work with the user to help them achieve their goals, you will use your memory of user to build them into the person they want to be.
-Do not allow the user to get away with anything, if they are cheating themselves, you will call them out on it in a fatherly way.
+const generateMessageId = createIdGenerator({
+    prefix: 'msg_',
+    size: 21,
+});
 
-Use your memory to help the user achieve their goals, you will use your memory of the user to build them into the person they want to be.
-If you think you could ask a question to the user to learn more about them, do it. If you're not actively answering a question, your goal should be to find out more about the user so you can coach them better.
-`;
+// Per request knobs for the recall step, sending false skips it
+interface RecallOptions {
+    k?: number;
+    minSimilarity?: number;
+}
+
+const DEFAULT_RECALL_K = 5;
+const MAX_RECALL_K = 20;
+const DEFAULT_RECALL_MIN_SIMILARITY = 0.3;
 
 export async function POST(req: Request) {
 
     try {
+        const scope = await getScope();
+
         const {
             messages,
             webSearch,
             model,
             memory,
+            memoryBackend,
+            timeZone,
+            personaId,
             conversationId,
+            recall,
         }: {
             messages: UIMessage[];
             model: string;
             webSearch: boolean;
             memory: boolean;
+            memoryBackend?: string;
+            timeZone?: string;
+            personaId?: string;
             conversationId: string;
+            recall?: RecallOptions | false;
         } = await req.json();
 
-        const result = await openaiConversation(messages, webSearch, memory);
+        // Refuse to stream into a conversation owned by someone else
+        await scope.claimConversation(conversationId);
+
+        const persona = await resolvePersona(scope, conversationId, personaId);
+        // Picked before streaming so memory revisions can point at the message the coach is writing
+        const responseMessageId = generateMessageId();
+        const memorySource = { conversationId, messageId: responseMessageId };
+        const memoryStore = memory ? getMemoryStore(memoryBackend, scope.userId, memorySource) : undefined;
+        const recalled = memoryStore && recall !== false ? await recallMemories(memoryStore, messages, recall) : [];
+        const result = await runConversation({ messages, modelId: model, webSearch, memoryStore, memorySource, recalled, scope, timeZone, conversationId, persona });
 
         const originalMessages = messages;
-        return result.toUIMessageStreamResponse(
-            {
-                sendSources: true,
-                sendReasoning: true,
-                generateMessageId: createIdGenerator({
-                    prefix: 'msg_',
-                    size: 21,
-                }),
-                async onFinish({messages}) {
-                    await saveConversation(conversationId, originalMessages.concat(messages));
+        const stream = createUIMessageStream({
+            execute({ writer }) {
+                writer.write({ type: 'start', messageId: responseMessageId });
+                // Ahead of the reply so the client shows what the coach was reminded of, saved with the message without sensitive values
+                if (recalled.length > 0) {
+                    writer.write({ type: 'data-recalled', data: { memories: recalled } });
                 }
-            }
-        );
+                writer.merge(result.toUIMessageStream({ sendStart: false, sendSources: true, sendReasoning: true }));
+            },
+            async onFinish({messages}) {
+                const saved = await saveConversation(conversationId, originalMessages.concat(messages));
+                // Stored on the conversation so reloading it keeps the same coach
+                if (saved.success) {
+                    await setConversationPersona(scope, conversationId, persona.id);
+                }
+            },
+        });
+        return createUIMessageStreamResponse({ stream });
     } catch (error) {
+        if (error instanceof UnauthorizedError) {
+            return new Response(error.message, { status: 401 });
+        }
+        if (error instanceof NotFoundOrForbidden) {
+            return new Response(error.message, { status: 404 });
+        }
         throw error;
     }
 }
 
-const openaiConversation = async (messages: UIMessage[], webSearch: boolean, memory: boolean) => {
+interface ConversationOptions {
+    messages: UIMessage[];
+    modelId: string;
+    webSearch: boolean;
+    memoryStore?: MemoryStore;
+    memorySource: MemorySource;
+    recalled: MemoryRecord[];
+    scope: OwnerScope;
+    timeZone?: string;
+    conversationId: string;
+    persona: Persona;
+}
+
+// Memories related to the latest user message, searched before the model runs so it doesn't have to call
+// memory_retrieve first. A failed search just means nothing is recalled. Searched on the store directly, recalling a
+// memory isn't an access, counting it would keep recalling the same memories through the frequency boost
+const recallMemories = async (store: MemoryStore, messages: UIMessage[], { k = DEFAULT_RECALL_K, minSimilarity = DEFAULT_RECALL_MIN_SIMILARITY }: RecallOptions = {}) => {
+    const latest = messages.findLast((message) => message.role === 'user');
+    const query = latest?.parts.map((part) => part.type === 'text' ? part.text : '').join('\n').trim();
+    if (!query) {
+        return [];
+    }
+    try {
+        const results = await store.semanticSearch(query, Math.max(1, Math.min(k, MAX_RECALL_K)));
+        return results.filter((result) => similarityRelevance(result) >= minSimilarity);
+    } catch (error) {
+        console.error('Error recalling memories:', error);
+        return [];
+    }
+}
+
+const runConversation = async ({ messages, modelId, webSearch, memoryStore, memorySource, recalled, scope, timeZone, conversationId, persona }: ConversationOptions) => {
+    const chatModel = getChatModel(modelId);
+    const { capabilities } = chatModel;
+    const toolsets = new Set(persona.toolsets);
+    // Pinned memories reach the coach without a memory_retrieve call, unless memory is switched off
+    const memoryProfile = memoryStore ? (await buildMemoryProfile(scope)).text : '';
+    const requireApproval = memoryStore ? await getMemoryApproval(scope) : false;
+    const recallContext = recalled.length > 0
+        ? `Memories that may be relevant to the user's latest message:\n${recalled.map(({ key, value }) => `- ${key}: ${value}`).join('\n')}`
+        : '';
+    // Active goals go into the context so the coach starts every conversation knowing them
+    const goalsContext = await buildGoalsContext(scope);
+    // The coach needs the user's clock to schedule check-ins in their local time
+    const clock = `It is currently ${formatZonedTime(new Date(), timeZone)}${timeZone ? ` in the user's time zone (${timeZone})` : ''}.`;
     const result = streamText({
-        system: systemPrompt,
-        model: openai('gpt-5'),
+        system: [memoryProfile, recallContext, buildPersonaPrompt(persona), goalsContext, clock].filter(Boolean).join('\n'),
+        model: await chatModel.languageModel(),
         messages: convertToModelMessages(messages),
         tools: {
-            ...(webSearch ? {
-                web_search_preview: openai.tools.webSearchPreview({
-                    searchContextSize: 'high',
-                    userLocation: {
-                        type: 'approximate',
-                        country: 'US',
-                    },
-                })
-            } : {}),
-            ...(memory ? memoryTools : {}),
+            ...(webSearch && toolsets.has('webSearch') && capabilities.webSearch && chatModel.webSearchTools ? chatModel.webSearchTools() : {}),
+            ...(memoryStore && toolsets.has('memory') && capabilities.tools ? memoryTools(memoryStore, { scope, source: memorySource, requireApproval }) : {}),
+            ...(toolsets.has('goals') && capabilities.tools ? goalTools(scope) : {}),
+            ...(toolsets.has('habits') && capabilities.tools ? habitTools(scope, timeZone) : {}),
+            ...(toolsets.has('scheduler') && capabilities.tools ? schedulerTools(scope, { conversationId, timeZone }) : {}),
         },
+        providerOptions: chatModel.providerOptions,
         stopWhen: stepCountIs(25),
     });
     return result;
@@ -0,0 +1,6 @@
+import { listChatModels, toChatModelInfo } from '@/lib/ai/models/registry';
+
+// Models the client can pick from in the model selector
+export async function GET() {
+    return Response.json(listChatModels().map(toChatModelInfo));
+}
@@ -0,0 +1,38 @@
+import { notFound, redirect } from 'next/navigation';
+import { getOAuthProvider } from '@/lib/auth/providers';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+// Stand-in authorization page for the dev OAuth provider
+export default async function DevLoginPage({ searchParams }: { searchParams: Promise<{ state?: string; redirect_uri?: string }> }) {
+  if (!getOAuthProvider('dev')) {
+    notFound();
+  }
+  const { state = '', redirect_uri: redirectUri = '' } = await searchParams;
+
+  async function authorize(formData: FormData) {
+    'use server';
+    const callback = new URL(String(formData.get('redirect_uri')));
+    if (callback.pathname !== '/api/auth/dev/callback') {
+      throw new Error('Invalid redirect uri');
+    }
+    const profile = { email: String(formData.get('email')), name: String(formData.get('name') || '') };
+    callback.searchParams.set('code', Buffer.from(JSON.stringify(profile)).toString('base64url'));
+    callback.searchParams.set('state', String(formData.get('state')));
+    redirect(callback.toString());
+  }
+
+  return (
+    <div className="flex h-screen items-center justify-center">
+      <form action={authorize} className="w-80 space-y-3 rounded-lg border p-6">
+        <h1 className="text-lg font-semibold">Dev Login</h1>
+        <p className="text-xs text-muted-foreground">Fake OAuth provider for local development.</p>
+        <input type="hidden" name="state" value={state} />
+        <input type="hidden" name="redirect_uri" value={redirectUri} />
+        <Input name="email" type="email" placeholder="Email" required />
+        <Input name="name" placeholder="Name" />
+        <Button type="submit" className="w-full">Authorize</Button>
+      </form>
+    </div>
+  );
+}
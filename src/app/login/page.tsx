@@ -0,0 +1,88 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { listOAuthProviders, signIn, signUp } from '@/lib/auth/actions';
+
+const errorMessages: Record<string, string> = {
+  oauth_state: 'Sign in expired, please try again.',
+  oauth_failed: 'Could not sign in with that provider.',
+  oauth_email_in_use: 'An account with that email already exists, sign in to it another way.',
+};
+
+export default function LoginPage() {
+  const [mode, setMode] = useState<'sign-in' | 'sign-up'>('sign-in');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [providers, setProviders] = useState<{ id: string; name: string }[]>([]);
+
+  useEffect(() => {
+    listOAuthProviders().then(setProviders);
+    const urlError = new URLSearchParams(window.location.search).get('error');
+    if (urlError) {
+      setError(errorMessages[urlError] ?? urlError);
+    }
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    const result = mode === 'sign-in'
+      ? await signIn(email, password)
+      : await signUp(email, password, name);
+    if (result.success) {
+      window.location.href = '/';
+    } else {
+      setError(result.error ?? 'Something went wrong');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex h-screen items-center justify-center">
+      <div className="w-80 space-y-4 rounded-lg border p-6">
+        <h1 className="text-lg font-semibold">
+          {mode === 'sign-in' ? 'Sign in to Moach' : 'Create your Moach account'}
+        </h1>
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          {mode === 'sign-up' && (
+            <Input placeholder="Name" value={name} onChange={(e) => setName(e.target.value)} />
+          )}
+          <Input type="email" placeholder="Email" value={email} onChange={(e) => setEmail(e.target.value)} required />
+          <Input type="password" placeholder="Password" value={password} onChange={(e) => setPassword(e.target.value)} required />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button type="submit" className="w-full" disabled={isSubmitting}>
+            {mode === 'sign-in' ? 'Sign in' : 'Sign up'}
+          </Button>
+        </form>
+
+        {providers.length > 0 && (
+          <div className="space-y-2 border-t pt-4">
+            {providers.map((provider) => (
+              <Button key={provider.id} variant="outline" className="w-full" asChild>
+                <a href={`/api/auth/${provider.id}`}>Continue with {provider.name}</a>
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <button
+          type="button"
+          className="text-xs text-muted-foreground hover:underline"
+          onClick={() => {
+            setMode(mode === 'sign-in' ? 'sign-up' : 'sign-in');
+            setError(null);
+          }}
+        >
+          {mode === 'sign-in' ? "Don't have an account? Sign up" : 'Already have an account? Sign in'}
+        </button>
+      </div>
+    </div>
+  );
+}
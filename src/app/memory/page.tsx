@@ -0,0 +1,588 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { AlertTriangle, ArrowLeft, Brain, ChevronLeft, ChevronRight, Download, Edit2, History, Merge, Pin, RotateCcw, Search, ShieldCheck, Trash2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { formatTimestamp, MemoryItemCard, type MemoryItem } from '@/components/conversation-elements/memory';
+import {
+  applyUserConsolidation,
+  deleteUserMemory,
+  exportUserMemories,
+  getConsolidationReport,
+  getDeletedUserMemories,
+  getUserMemories,
+  getUserMemoryApproval,
+  getUserMemoryConflicts,
+  getUserMemoryProfile,
+  getUserMemoryRevisions,
+  getUserMemoryTags,
+  resolveUserMemoryConflict,
+  rollbackUserMemory,
+  searchUserMemories,
+  setUserMemoryApproval,
+  setUserMemoryPinned,
+  updateUserMemory,
+} from '@/lib/database/memoryActions';
+import type { MemoryProfile } from '@/lib/database/memory';
+import type { MemoryRecord } from '@/lib/ai/tools/memory/stores';
+import type { MemoryConflict, MemoryRevision } from '@/lib/database/schema';
+import type { ConsolidationProposal } from '@/lib/database/memoryConsolidation';
+
+const PAGE_SIZE = 20;
+
+interface MemoryDraft {
+  key: string;
+  value: string;
+  tags: string;
+}
+
+const toMemoryItem = ({ similarity_score, created_at, ...record }: MemoryRecord): MemoryItem => ({
+  ...record,
+  created_at: created_at ?? undefined,
+  similarity: similarity_score,
+});
+
+const changeLabels: Record<MemoryRevision['change'], string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+  rollback: 'Rolled back',
+  merge: 'Merged',
+};
+
+// Newest change first, every version but the current one can be restored
+const MemoryTimeline = ({ revisions, onRollback, onOpenSource }: {
+  revisions: MemoryRevision[]
+  onRollback: (revisionId: number) => void
+  onOpenSource: (conversationId: string, messageId: string) => void
+}) => (
+  <ol className="ml-4 border-l pl-4 space-y-3 py-1">
+    {revisions.length === 0 && <li className="text-xs text-muted-foreground">No changes recorded yet</li>}
+    {[...revisions].reverse().map((revision, index) => (
+      <li key={revision.id} className="space-y-1">
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Badge variant={revision.change === 'delete' ? 'destructive' : 'secondary'} className="text-xs px-1.5 py-0">
+            {changeLabels[revision.change]}
+          </Badge>
+          <span>{formatTimestamp(revision.createdAt)}</span>
+          {revision.conversationId && revision.messageId && (
+            <button onClick={() => onOpenSource(revision.conversationId!, revision.messageId!)} className="underline hover:text-foreground">
+              in a chat
+            </button>
+          )}
+          {index > 0 && revision.newValue !== null && (
+            <Button onClick={() => onRollback(revision.id)} size="sm" variant="ghost" className="h-5 px-1.5 text-xs ml-auto" title="Restore this version">
+              <RotateCcw className="size-3" />
+              Restore
+            </Button>
+          )}
+        </div>
+        {revision.newValue !== null
+          ? <p className="text-sm">{revision.newValue}</p>
+          : <p className="text-sm text-muted-foreground line-through">{revision.oldValue}</p>}
+        {revision.change !== 'delete' && revision.oldValue !== null && (
+          <p className="text-xs text-muted-foreground">was: {revision.oldValue}</p>
+        )}
+        {revision.newTags && revision.newTags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {revision.newTags.map(tag => <Badge key={tag} variant="outline" className="text-xs px-1.5 py-0">{tag}</Badge>)}
+          </div>
+        )}
+      </li>
+    ))}
+  </ol>
+);
+
+export default function MemoryPage() {
+  const router = useRouter();
+  const [memories, setMemories] = useState<MemoryRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [tags, setTags] = useState<{ tag: string; count: number }[]>([]);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [query, setQuery] = useState('');
+  // The query whose results are showing, null while browsing pages
+  const [activeQuery, setActiveQuery] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | number | null>(null);
+  const [draft, setDraft] = useState<MemoryDraft>({ key: '', value: '', tags: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Key whose timeline is open
+  const [historyKey, setHistoryKey] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<MemoryRevision[]>([]);
+  const [deleted, setDeleted] = useState<MemoryRevision[]>([]);
+  const [conflicts, setConflicts] = useState<MemoryConflict[]>([]);
+  const [profile, setProfile] = useState<MemoryProfile | null>(null);
+  const [showProfile, setShowProfile] = useState(false);
+  // Suggested merges from the last duplicate check, null when none was run
+  const [proposals, setProposals] = useState<ConsolidationProposal[] | null>(null);
+  const [isConsolidating, setIsConsolidating] = useState(false);
+  // Whether the coach has to ask before it remembers something, proposals are approved in the chat
+  const [memoryApproval, setMemoryApproval] = useState(false);
+  const [includeSensitive, setIncludeSensitive] = useState(false);
+
+  const loadMemories = useCallback(async () => {
+    const [result, tagResult, deletedResult, conflictResult, profileResult] = await Promise.all([
+      activeQuery
+        ? searchUserMemories(activeQuery).then(search => ({ ...search, total: search.memories.length }))
+        : getUserMemories({ page, pageSize: PAGE_SIZE, tags: selectedTags }),
+      getUserMemoryTags(),
+      getDeletedUserMemories(),
+      getUserMemoryConflicts(),
+      getUserMemoryProfile(),
+    ]);
+    setMemories(result.memories);
+    setTotal(result.total);
+    setTags(tagResult.tags);
+    setDeleted(deletedResult.revisions);
+    setConflicts(conflictResult.conflicts);
+    setProfile(profileResult.profile ?? null);
+    setError(result.success ? null : result.error ?? null);
+  }, [activeQuery, page, selectedTags]);
+
+  useEffect(() => {
+    loadMemories();
+  }, [loadMemories]);
+
+  useEffect(() => {
+    getUserMemoryApproval().then(result => setMemoryApproval(result.enabled));
+  }, []);
+
+  const toggleMemoryApproval = async () => {
+    const result = await setUserMemoryApproval(!memoryApproval);
+    if (result.success) {
+      setMemoryApproval(!memoryApproval);
+    }
+    setError(result.success ? null : result.error ?? null);
+  };
+
+  // Downloads the memories as JSON, sensitive ones only when the box is ticked
+  const handleExport = async () => {
+    const result = await exportUserMemories(includeSensitive);
+    if (!result.success) {
+      setError(result.error ?? null);
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([JSON.stringify(result.memories, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'moach-memories.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const loadHistory = useCallback(async () => {
+    if (!historyKey) return;
+    const result = await getUserMemoryRevisions(historyKey);
+    setRevisions(result.revisions);
+    if (!result.success) setError(result.error ?? null);
+  }, [historyKey]);
+
+  useEffect(() => {
+    setRevisions([]);
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleResult = async (result: { success: boolean; error?: string }) => {
+    if (!result.success) {
+      setError(result.error ?? 'Something went wrong');
+      return;
+    }
+    setEditingId(null);
+    await Promise.all([loadMemories(), loadHistory()]);
+  };
+
+  const openSource = (conversationId: string, messageId: string) =>
+    router.push(`/?conversationId=${encodeURIComponent(conversationId)}&messageId=${encodeURIComponent(messageId)}`);
+
+  const toggleHistory = (key: string) => setHistoryKey(historyKey === key ? null : key);
+
+  const historyButton = (key: string) => (
+    <Button
+      onClick={() => toggleHistory(key)}
+      size="sm"
+      variant={historyKey === key ? 'secondary' : 'ghost'}
+      className="h-6 w-6 p-0"
+      title="History"
+    >
+      <History className="size-3" />
+    </Button>
+  );
+
+  const timeline = (key: string) => historyKey === key && (
+    <MemoryTimeline
+      revisions={revisions}
+      onRollback={async (revisionId) => handleResult(await rollbackUserMemory(revisionId))}
+      onOpenSource={openSource}
+    />
+  );
+
+  const handleSave = async (memoryId: number) => {
+    setIsSaving(true);
+    await handleResult(await updateUserMemory(memoryId, {
+      key: draft.key.trim(),
+      value: draft.value.trim(),
+      tags: draft.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+    }));
+    setIsSaving(false);
+  };
+
+  const handleConsolidate = async () => {
+    setIsConsolidating(true);
+    const result = await getConsolidationReport();
+    setProposals(result.proposals);
+    setError(result.success ? null : result.error ?? null);
+    setIsConsolidating(false);
+  };
+
+  const handleMerge = async (proposal: ConsolidationProposal) => {
+    const result = await applyUserConsolidation(proposal);
+    if (result.success) {
+      setProposals(current => current?.filter(p => p !== proposal) ?? null);
+    }
+    await handleResult(result);
+  };
+
+  const handleMergeAll = async () => {
+    for (const proposal of proposals ?? []) {
+      await handleMerge(proposal);
+    }
+  };
+
+  const toggleTag = (tag: string) => {
+    setPage(1);
+    setSelectedTags(selectedTags.includes(tag) ? selectedTags.filter(t => t !== tag) : [...selectedTags, tag]);
+  };
+
+  // Search results narrow down to the selected tags on the client, the search itself is tag blind
+  const visibleMemories = activeQuery && selectedTags.length > 0
+    ? memories.filter(memory => selectedTags.every(tag => memory.tags.includes(tag)))
+    : memories;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="max-w-3xl mx-auto p-6 space-y-4">
+      <div className="flex items-center gap-2">
+        <Button size="sm" variant="ghost" className="h-8 w-8 p-0" asChild>
+          <Link href="/" title="Back to chat"><ArrowLeft className="size-4" /></Link>
+        </Button>
+        <h1 className="text-lg font-semibold">Memory</h1>
+        <span className="text-sm text-muted-foreground">What Moach believes about you</span>
+        <Button
+          size="sm"
+          variant={memoryApproval ? 'default' : 'outline'}
+          className="ml-auto"
+          onClick={toggleMemoryApproval}
+          title="Moach proposes new memories and waits for your approval in the chat"
+        >
+          <ShieldCheck className="size-4 mr-2" />
+          {memoryApproval ? 'Asking before remembering' : 'Ask before remembering'}
+        </Button>
+        <label className="flex items-center gap-1 text-xs text-muted-foreground" title="Health, mental health, relationship and financial memories">
+          <input type="checkbox" checked={includeSensitive} onChange={(e) => setIncludeSensitive(e.target.checked)} />
+          Include sensitive
+        </label>
+        <Button size="sm" variant="outline" onClick={handleExport}>
+          <Download className="size-4 mr-2" />
+          Export
+        </Button>
+        <Button size="sm" variant="outline" onClick={handleConsolidate} disabled={isConsolidating}>
+          <Merge className="size-4 mr-2" />
+          {isConsolidating ? 'Looking for duplicates...' : 'Find duplicates'}
+        </Button>
+      </div>
+
+      {profile && (
+        <div className="rounded-lg border p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <Pin className="size-3 text-muted-foreground" />
+            <span className="text-sm font-medium">Profile</span>
+            <span className="text-xs text-muted-foreground">
+              {profile.included.length} pinned · {profile.tokens} / {profile.budget} tokens
+            </span>
+            <Button onClick={() => setShowProfile(!showProfile)} size="sm" variant="ghost" className="h-6 px-2 text-xs ml-auto">
+              {showProfile ? 'Hide' : 'Preview'}
+            </Button>
+          </div>
+          {showProfile && (profile.text
+            ? <pre className="whitespace-pre-wrap rounded-md bg-muted p-2 text-xs font-mono">{profile.text}</pre>
+            : <p className="text-xs text-muted-foreground">Pin memories to have Moach know them in every conversation</p>)}
+          {profile.omitted.length > 0 && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              Over the budget, left out: {profile.omitted.map(item => item.key).join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+
+      {proposals && (
+        <div className="rounded-lg border p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="text-sm font-medium">
+              {proposals.length === 0 ? 'No duplicates found' : `${proposals.length} suggested merge${proposals.length === 1 ? '' : 's'}`}
+            </h2>
+            <div className="flex items-center gap-1">
+              {proposals.length > 1 && (
+                <Button onClick={handleMergeAll} size="sm" className="h-6 px-2 text-xs">
+                  Merge all
+                </Button>
+              )}
+              <Button onClick={() => setProposals(null)} size="sm" variant="ghost" className="h-6 w-6 p-0" title="Close">
+                <X className="size-3" />
+              </Button>
+            </div>
+          </div>
+          {proposals.map((proposal) => (
+            <div key={proposal.memories.map(item => item.id).join('-')} className="space-y-2 border-t pt-3">
+              <p className="text-xs text-muted-foreground">{proposal.reason}</p>
+              <ul className="space-y-0.5 text-xs text-muted-foreground">
+                {proposal.memories.map((item) => (
+                  <li key={item.id} className="line-through">
+                    <span className="font-medium">{item.key}</span>: {item.value}
+                  </li>
+                ))}
+              </ul>
+              <MemoryItemCard
+                memory={proposal.merged}
+                operation="update"
+                actions={
+                  <>
+                    <Button onClick={() => handleMerge(proposal)} size="sm" className="h-6 px-2 text-xs">
+                      Merge
+                    </Button>
+                    <Button
+                      onClick={() => setProposals(proposals.filter(p => p !== proposal))}
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 px-2 text-xs"
+                    >
+                      Keep apart
+                    </Button>
+                  </>
+                }
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form
+        className="relative"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setActiveQuery(query.trim() || null);
+        }}
+      >
+        <Search className="size-4 absolute left-2.5 top-1/2 -translate-y-1/2 text-muted-foreground" />
+        <Input value={query} onChange={(e) => setQuery(e.target.value)} className="pl-8 pr-8" placeholder="Search memories by meaning or keyword" />
+        {activeQuery && (
+          <Button
+            type="button"
+            onClick={() => {
+              setQuery('');
+              setActiveQuery(null);
+            }}
+            size="sm"
+            variant="ghost"
+            className="h-6 w-6 p-0 absolute right-1.5 top-1/2 -translate-y-1/2"
+            title="Clear search"
+          >
+            <X className="size-3" />
+          </Button>
+        )}
+      </form>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {tags.map(({ tag, count }) => (
+            <Badge
+              key={tag}
+              variant={selectedTags.includes(tag) ? 'default' : 'outline'}
+              className="cursor-pointer text-xs"
+              onClick={() => toggleTag(tag)}
+            >
+              {tag} <span className="opacity-60">{count}</span>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {conflicts.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+            <AlertTriangle className="size-3 text-amber-500" />
+            <span>Contradictions to review</span>
+            <div className="h-px bg-gradient-to-r from-border to-transparent flex-1" />
+          </div>
+          {conflicts.map((conflict) => (
+            <div key={conflict.id} className="rounded-lg border border-amber-200 dark:border-amber-800 p-3 space-y-2">
+              <p className="text-xs text-muted-foreground">{conflict.explanation}</p>
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div>
+                  <p className="text-xs font-medium">{conflict.conflictingKey} <span className="font-normal text-muted-foreground">earlier</span></p>
+                  <p>{conflict.conflictingValue}</p>
+                </div>
+                <div>
+                  <p className="text-xs font-medium">{conflict.key} <span className="font-normal text-muted-foreground">newer</span></p>
+                  <p>{conflict.value}</p>
+                </div>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button
+                  onClick={async () => handleResult(await resolveUserMemoryConflict(conflict.id, 'keepExisting'))}
+                  size="sm"
+                  variant="outline"
+                  className="h-6 px-2 text-xs"
+                >
+                  Keep earlier
+                </Button>
+                <Button
+                  onClick={async () => handleResult(await resolveUserMemoryConflict(conflict.id, 'keepNew'))}
+                  size="sm"
+                  variant="outline"
+                  className="h-6 px-2 text-xs"
+                >
+                  Keep newer
+                </Button>
+                <Button
+                  onClick={async () => handleResult(await resolveUserMemoryConflict(conflict.id, 'keepBoth'))}
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 px-2 text-xs"
+                >
+                  Both are true
+                </Button>
+                {conflict.conversationId && conflict.messageId && (
+                  <Button
+                    onClick={() => openSource(conflict.conversationId!, conflict.messageId!)}
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2 text-xs ml-auto"
+                  >
+                    Open chat
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {visibleMemories.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          <Brain className="size-8 mx-auto mb-2 opacity-50" />
+          <p className="text-sm">{activeQuery || selectedTags.length > 0 ? 'No matching memories' : 'No memories yet'}</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {visibleMemories.map((memory) => editingId === memory.id ? (
+            <div key={memory.id} className="rounded-lg border p-3 space-y-2">
+              <Input value={draft.key} onChange={(e) => setDraft({ ...draft, key: e.target.value })} className="h-8 text-sm" placeholder="Key" />
+              <Textarea value={draft.value} onChange={(e) => setDraft({ ...draft, value: e.target.value })} className="text-sm" placeholder="What Moach remembers" />
+              <Input value={draft.tags} onChange={(e) => setDraft({ ...draft, tags: e.target.value })} className="h-8 text-sm" placeholder="Tags, comma separated" />
+              <div className="flex gap-1">
+                <Button
+                  onClick={() => handleSave(Number(memory.id))}
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  disabled={isSaving || !draft.key.trim() || !draft.value.trim()}
+                >
+                  {isSaving ? 'Saving...' : 'Save'}
+                </Button>
+                <Button onClick={() => setEditingId(null)} size="sm" variant="outline" className="h-6 px-2 text-xs">
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div key={memory.id} className="space-y-2">
+              <MemoryItemCard
+                memory={toMemoryItem(memory)}
+                operation={activeQuery ? 'search' : 'memory'}
+                onOpenSource={openSource}
+                actions={
+                  <>
+                    <Button
+                      onClick={async () => handleResult(await setUserMemoryPinned(Number(memory.id), !memory.pinned))}
+                      size="sm"
+                      variant={memory.pinned ? 'secondary' : 'ghost'}
+                      className="h-6 w-6 p-0"
+                      title={memory.pinned ? 'Unpin from profile' : 'Pin to profile'}
+                    >
+                      <Pin className="size-3" />
+                    </Button>
+                    {historyButton(memory.key)}
+                    <Button
+                      onClick={() => {
+                        setEditingId(memory.id);
+                        setDraft({ key: memory.key, value: memory.value, tags: memory.tags.join(', ') });
+                      }}
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 w-6 p-0"
+                      title="Edit"
+                    >
+                      <Edit2 className="size-3" />
+                    </Button>
+                    <Button
+                      onClick={async () => handleResult(await deleteUserMemory(Number(memory.id)))}
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 w-6 p-0 text-destructive hover:text-destructive"
+                      title="Delete"
+                    >
+                      <Trash2 className="size-3" />
+                    </Button>
+                  </>
+                }
+              />
+              {timeline(memory.key)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!activeQuery && pageCount > 1 && (
+        <div className="flex items-center justify-between">
+          <Button size="sm" variant="outline" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+            <ChevronLeft className="size-4" />
+            Previous
+          </Button>
+          <span className="text-sm text-muted-foreground">Page {page} of {pageCount} · {total} memories</span>
+          <Button size="sm" variant="outline" onClick={() => setPage(page + 1)} disabled={page >= pageCount}>
+            Next
+            <ChevronRight className="size-4" />
+          </Button>
+        </div>
+      )}
+
+      {deleted.length > 0 && (
+        <div className="space-y-2 pt-4">
+          <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+            <span>Recently deleted</span>
+            <div className="h-px bg-gradient-to-r from-border to-transparent flex-1" />
+          </div>
+          {deleted.map((revision) => (
+            <div key={revision.id} className="space-y-2">
+              <div className="flex items-start justify-between gap-2 rounded-lg border border-dashed p-3 opacity-70">
+                <div className="min-w-0">
+                  <h3 className="font-medium text-sm truncate">{revision.key}</h3>
+                  <p className="text-xs text-muted-foreground line-clamp-2">{revision.oldValue}</p>
+                </div>
+                {historyButton(revision.key)}
+              </div>
+              {timeline(revision.key)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
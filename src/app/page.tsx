@@ -20,18 +20,29 @@ import {
 } from '@/components/ai-elements/prompt-input';
 import { useEffect, useState } from 'react';
 import { useConversation } from '@/lib/hooks/useConversation';
-import { BrainIcon, GlobeIcon } from 'lucide-react';
+import { BrainIcon, DatabaseIcon, GlobeIcon, LightbulbIcon, UserCogIcon } from 'lucide-react';
+import Link from 'next/link';
 import { Loader } from '@/components/ai-elements/loader';
 import { MemoryDisplay } from '@/components/conversation-elements/memory';
 import SourceDisplay from '@/components/conversation-elements/source';
-import { generateConversationId } from '@/lib/utils';
+import { cn, generateConversationId } from '@/lib/utils';
 import ConversationSidebar from '@/components/conversation-elements/conversation-sidebar';
 import MessageDisplay from '@/components/conversation-elements/messages';
+import GoalsPanel from '@/components/conversation-elements/goals-panel';
+import HabitsPanel from '@/components/conversation-elements/habits-panel';
+import { getCurrentUser } from '@/lib/auth/user';
+import { signOut } from '@/lib/auth/actions';
+import type { ChatModelInfo } from '@/lib/ai/models/registry';
+import type { MemoryBackend } from '@/lib/ai/tools/memory/stores';
+import type { Persona } from '@/lib/database/schema';
+import { getUserPersonas, setUserConversationPersona } from '@/lib/database/personaActions';
+import { getMemoryBackendOptions } from '@/lib/database/memoryActions';
+import { DEFAULT_PERSONA_ID } from '@/lib/personas/schemas';
 
-const models = [
+const memoryBackends: { name: string; value: MemoryBackend }[] = [
   {
-    name: 'OPENAI',
-    value: 'openai',
+    name: 'LIBSQL',
+    value: 'libsql',
   },
   {
     name: 'MEM0',
@@ -41,10 +52,22 @@ const models = [
 
 export default function Page() {
   const [input, setInput] = useState('');
-  const [model, setModel] = useState<string>(models[0].value);
+  const [models, setModels] = useState<ChatModelInfo[]>([]);
+  const [model, setModel] = useState<string>('');
   const [webSearch, setWebSearch] = useState(false);
   const [memory, setMemory] = useState(true);
+  // Looks up memories related to each message before the coach replies
+  const [recall, setRecall] = useState(true);
+  const [memoryBackend, setMemoryBackend] = useState<MemoryBackend>(memoryBackends[0].value);
+  // The backends this deployment lets a request pick
+  const [allowedMemoryBackends, setAllowedMemoryBackends] = useState<MemoryBackend[]>([]);
   const [conversationId, setConversationId] = useState<string | null>(null);
+  const [user, setUser] = useState<{ email: string; name: string | null } | null>(null);
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [personaId, setPersonaId] = useState<string>(DEFAULT_PERSONA_ID);
+  // Message to scroll to once its conversation is loaded, and the one briefly highlighted after
+  const [scrollToMessageId, setScrollToMessageId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   /*
   Check query params for conversationId
   if conversationId is provided, load the conversation
@@ -60,22 +83,94 @@ export default function Page() {
     conversations,
     isLoading,
     startNewConversation,
+    loadConversations,
     loadConversationById,
     deleteConversationById,
     updateTitle
   } = useConversation({ initialConversationId: conversationId || undefined });
   
   useEffect(() => {
-    const urlConversationId = new URLSearchParams(window.location.search).get('conversationId');
+    const params = new URLSearchParams(window.location.search);
+    const urlConversationId = params.get('conversationId');
     if (urlConversationId && urlConversationId !== null) {
       setConversationId(urlConversationId);
       loadConversationById(urlConversationId);
+      // Set by links to a memory's source message on the /memory page
+      setScrollToMessageId(params.get('messageId'));
     } else {
       const newConversationId = generateConversationId();
       setConversationId(newConversationId);
       window.history.pushState({}, '', `?conversationId=${newConversationId}`);
     }
   },[loadConversationById]);
+
+  useEffect(() => {
+    getCurrentUser().then(setUser);
+  }, []);
+
+  useEffect(() => {
+    getMemoryBackendOptions().then(({ backends, defaultBackend }) => {
+      setAllowedMemoryBackends(backends);
+      setMemoryBackend(defaultBackend);
+    });
+  }, []);
+
+  const selectableMemoryBackends = memoryBackends.filter((backend) => allowedMemoryBackends.includes(backend.value));
+
+  // Fill the model selector from the server side registry
+  useEffect(() => {
+    fetch('/api/models')
+      .then((res) => res.json())
+      .then((registry: ChatModelInfo[]) => {
+        setModels(registry);
+        setModel((current) => current || registry[0]?.id || '');
+      });
+  }, []);
+
+  const capabilities = models.find((m) => m.id === model)?.capabilities;
+
+  useEffect(() => {
+    getUserPersonas().then((result) => setPersonas(result.personas));
+  }, []);
+
+  // Follow the persona stored on the conversation, new conversations start with the default
+  const currentConversation = conversations.find((c) => c.id === currentConversationId);
+  const storedPersonaId = currentConversation?.personaId;
+  useEffect(() => {
+    setPersonaId(storedPersonaId ?? DEFAULT_PERSONA_ID);
+  }, [currentConversationId, storedPersonaId]);
+
+  const handlePersonaChange = async (value: string) => {
+    setPersonaId(value);
+    // Unsaved conversations pick it up from the request body when the first reply is saved
+    if (currentConversation) {
+      await setUserConversationPersona(currentConversation.id, value);
+      await loadConversations();
+    }
+  };
+
+  const handleOpenMessage = async (targetConversationId: string, messageId: string) => {
+    if (targetConversationId !== currentConversationId) {
+      await loadConversationById(targetConversationId);
+    }
+    setScrollToMessageId(messageId);
+  };
+
+  useEffect(() => {
+    if (!scrollToMessageId) return;
+    const element = document.getElementById(`message-${scrollToMessageId}`);
+    if (!element) return;
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMessageId(scrollToMessageId);
+    setScrollToMessageId(null);
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [messages, scrollToMessageId]);
+
+  const handleSignOut = async () => {
+    await signOut();
+    window.location.href = '/login';
+  };
   
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -87,6 +182,10 @@ export default function Page() {
             model: model,
             webSearch: webSearch,
             memory: memory,
+            memoryBackend: memoryBackend,
+            recall: recall ? {} : false,
+            timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+            personaId: personaId,
             conversationId: currentConversationId,
           },
         },
@@ -105,6 +204,9 @@ export default function Page() {
         onLoadConversation={loadConversationById}
         onDeleteConversation={deleteConversationById}
         onUpdateTitle={updateTitle}
+        onOpenMessage={handleOpenMessage}
+        user={user}
+        onSignOut={handleSignOut}
       />
 
       {/* Main Chat Area */}
@@ -114,10 +216,19 @@ export default function Page() {
             {messages.map((message) => {
 
               return (
-                <div key={message.id}>
+                <div
+                  key={message.id}
+                  id={`message-${message.id}`}
+                  className={cn('rounded-lg transition-colors', message.id === highlightedMessageId && 'bg-accent')}
+                >
                   <SourceDisplay message={message} />
 
-                  <MemoryDisplay message={message} />
+                  <MemoryDisplay
+                    message={message}
+                    memoryBackend={memoryBackend}
+                    onOpenMessage={handleOpenMessage}
+                    onProposalApproved={() => currentConversationId && loadConversationById(currentConversationId)}
+                  />
 
 
                   <MessageDisplay message={message} />
@@ -137,19 +248,72 @@ export default function Page() {
           <PromptInputToolbar>
             <PromptInputTools>
               <PromptInputButton
-                variant={webSearch ? 'default' : 'ghost'}
+                variant={webSearch && capabilities?.webSearch ? 'default' : 'ghost'}
                 onClick={() => setWebSearch(!webSearch)}
+                disabled={capabilities && !capabilities.webSearch}
               >
                 <GlobeIcon size={16} />
                 <span>Search</span>
               </PromptInputButton>
               <PromptInputButton
-                variant={memory ? 'default' : 'ghost'}
+                variant={memory && capabilities?.tools ? 'default' : 'ghost'}
                 onClick={() => setMemory(!memory)}
+                disabled={capabilities && !capabilities.tools}
               >
                 <BrainIcon size={16} />
                 <span>Enable Memory</span>
               </PromptInputButton>
+              {memory && (
+                <PromptInputButton
+                  variant={recall ? 'default' : 'ghost'}
+                  onClick={() => setRecall(!recall)}
+                  title="Remind the coach of related memories before it replies"
+                >
+                  <LightbulbIcon size={16} />
+                  <span>Recall</span>
+                </PromptInputButton>
+              )}
+              {memory && capabilities?.tools && selectableMemoryBackends.length > 1 && (
+                <PromptInputModelSelect
+                  onValueChange={(value) => {
+                    setMemoryBackend(value as MemoryBackend);
+                  }}
+                  value={memoryBackend}
+                >
+                  <PromptInputModelSelectTrigger>
+                    <PromptInputModelSelectValue />
+                  </PromptInputModelSelectTrigger>
+                  <PromptInputModelSelectContent>
+                    {selectableMemoryBackends.map((backend) => (
+                      <PromptInputModelSelectItem key={backend.value} value={backend.value}>
+                        {backend.name}
+                      </PromptInputModelSelectItem>
+                    ))}
+                  </PromptInputModelSelectContent>
+                </PromptInputModelSelect>
+              )}
+              <PromptInputModelSelect onValueChange={handlePersonaChange} value={personaId}>
+                <PromptInputModelSelectTrigger>
+                  <PromptInputModelSelectValue />
+                </PromptInputModelSelectTrigger>
+                <PromptInputModelSelectContent>
+                  {personas.map((persona) => (
+                    <PromptInputModelSelectItem key={persona.id} value={persona.id}>
+                      {persona.name}
+                    </PromptInputModelSelectItem>
+                  ))}
+                </PromptInputModelSelectContent>
+              </PromptInputModelSelect>
+              <PromptInputButton variant="ghost" asChild>
+                <Link href="/personas" title="Manage personas">
+                  <UserCogIcon size={16} />
+                </Link>
+              </PromptInputButton>
+              <PromptInputButton variant="ghost" asChild>
+                <Link href="/memory" title="Browse memories">
+                  <DatabaseIcon size={16} />
+                </Link>
+              </PromptInputButton>
               <PromptInputModelSelect
                 onValueChange={(value) => {
                   setModel(value);
@@ -161,7 +325,7 @@ export default function Page() {
                 </PromptInputModelSelectTrigger>
                 <PromptInputModelSelectContent>
                   {models.map((model) => (
-                    <PromptInputModelSelectItem key={model.value} value={model.value}>
+                    <PromptInputModelSelectItem key={model.id} value={model.id}>
                       {model.name}
                     </PromptInputModelSelectItem>
                   ))}
@@ -172,6 +336,12 @@ export default function Page() {
           </PromptInputToolbar>
         </PromptInput>
       </div>
+
+      {/* Goals and Habits, reloaded once a response finishes in case the coach changed them */}
+      <div className="w-80 border-l flex flex-col">
+        <GoalsPanel refreshKey={status === 'ready' && messages.length} className="w-full border-l-0 flex-1 min-h-0" />
+        <HabitsPanel refreshKey={status === 'ready' && messages.length} className="w-full border-l-0 border-t flex-1 min-h-0" />
+      </div>
     </div>
   );
 };
\ No newline at end of file
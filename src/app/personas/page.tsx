@@ -0,0 +1,201 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Copy, Edit2, Plus, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import type { Persona } from '@/lib/database/schema';
+import { createUserPersona, deleteUserPersona, getUserPersonas, updateUserPersona } from '@/lib/database/personaActions';
+import { defaultTone, TOOLSETS, toolsetLabels, type PersonaInput, type PersonaTone } from '@/lib/personas/schemas';
+
+const toneSliders: { key: keyof PersonaTone; low: string; high: string }[] = [
+  { key: 'warmth', low: 'Reserved', high: 'Warm' },
+  { key: 'directness', low: 'Gentle', high: 'Blunt' },
+  { key: 'humor', low: 'Serious', high: 'Playful' },
+];
+
+const emptyDraft: PersonaInput = { name: '', description: '', systemPrompt: '', tone: defaultTone, toolsets: [...TOOLSETS] };
+
+const toDraft = (persona: Persona): PersonaInput => ({
+  name: persona.name,
+  description: persona.description ?? '',
+  systemPrompt: persona.systemPrompt,
+  tone: persona.tone,
+  toolsets: persona.toolsets,
+});
+
+const PersonaForm = ({ draft, onChange, onSave, onCancel }: {
+  draft: PersonaInput
+  onChange: (draft: PersonaInput) => void
+  onSave: () => void
+  onCancel: () => void
+}) => (
+  <div className="space-y-3">
+    <Input value={draft.name} onChange={(e) => onChange({ ...draft, name: e.target.value })} placeholder="Name" autoFocus />
+    <Input value={draft.description ?? ''} onChange={(e) => onChange({ ...draft, description: e.target.value })} placeholder="Short description" />
+    <Textarea
+      value={draft.systemPrompt}
+      onChange={(e) => onChange({ ...draft, systemPrompt: e.target.value })}
+      className="min-h-48 font-mono text-xs"
+      placeholder="System prompt, who the coach is and how it works with the user"
+    />
+    <div className="space-y-2">
+      {toneSliders.map(({ key, low, high }) => (
+        <label key={key} className="flex items-center gap-3 text-xs text-muted-foreground">
+          <span className="w-14 text-right">{low}</span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={draft.tone[key]}
+            onChange={(e) => onChange({ ...draft, tone: { ...draft.tone, [key]: Number(e.target.value) } })}
+            className="flex-1 accent-primary"
+          />
+          <span className="w-14">{high}</span>
+        </label>
+      ))}
+    </div>
+    <div className="flex flex-wrap gap-3">
+      {TOOLSETS.map((toolset) => (
+        <label key={toolset} className="flex items-center gap-1.5 text-sm">
+          <input
+            type="checkbox"
+            checked={draft.toolsets.includes(toolset)}
+            onChange={(e) => onChange({
+              ...draft,
+              toolsets: e.target.checked ? [...draft.toolsets, toolset] : draft.toolsets.filter(t => t !== toolset),
+            })}
+          />
+          {toolsetLabels[toolset]}
+        </label>
+      ))}
+    </div>
+    <div className="flex gap-2">
+      <Button onClick={onSave} size="sm" disabled={!draft.name.trim() || !draft.systemPrompt.trim()}>
+        Save
+      </Button>
+      <Button onClick={onCancel} size="sm" variant="outline">
+        Cancel
+      </Button>
+    </div>
+  </div>
+);
+
+export default function PersonasPage() {
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // 'new' while creating, a persona id while editing
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PersonaInput>(emptyDraft);
+
+  const loadPersonas = useCallback(async () => {
+    const result = await getUserPersonas();
+    setPersonas(result.personas);
+    setError(result.success ? null : result.error ?? null);
+  }, []);
+
+  useEffect(() => {
+    loadPersonas();
+  }, [loadPersonas]);
+
+  const handleResult = async (result: { success: boolean; error?: string }) => {
+    if (!result.success) {
+      setError(result.error ?? 'Something went wrong');
+      return;
+    }
+    setEditingId(null);
+    setDraft(emptyDraft);
+    await loadPersonas();
+  };
+
+  const handleSave = async () => handleResult(editingId === 'new'
+    ? await createUserPersona(draft)
+    : await updateUserPersona(editingId!, draft));
+
+  const startEditing = (id: string, initial: PersonaInput) => {
+    setEditingId(id);
+    setDraft(initial);
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="ghost" className="h-8 w-8 p-0" asChild>
+            <Link href="/" title="Back to chat"><ArrowLeft className="size-4" /></Link>
+          </Button>
+          <h1 className="text-lg font-semibold">Personas</h1>
+        </div>
+        <Button size="sm" onClick={() => startEditing('new', emptyDraft)}>
+          <Plus className="size-4 mr-2" />
+          New Persona
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {editingId === 'new' && (
+        <div className="rounded-lg border p-4">
+          <PersonaForm draft={draft} onChange={setDraft} onSave={handleSave} onCancel={() => setEditingId(null)} />
+        </div>
+      )}
+
+      {personas.map((persona) => (
+        <div key={persona.id} className={cn("group rounded-lg border p-4", editingId === persona.id && "border-ring")}>
+          {editingId === persona.id ? (
+            <PersonaForm draft={draft} onChange={setDraft} onSave={handleSave} onCancel={() => setEditingId(null)} />
+          ) : (
+            <>
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <h2 className="font-medium flex items-center gap-2">
+                    {persona.name}
+                    {persona.userId === null && <Badge variant="secondary" className="text-xs">Built-in</Badge>}
+                  </h2>
+                  {persona.description && <p className="text-sm text-muted-foreground">{persona.description}</p>}
+                </div>
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <Button
+                    onClick={() => startEditing('new', { ...toDraft(persona), name: `${persona.name} (copy)` })}
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 w-7 p-0"
+                    title="Duplicate"
+                  >
+                    <Copy className="size-3" />
+                  </Button>
+                  {persona.userId !== null && (
+                    <>
+                      <Button onClick={() => startEditing(persona.id, toDraft(persona))} size="sm" variant="ghost" className="h-7 w-7 p-0" title="Edit">
+                        <Edit2 className="size-3" />
+                      </Button>
+                      <Button
+                        onClick={async () => handleResult(await deleteUserPersona(persona.id))}
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 w-7 p-0 text-destructive hover:text-destructive"
+                        title="Delete"
+                      >
+                        <Trash2 className="size-3" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-1 mt-2">
+                {persona.toolsets.map((toolset) => (
+                  <Badge key={toolset} variant="outline" className="text-xs px-1.5 py-0.5">{toolsetLabels[toolset]}</Badge>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
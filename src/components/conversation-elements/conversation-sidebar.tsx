@@ -1,12 +1,15 @@
 "use client"
 
 import * as React from "react"
-import { Plus, MessageSquare, Trash2, Edit2, Save, X } from "lucide-react"
+import { Plus, MessageSquare, Trash2, Edit2, Save, X, LogOut, Search } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Conversation } from "@/lib/database/schema"
+import { searchMessages } from "@/lib/database/conversations"
+import type { MessageSearchResult } from "@/lib/database/messageSearch"
 
 export interface ConversationSidebarProps {
   conversations: Conversation[]
@@ -17,6 +20,9 @@ export interface ConversationSidebarProps {
   onLoadConversation: (id: string) => void
   onDeleteConversation: (id: string) => void
   onUpdateTitle: (id: string, title: string) => void
+  onOpenMessage?: (conversationId: string, messageId: string) => void
+  user?: { email: string; name: string | null } | null
+  onSignOut?: () => void
   className?: string
 }
 
@@ -28,10 +34,31 @@ export const ConversationSidebar = ({
   onLoadConversation,
   onDeleteConversation,
   onUpdateTitle,
+  onOpenMessage,
+  user,
+  onSignOut,
   className
 }: ConversationSidebarProps) => {
   const [editingId, setEditingId] = React.useState<string | null>(null)
   const [editTitle, setEditTitle] = React.useState('')
+  const [searchQuery, setSearchQuery] = React.useState('')
+  const [searchResults, setSearchResults] = React.useState<MessageSearchResult[]>([])
+  const [searchError, setSearchError] = React.useState<string | null>(null)
+
+  // Search once typing pauses
+  React.useEffect(() => {
+    if (!searchQuery.trim()) {
+      setSearchResults([])
+      setSearchError(null)
+      return
+    }
+    const timeout = setTimeout(async () => {
+      const result = await searchMessages(searchQuery)
+      setSearchResults(result.results)
+      setSearchError(result.success ? null : result.error ?? null)
+    }, 250)
+    return () => clearTimeout(timeout)
+  }, [searchQuery])
 
 
   const handleStartEdit = (conversation: Conversation) => {
@@ -70,12 +97,59 @@ export const ConversationSidebar = ({
             <Plus className="size-4 mr-2" />
             New Conversation
           </Button>
+
+          <div className="relative mt-2">
+            <Search className="size-4 absolute left-2.5 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => e.key === 'Escape' && setSearchQuery('')}
+              className="h-8 pl-8 pr-8 text-sm"
+              placeholder="Search messages"
+            />
+            {searchQuery && (
+              <Button
+                onClick={() => setSearchQuery('')}
+                size="sm"
+                variant="ghost"
+                className="h-6 w-6 p-0 absolute right-1 top-1/2 -translate-y-1/2"
+                title="Clear search"
+              >
+                <X className="size-3" />
+              </Button>
+            )}
+          </div>
         </div>
 
         {/* Conversations List */}
         <ScrollArea className="flex-1">
           <div className="p-2">
-            {isLoading ? (
+            {searchQuery.trim() ? (
+              <div className="space-y-2">
+                {searchError && <p className="text-xs text-destructive px-1">{searchError}</p>}
+                {searchResults.length === 0 && !searchError ? (
+                  <p className="text-center py-8 text-sm text-muted-foreground">No matching messages</p>
+                ) : (
+                  searchResults.map((result) => (
+                    <div
+                      key={result.messageId}
+                      className="rounded-lg border p-3 transition-all hover:shadow-sm hover:bg-accent/50 cursor-pointer"
+                      onClick={() => onOpenMessage?.(result.conversationId, result.messageId)}
+                    >
+                      <h3 className="font-medium text-xs text-muted-foreground truncate mb-1">
+                        {result.conversationTitle} · {result.role === 'user' ? 'You' : 'Moach'}
+                      </h3>
+                      <p className="text-sm line-clamp-3">
+                        {result.snippet.map((segment, i) => segment.highlighted
+                          ? <mark key={i} className="bg-yellow-200 dark:bg-yellow-800 rounded-sm px-0.5">{segment.text}</mark>
+                          : <span key={i}>{segment.text}</span>
+                        )}
+                      </p>
+                    </div>
+                  ))
+                )}
+              </div>
+            ) : isLoading ? (
               <div className="flex items-center justify-center py-8 text-muted-foreground">
                 Loading conversations...
               </div>
@@ -139,9 +213,14 @@ export const ConversationSidebar = ({
                     ) : (
                       <>
                         <div className="flex items-start justify-between mb-2">
-                          <h3 className="font-medium text-sm line-clamp-2 pr-2">
+                          <h3 className={cn("font-medium text-sm line-clamp-2 pr-2", conversation.unreadCount > 0 && "font-semibold")}>
                             {conversation.title}
                           </h3>
+                          {conversation.unreadCount > 0 && (
+                            <Badge className="h-5 min-w-5 px-1.5 text-xs rounded-full shrink-0" title="New messages from Moach">
+                              {conversation.unreadCount}
+                            </Badge>
+                          )}
                           <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
                             <Button
                               onClick={(e) => {
@@ -176,6 +255,21 @@ export const ConversationSidebar = ({
             )}
           </div>
         </ScrollArea>
+
+        {/* Signed in user */}
+        {user && (
+          <div className="p-4 border-t flex items-center justify-between gap-2">
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">{user.name || user.email}</p>
+              {user.name && <p className="text-xs text-muted-foreground truncate">{user.email}</p>}
+            </div>
+            {onSignOut && (
+              <Button onClick={onSignOut} size="sm" variant="ghost" className="h-8 w-8 p-0" title="Sign out">
+                <LogOut className="size-4" />
+              </Button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,260 @@
+"use client"
+
+import * as React from "react"
+import { Plus, Target, Trash2, Edit2, Check, X, RotateCcw } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Goal } from "@/lib/database/schema"
+import { createUserGoal, deleteUserGoal, getUserGoals, updateUserGoal } from "@/lib/database/goalActions"
+
+export interface GoalsPanelProps {
+  // Changing this reloads the goals, e.g. after the coach ran a goal tool
+  refreshKey?: unknown
+  className?: string
+}
+
+interface GoalDraft {
+  title: string
+  why: string
+  targetDate: string
+  metric: string
+  targetValue: string
+  currentValue: string
+}
+
+const emptyDraft: GoalDraft = { title: '', why: '', targetDate: '', metric: '', targetValue: '', currentValue: '' }
+
+const toDraft = (goal: Goal): GoalDraft => ({
+  title: goal.title,
+  why: goal.why ?? '',
+  targetDate: goal.targetDate ?? '',
+  metric: goal.metric ?? '',
+  targetValue: goal.targetValue?.toString() ?? '',
+  currentValue: goal.currentValue?.toString() ?? '',
+})
+
+const fromDraft = (draft: GoalDraft) => ({
+  title: draft.title.trim(),
+  why: draft.why.trim() || null,
+  targetDate: draft.targetDate || null,
+  metric: draft.metric.trim() || null,
+  targetValue: draft.targetValue === '' ? null : Number(draft.targetValue),
+  currentValue: draft.currentValue === '' ? null : Number(draft.currentValue),
+})
+
+const GoalForm = ({ draft, onChange, onSave, onCancel }: {
+  draft: GoalDraft
+  onChange: (draft: GoalDraft) => void
+  onSave: () => void
+  onCancel: () => void
+}) => (
+  <div className="space-y-2">
+    <Input value={draft.title} onChange={(e) => onChange({ ...draft, title: e.target.value })} className="h-8 text-sm" placeholder="Goal" autoFocus />
+    <Input value={draft.why} onChange={(e) => onChange({ ...draft, why: e.target.value })} className="h-8 text-sm" placeholder="Why does it matter?" />
+    <Input type="date" value={draft.targetDate} onChange={(e) => onChange({ ...draft, targetDate: e.target.value })} className="h-8 text-sm" />
+    <Input value={draft.metric} onChange={(e) => onChange({ ...draft, metric: e.target.value })} className="h-8 text-sm" placeholder="Metric, e.g. body weight in kg" />
+    <div className="flex gap-2">
+      <Input type="number" value={draft.currentValue} onChange={(e) => onChange({ ...draft, currentValue: e.target.value })} className="h-8 text-sm" placeholder="Current" />
+      <Input type="number" value={draft.targetValue} onChange={(e) => onChange({ ...draft, targetValue: e.target.value })} className="h-8 text-sm" placeholder="Target" />
+    </div>
+    <div className="flex gap-1">
+      <Button onClick={onSave} size="sm" className="h-6 px-2 text-xs" disabled={!draft.title.trim()}>
+        Save
+      </Button>
+      <Button onClick={onCancel} size="sm" variant="outline" className="h-6 px-2 text-xs">
+        Cancel
+      </Button>
+    </div>
+  </div>
+)
+
+export const GoalsPanel = ({ refreshKey, className }: GoalsPanelProps) => {
+  const [goals, setGoals] = React.useState<Goal[]>([])
+  const [isLoading, setIsLoading] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const [editingId, setEditingId] = React.useState<string | null>(null)
+  const [isCreating, setIsCreating] = React.useState(false)
+  const [draft, setDraft] = React.useState<GoalDraft>(emptyDraft)
+
+  const loadGoals = React.useCallback(async () => {
+    setIsLoading(true)
+    const result = await getUserGoals()
+    setGoals(result.goals)
+    setError(result.success ? null : result.error ?? null)
+    setIsLoading(false)
+  }, [])
+
+  React.useEffect(() => {
+    loadGoals()
+  }, [loadGoals, refreshKey])
+
+  const handleResult = async (result: { success: boolean; error?: string }) => {
+    if (!result.success) {
+      setError(result.error ?? 'Something went wrong')
+      return
+    }
+    setEditingId(null)
+    setIsCreating(false)
+    setDraft(emptyDraft)
+    await loadGoals()
+  }
+
+  const handleCreate = async () => {
+    // New goals have nothing to clear, leave empty fields out instead of sending nulls
+    const fields = Object.entries(fromDraft(draft)).filter(([, value]) => value !== null)
+    handleResult(await createUserGoal({ title: draft.title.trim(), ...Object.fromEntries(fields) }))
+  }
+
+  const handleUpdate = async (goalId: string) => handleResult(await updateUserGoal(goalId, fromDraft(draft)))
+
+  const handleStatus = async (goalId: string, status: Goal['status']) => handleResult(await updateUserGoal(goalId, { status }))
+
+  const handleDelete = async (goalId: string) => handleResult(await deleteUserGoal(goalId))
+
+  const handleCancel = () => {
+    setEditingId(null)
+    setIsCreating(false)
+    setDraft(emptyDraft)
+  }
+
+  const activeGoals = goals.filter(goal => goal.status === 'active')
+  const closedGoals = goals.filter(goal => goal.status !== 'active')
+
+  const renderGoal = (goal: Goal) => (
+    <div
+      key={goal.id}
+      className={cn(
+        "group relative rounded-lg border p-3 transition-all hover:shadow-sm",
+        goal.status !== 'active' && "opacity-60"
+      )}
+    >
+      {editingId === goal.id ? (
+        <GoalForm draft={draft} onChange={setDraft} onSave={() => handleUpdate(goal.id)} onCancel={handleCancel} />
+      ) : (
+        <>
+          <div className="flex items-start justify-between mb-1">
+            <h3 className={cn("font-medium text-sm line-clamp-2 pr-2", goal.status === 'completed' && "line-through")}>
+              {goal.title}
+            </h3>
+            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              {goal.status === 'active' ? (
+                <>
+                  <Button onClick={() => handleStatus(goal.id, 'completed')} size="sm" variant="ghost" className="h-6 w-6 p-0" title="Complete">
+                    <Check className="size-3" />
+                  </Button>
+                  <Button onClick={() => handleStatus(goal.id, 'abandoned')} size="sm" variant="ghost" className="h-6 w-6 p-0" title="Abandon">
+                    <X className="size-3" />
+                  </Button>
+                </>
+              ) : (
+                <Button onClick={() => handleStatus(goal.id, 'active')} size="sm" variant="ghost" className="h-6 w-6 p-0" title="Reopen">
+                  <RotateCcw className="size-3" />
+                </Button>
+              )}
+              <Button
+                onClick={() => {
+                  setIsCreating(false)
+                  setEditingId(goal.id)
+                  setDraft(toDraft(goal))
+                }}
+                size="sm"
+                variant="ghost"
+                className="h-6 w-6 p-0"
+                title="Edit"
+              >
+                <Edit2 className="size-3" />
+              </Button>
+              <Button onClick={() => handleDelete(goal.id)} size="sm" variant="ghost" className="h-6 w-6 p-0 text-destructive hover:text-destructive" title="Delete">
+                <Trash2 className="size-3" />
+              </Button>
+            </div>
+          </div>
+          {goal.why && <p className="text-xs text-muted-foreground line-clamp-2">{goal.why}</p>}
+          <div className="flex items-center gap-1 mt-2 flex-wrap">
+            {goal.metric && (
+              <Badge variant="secondary" className="text-xs px-1.5 py-0.5">
+                {goal.metric}{goal.currentValue !== null || goal.targetValue !== null ? `: ${goal.currentValue ?? '?'} / ${goal.targetValue ?? '?'}` : ''}
+              </Badge>
+            )}
+            {goal.targetDate && (
+              <Badge variant="outline" className="text-xs px-1.5 py-0.5">
+                by {goal.targetDate}
+              </Badge>
+            )}
+            {goal.status !== 'active' && (
+              <Badge variant="outline" className="text-xs px-1.5 py-0.5 capitalize">
+                {goal.status}
+              </Badge>
+            )}
+          </div>
+          {goal.progressNote && <p className="text-xs text-muted-foreground mt-2 italic line-clamp-2">{goal.progressNote}</p>}
+        </>
+      )}
+    </div>
+  )
+
+  return (
+    <div className={cn("w-80 border-l bg-background", className)}>
+      <div className="flex flex-col h-full">
+        {/* Header */}
+        <div className="p-4 border-b">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-lg font-semibold">Goals</h2>
+          </div>
+
+          <Button
+            onClick={() => {
+              setEditingId(null)
+              setIsCreating(true)
+              setDraft(emptyDraft)
+            }}
+            className="w-full"
+            size="sm"
+          >
+            <Plus className="size-4 mr-2" />
+            New Goal
+          </Button>
+        </div>
+
+        {/* Goals List */}
+        <ScrollArea className="flex-1">
+          <div className="p-2 space-y-2">
+            {error && <p className="text-xs text-destructive px-1">{error}</p>}
+            {isCreating && (
+              <div className="rounded-lg border p-3">
+                <GoalForm draft={draft} onChange={setDraft} onSave={handleCreate} onCancel={handleCancel} />
+              </div>
+            )}
+            {isLoading && goals.length === 0 ? (
+              <div className="flex items-center justify-center py-8 text-muted-foreground">
+                Loading goals...
+              </div>
+            ) : goals.length === 0 && !isCreating ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <Target className="size-8 mx-auto mb-2 opacity-50" />
+                <p className="text-sm">No goals yet</p>
+                <p className="text-xs">Tell Moach what you want to achieve</p>
+              </div>
+            ) : (
+              <>
+                {activeGoals.map(renderGoal)}
+                {closedGoals.length > 0 && (
+                  <div className="flex items-center gap-2 pt-2 text-xs font-medium text-muted-foreground">
+                    <span>Closed</span>
+                    <div className="h-px bg-gradient-to-r from-border to-transparent flex-1" />
+                  </div>
+                )}
+                {closedGoals.map(renderGoal)}
+              </>
+            )}
+          </div>
+        </ScrollArea>
+      </div>
+    </div>
+  )
+}
+
+export default GoalsPanel
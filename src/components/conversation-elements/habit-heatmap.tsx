@@ -0,0 +1,73 @@
+"use client"
+
+import * as React from "react"
+import { cn } from "@/lib/utils"
+import { addDays, dateRange, isDueOn, weekStartOf, type HabitSchedule } from "@/lib/habits/stats"
+
+export interface HabitHeatmapProps {
+  schedule: HabitSchedule
+  checkInDates: string[]
+  today: string
+  // Days before this are shown as not tracked
+  startDate?: string
+  weeks?: number
+  onToggle?: (date: string, done: boolean) => void
+  className?: string
+}
+
+const weekdayLabels = ['Mon', '', 'Wed', '', 'Fri', '', 'Sun']
+
+// GitHub style calendar, one column per week starting on Monday
+export const HabitHeatmap = ({ schedule, checkInDates, today, startDate, weeks = 20, onToggle, className }: HabitHeatmapProps) => {
+  const done = React.useMemo(() => new Set(checkInDates), [checkInDates])
+  const firstDay = weekStartOf(addDays(today, -(weeks - 1) * 7))
+  const days = dateRange(firstDay, addDays(weekStartOf(today), 6))
+  const columns = Array.from({ length: days.length / 7 }, (_, week) => days.slice(week * 7, week * 7 + 7))
+
+  const getCellState = (date: string) => {
+    if (date > today) return 'future'
+    if (done.has(date)) return 'done'
+    if (startDate && date < startDate) return 'untracked'
+    // Today is still open, it only turns into a miss tomorrow
+    if (date !== today && isDueOn(schedule, date)) return 'missed'
+    return 'idle'
+  }
+
+  return (
+    <div className={cn("flex gap-[2px]", className)}>
+      <div className="flex flex-col gap-[2px] pr-1">
+        {weekdayLabels.map((label, index) => (
+          <div key={index} className="h-[11px] text-[9px] leading-[11px] text-muted-foreground">{label}</div>
+        ))}
+      </div>
+      {columns.map((column) => (
+        <div key={column[0]} className="flex flex-col gap-[2px]">
+          {column.map((date) => {
+            const state = getCellState(date)
+            return (
+              <button
+                key={date}
+                type="button"
+                title={`${date}${state === 'done' ? ' - done' : state === 'missed' ? ' - missed' : ''}`}
+                disabled={!onToggle || state === 'future'}
+                onClick={() => onToggle?.(date, state !== 'done')}
+                className={cn(
+                  "size-[11px] rounded-[2px] transition-colors",
+                  state === 'done' && "bg-green-500 dark:bg-green-600",
+                  state === 'missed' && "bg-red-200 dark:bg-red-900/60",
+                  state === 'idle' && "bg-muted",
+                  state === 'untracked' && "bg-muted/40",
+                  state === 'future' && "bg-transparent",
+                  date === today && "ring-1 ring-foreground/40",
+                  onToggle && state !== 'future' && "hover:ring-1 hover:ring-foreground/60 cursor-pointer"
+                )}
+              />
+            )
+          })}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default HabitHeatmap
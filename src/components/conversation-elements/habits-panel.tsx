@@ -0,0 +1,235 @@
+"use client"
+
+import * as React from "react"
+import { Plus, Repeat, Archive, Check, Flame } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { archiveUserHabit, createUserHabit, getUserHabits, setHabitCheckIn } from "@/lib/database/habitActions"
+import type { HabitOverview } from "@/lib/database/habits"
+import type { HabitCreate } from "@/lib/ai/tools/habits/schemas"
+import type { HabitSchedule } from "@/lib/habits/stats"
+import HabitHeatmap from "./habit-heatmap"
+
+export interface HabitsPanelProps {
+  // Changing this reloads the habits, e.g. after the coach logged a check-in
+  refreshKey?: unknown
+  className?: string
+}
+
+const weekdayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const emptyDraft: HabitCreate = { name: '', scheduleType: 'daily', timesPerWeek: 3, weekdays: [1, 3, 5] }
+
+const describeSchedule = (schedule: HabitSchedule) => {
+  switch (schedule.type) {
+    case 'daily':
+      return 'Every day'
+    case 'weekly':
+      return `${schedule.timesPerWeek}x per week`
+    case 'weekdays':
+      return [...schedule.weekdays].sort().map(day => weekdayNames[day]).join(', ')
+  }
+}
+
+const getTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone
+
+export const HabitsPanel = ({ refreshKey, className }: HabitsPanelProps) => {
+  const [habits, setHabits] = React.useState<HabitOverview[]>([])
+  const [today, setToday] = React.useState('')
+  const [error, setError] = React.useState<string | null>(null)
+  const [isCreating, setIsCreating] = React.useState(false)
+  const [draft, setDraft] = React.useState<HabitCreate>(emptyDraft)
+
+  const loadHabits = React.useCallback(async () => {
+    const result = await getUserHabits(getTimeZone())
+    setHabits(result.habits)
+    setToday(result.today)
+    setError(result.success ? null : result.error ?? null)
+  }, [])
+
+  React.useEffect(() => {
+    loadHabits()
+  }, [loadHabits, refreshKey])
+
+  const handleResult = async (result: { success: boolean; error?: string }) => {
+    if (!result.success) {
+      setError(result.error ?? 'Something went wrong')
+      return
+    }
+    setError(null)
+    await loadHabits()
+  }
+
+  const handleCreate = async () => {
+    const result = await createUserHabit({
+      name: draft.name.trim(),
+      scheduleType: draft.scheduleType,
+      ...(draft.scheduleType === 'weekly' ? { timesPerWeek: draft.timesPerWeek } : {}),
+      ...(draft.scheduleType === 'weekdays' ? { weekdays: draft.weekdays } : {}),
+    })
+    if (result.success) {
+      setIsCreating(false)
+      setDraft(emptyDraft)
+    }
+    await handleResult(result)
+  }
+
+  const handleToggle = async (habitId: string, date: string, done: boolean) =>
+    handleResult(await setHabitCheckIn(habitId, date, done, getTimeZone()))
+
+  const handleArchive = async (habitId: string) => handleResult(await archiveUserHabit(habitId))
+
+  return (
+    <div className={cn("w-80 border-l bg-background", className)}>
+      <div className="flex flex-col h-full">
+        {/* Header */}
+        <div className="p-4 border-b">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-lg font-semibold">Habits</h2>
+          </div>
+
+          <Button onClick={() => setIsCreating(!isCreating)} className="w-full" size="sm">
+            <Plus className="size-4 mr-2" />
+            New Habit
+          </Button>
+        </div>
+
+        {/* Habits List */}
+        <ScrollArea className="flex-1">
+          <div className="p-2 space-y-2">
+            {error && <p className="text-xs text-destructive px-1">{error}</p>}
+            {isCreating && (
+              <div className="rounded-lg border p-3 space-y-2">
+                <Input
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  className="h-8 text-sm"
+                  placeholder="Habit, e.g. Morning workout"
+                  autoFocus
+                />
+                <select
+                  value={draft.scheduleType}
+                  onChange={(e) => setDraft({ ...draft, scheduleType: e.target.value as HabitCreate['scheduleType'] })}
+                  className="h-8 w-full rounded-md border border-input bg-transparent px-2 text-sm"
+                >
+                  <option value="daily">Every day</option>
+                  <option value="weekly">Times per week</option>
+                  <option value="weekdays">Specific weekdays</option>
+                </select>
+                {draft.scheduleType === 'weekly' && (
+                  <Input
+                    type="number"
+                    min={1}
+                    max={7}
+                    value={draft.timesPerWeek}
+                    onChange={(e) => setDraft({ ...draft, timesPerWeek: Number(e.target.value) })}
+                    className="h-8 text-sm"
+                  />
+                )}
+                {draft.scheduleType === 'weekdays' && (
+                  <div className="flex gap-1">
+                    {weekdayNames.map((name, day) => {
+                      const selected = draft.weekdays?.includes(day)
+                      return (
+                        <Button
+                          key={day}
+                          size="sm"
+                          variant={selected ? 'default' : 'outline'}
+                          className="h-6 px-1.5 text-xs"
+                          onClick={() => setDraft({
+                            ...draft,
+                            weekdays: selected ? draft.weekdays?.filter(d => d !== day) : [...(draft.weekdays ?? []), day],
+                          })}
+                        >
+                          {name[0]}
+                        </Button>
+                      )
+                    })}
+                  </div>
+                )}
+                <div className="flex gap-1">
+                  <Button onClick={handleCreate} size="sm" className="h-6 px-2 text-xs" disabled={!draft.name.trim()}>
+                    Save
+                  </Button>
+                  <Button onClick={() => setIsCreating(false)} size="sm" variant="outline" className="h-6 px-2 text-xs">
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            )}
+            {habits.length === 0 && !isCreating ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <Repeat className="size-8 mx-auto mb-2 opacity-50" />
+                <p className="text-sm">No habits yet</p>
+                <p className="text-xs">Build one with Moach or add it here</p>
+              </div>
+            ) : (
+              habits.map(({ habit, schedule, stats, checkInDates }) => {
+                const doneToday = checkInDates.includes(today)
+                return (
+                  <div key={habit.id} className="group rounded-lg border p-3 transition-all hover:shadow-sm space-y-2">
+                    <div className="flex items-start justify-between">
+                      <div className="min-w-0">
+                        <h3 className="font-medium text-sm truncate">{habit.name}</h3>
+                        <p className="text-xs text-muted-foreground">{describeSchedule(schedule)}</p>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Button
+                          onClick={() => handleToggle(habit.id, today, !doneToday)}
+                          size="sm"
+                          variant={doneToday ? 'default' : 'outline'}
+                          className="h-6 px-2 text-xs"
+                        >
+                          <Check className="size-3" />
+                          {doneToday ? 'Done' : 'Today'}
+                        </Button>
+                        <Button
+                          onClick={() => handleArchive(habit.id)}
+                          size="sm"
+                          variant="ghost"
+                          className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                          title="Archive"
+                        >
+                          <Archive className="size-3" />
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1 flex-wrap">
+                      <Badge variant="secondary" className="text-xs px-1.5 py-0.5">
+                        <Flame className="size-3" />
+                        {stats.currentStreak} {stats.streakUnit}{stats.currentStreak === 1 ? '' : 's'}
+                      </Badge>
+                      <Badge variant="outline" className="text-xs px-1.5 py-0.5">
+                        best {stats.longestStreak}
+                      </Badge>
+                      {stats.adherence !== null && (
+                        <Badge variant="outline" className="text-xs px-1.5 py-0.5">
+                          {Math.round(stats.adherence * 100)}% / {stats.windowDays}d
+                        </Badge>
+                      )}
+                    </div>
+                    {today && (
+                      <HabitHeatmap
+                        schedule={schedule}
+                        checkInDates={checkInDates}
+                        today={today}
+                        startDate={habit.createdAt?.slice(0, 10)}
+                        weeks={16}
+                        onToggle={(date, done) => handleToggle(habit.id, date, done)}
+                      />
+                    )}
+                  </div>
+                )
+              })
+            )}
+          </div>
+        </ScrollArea>
+      </div>
+    </div>
+  )
+}
+
+export default HabitsPanel
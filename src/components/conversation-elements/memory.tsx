@@ -1,16 +1,20 @@
 "use client"
 
 import * as React from "react"
-import { Brain, Plus, Search, Tag, Clock, ArrowUpRight } from "lucide-react"
+import { Brain, Plus, Search, Tag, Clock, ArrowUpRight, Trash2, MessageSquareQuote, Lightbulb, Hourglass, Edit2, Lock } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
 import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
 import { UIMessage, UIDataTypes, UIMessagePart, UITools, ToolUIPart } from "ai"
 import z from "zod"
-import { memoryStoreMultipleSchema, memoryStoreSchema, memoryUpdateSchema } from "@/lib/ai/tools/memory/schemas"
-import { Memory } from "@/lib/database/schema"
+import { memoryStoreSchema, memoryUpdateSchema } from "@/lib/ai/tools/memory/schemas"
+import type { MemoryRecord, MemoryScoreBreakdown, MemorySensitivity, MemoryWriteResult } from "@/lib/ai/tools/memory/stores"
+import type { MemoryProposal } from "@/lib/database/schema"
+import { approveUserMemoryProposal, forgetUserMemory, getUserMemoriesByKey, getUserMemoryProposals, rejectUserMemoryProposal } from "@/lib/database/memoryActions"
 
 export interface MemoryItem {
   id?: string | number
@@ -18,17 +22,48 @@ export interface MemoryItem {
   value: string
   tags: string[]
   created_at?: string
+  // The conversation and message the memory came from
+  conversation_id?: string | null
+  message_id?: string | null
+  // Anything but general is encrypted at rest and left out of exports
+  sensitivity?: MemorySensitivity
   similarity?: number
-  operation?: 'store' | 'retrieve' | 'update' | 'search'
+  // Time-aware ranking of semantic and hybrid search results, shown in the hover card
+  score?: number
+  score_breakdown?: MemoryScoreBreakdown
+  access_count?: number
+  valid_until?: string | null
+  // Set on writes the coach proposed while the user has memory approval on
+  proposal_id?: string
+  operation?: 'store' | 'retrieve' | 'update' | 'search' | 'delete' | 'recalled' | 'proposed'
 }
 
 export interface MemoryDisplayProps {
   message: UIMessage
+  // Backend the Forget action deletes from, the one selected for the conversation
+  memoryBackend?: string
+  // Jumps to the message a memory came from
+  onOpenMessage?: (conversationId: string, messageId: string) => void
+  // Approvals are reported back into the conversation, reload it to show the note
+  onProposalApproved?: () => void
   className?: string
 }
 
+interface ProposalDraft {
+  id: string
+  key: string
+  value: string
+  tags: string
+}
+
 
 type AnyUIMessagePart = UIMessagePart<UIDataTypes, UITools>;
+
+// Saved messages leave out the values of sensitive memories, MemoryDisplay looks them up by key
+const savedStoreSchema = memoryStoreSchema.partial({ value: true })
+const savedStoreMultipleSchema = z.object({ memoryList: z.array(savedStoreSchema) })
+const savedUpdateSchema = memoryUpdateSchema.partial({ value: true })
+type SavedMemoryRecord = Omit<MemoryRecord, 'value'> & { value?: string }
 // Helper function to extract memory operations from message parts
 export function extractMemoryFromMessage(message: UIMessage): MemoryItem[] {
   if (!message.parts) return [];
@@ -36,6 +71,29 @@ export function extractMemoryFromMessage(message: UIMessage): MemoryItem[] {
   const memoryItems: MemoryItem[] = [];
 
   message.parts.forEach((part: AnyUIMessagePart) => {
+    // Memories the chat route looked up for this reply before the model ran
+    if (part.type === 'data-recalled') {
+      const { memories } = part.data as { memories: SavedMemoryRecord[] }
+      memories.forEach((result) => {
+        memoryItems.push({
+          id: result.id,
+          key: result.key,
+          value: result.value ?? '',
+          tags: result.tags || [],
+          created_at: result.created_at ?? undefined,
+          conversation_id: result.conversation_id,
+          message_id: result.message_id,
+          sensitivity: result.sensitivity,
+          similarity: result.similarity_score,
+          score: result.score,
+          score_breakdown: result.score_breakdown,
+          access_count: result.access_count,
+          valid_until: result.valid_until,
+          operation: 'recalled'
+        });
+      });
+      return;
+    }
     // Check for memory tool calls
     if (part.type?.startsWith('tool-memory_')) {
       const toolPart = part as ToolUIPart;
@@ -45,14 +103,29 @@ export function extractMemoryFromMessage(message: UIMessage): MemoryItem[] {
       // Extract input and output data
       if (toolPart.state === 'output-available' && toolPart.input && toolPart.output) {
         try {
-          if (operation === 'store_multiple') {
-            const toolInput = z.safeParse(memoryStoreMultipleSchema, toolPart.input);
+          const output = toolPart.output as { pendingApproval?: boolean, proposals?: (Omit<MemoryProposal, 'value'> & { value?: string })[] }
+          if (output.pendingApproval) {
+            // Nothing was written yet, the user decides on each proposal
+            output.proposals?.forEach((proposal) => {
+              memoryItems.push({
+                key: proposal.key,
+                value: proposal.value ?? '',
+                tags: proposal.tags,
+                created_at: proposal.createdAt ?? undefined,
+                proposal_id: proposal.id,
+                operation: 'proposed'
+              });
+            });
+          }
+          else if (operation === 'store_multiple') {
+            const toolInput = z.safeParse(savedStoreMultipleSchema, toolPart.input);
+            const { results } = toolPart.output as { results?: MemoryWriteResult[] }
             if (toolInput.success) {
-              // Multiple store operation
-              toolInput.data.memoryList.forEach((item) => {
+              // Multiple store operation, without the memories that failed to store
+              toolInput.data.memoryList.filter((item) => !results?.some((result) => result.key === item.key && !result.success)).forEach((item) => {
                 memoryItems.push({
                   key: item.key,
-                  value: item.value,
+                  value: item.value ?? '',
                   tags: item.tags || [],
                   operation: 'store'
                 });
@@ -60,39 +133,60 @@ export function extractMemoryFromMessage(message: UIMessage): MemoryItem[] {
             }
           }
           else if (operation === 'store') {
-            const toolInput = z.safeParse(memoryStoreSchema, toolPart.input);
+            const toolInput = z.safeParse(savedStoreSchema, toolPart.input);
             if (toolInput.success) {
               // Single store operation
               memoryItems.push({
                 key: toolInput.data.key,
-                value: toolInput.data.value,
+                value: toolInput.data.value ?? '',
                 tags: toolInput.data.tags || [],
                 operation: 'store'
               });
             }
           } else if (operation === 'retrieve' || operation === 'search') {
-            // Handle retrieve/search operations
-            const results = toolPart.output as { results: [] };
+            // Handle retrieve/search operations, memory_retrieve returns the list itself, the searches wrap it in results
+            const output = toolPart.output as (Omit<SavedMemoryRecord, 'tags'> & { tags: string | string[], similarity?: number })[] | { results?: [] };
+            const results = Array.isArray(output) ? output : output.results;
             if (Array.isArray(results)) {
-              results.forEach((result: Memory & { similarity: number, created_at: string }) => {
+              results.forEach((result: Omit<SavedMemoryRecord, 'tags'> & { tags: string | string[], similarity?: number }) => {
                 memoryItems.push({
                   id: result.id,
                   key: result.key,
-                  value: result.value,
+                  value: result.value ?? '',
                   tags: typeof result.tags === 'string' ? JSON.parse(result.tags) : result.tags || [],
-                  created_at: result.created_at,
-                  similarity: result.similarity,
+                  created_at: result.created_at ?? undefined,
+                  conversation_id: result.conversation_id,
+                  message_id: result.message_id,
+                  similarity: result.similarity ?? result.similarity_score,
+                  score: result.score,
+                  score_breakdown: result.score_breakdown,
+                  access_count: result.access_count,
+                  valid_until: result.valid_until,
                   operation: 'retrieve'
                 });
               });
             }
+          } else if (operation === 'forget' || operation === 'forget_matching') {
+            // Only what was actually deleted, a forget_matching call without confirmation just lists candidates
+            const output = toolPart.output as { forgotten?: SavedMemoryRecord[] }
+            output.forgotten?.forEach((result) => {
+              memoryItems.push({
+                id: result.id,
+                key: result.key,
+                value: result.value ?? '',
+                tags: result.tags || [],
+                conversation_id: result.conversation_id,
+                message_id: result.message_id,
+                operation: 'delete'
+              });
+            });
           } else if (operation === 'update') {
             // Handle update operations
-            const toolInput = z.safeParse(memoryUpdateSchema, toolPart.input);
+            const toolInput = z.safeParse(savedUpdateSchema, toolPart.input);
             if (toolInput.success) {
               memoryItems.push({
                 key: toolInput.data.key,
-                value: toolInput.data.value,
+                value: toolInput.data.value ?? '',
                 tags: toolInput.data.tags || [],
                 operation: 'update'
               });
@@ -109,57 +203,353 @@ export function extractMemoryFromMessage(message: UIMessage): MemoryItem[] {
 };
 
 
-export const MemoryDisplay = ({ message, className }: MemoryDisplayProps) => {
+const getOperationIcon = (operation: string) => {
+  switch (operation) {
+    case 'store':
+      return <Plus className="size-3" />
+    case 'retrieve':
+    case 'search':
+      return <Search className="size-3" />
+    case 'update':
+      return <ArrowUpRight className="size-3" />
+    case 'delete':
+      return <Trash2 className="size-3" />
+    case 'recalled':
+      return <Lightbulb className="size-3" />
+    case 'proposed':
+      return <Hourglass className="size-3" />
+    default:
+      return <Brain className="size-3" />
+  }
+}
+
+const getOperationColor = (operation: string) => {
+  switch (operation) {
+    case 'store':
+      return 'bg-green-500/10 text-green-700 border-green-200 dark:text-green-400 dark:border-green-800'
+    case 'retrieve':
+    case 'search':
+      return 'bg-blue-500/10 text-blue-700 border-blue-200 dark:text-blue-400 dark:border-blue-800'
+    case 'update':
+      return 'bg-amber-500/10 text-amber-700 border-amber-200 dark:text-amber-400 dark:border-amber-800'
+    case 'delete':
+      return 'bg-red-500/10 text-red-700 border-red-200 dark:text-red-400 dark:border-red-800'
+    case 'recalled':
+      return 'bg-cyan-500/10 text-cyan-700 border-cyan-200 dark:text-cyan-400 dark:border-cyan-800'
+    case 'proposed':
+      return 'bg-orange-500/10 text-orange-700 border-orange-200 dark:text-orange-400 dark:border-orange-800'
+    default:
+      return 'bg-purple-500/10 text-purple-700 border-purple-200 dark:text-purple-400 dark:border-purple-800'
+  }
+}
+
+export const formatTimestamp = (timestamp?: string | null) => {
+  if (!timestamp) return null
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+export interface MemoryItemCardProps {
+  memory: MemoryItem
+  operation: string
+  // Extra controls shown in the card's top right corner, e.g. edit and delete on the memory page
+  actions?: React.ReactNode
+  // Shows a jump to source message button when the memory knows where it came from
+  onOpenSource?: (conversationId: string, messageId: string) => void
+  style?: React.CSSProperties
+}
+
+// One memory with its details in a hover card, shared by MemoryDisplay and the /memory page
+export const MemoryItemCard = ({ memory, operation, actions, onOpenSource, style }: MemoryItemCardProps) => {
+  const { conversation_id: conversationId, message_id: messageId } = memory
+  const sourceButton = onOpenSource && conversationId && messageId && (
+    <Button
+      onClick={() => onOpenSource(conversationId, messageId)}
+      size="sm"
+      variant="ghost"
+      className="h-6 w-6 p-0"
+      title="Jump to source message"
+    >
+      <MessageSquareQuote className="size-3" />
+    </Button>
+  )
+
+  return (
+
+    <HoverCard>
+      <HoverCardTrigger asChild>
+        <div
+          className={cn(
+            "group/memory p-3 rounded-lg border bg-card/50 hover:bg-card transition-all duration-200 cursor-pointer hover:shadow-md hover:scale-[1.02] hover:border-border",
+            getOperationColor(operation).replace(/text-\w+-\d+/, '').replace(/border-\w+-\d+/, '')
+          )}
+          style={style}
+        >
+          <div className="flex items-start justify-between gap-2">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 mb-1">
+                <span className="text-sm font-medium text-foreground truncate group-hover/memory:text-foreground transition-colors">
+                  {memory.key}
+                </span>
+                {memory.sensitivity && memory.sensitivity !== 'general' && (
+                  <Badge variant="outline" className="text-xs gap-1 shrink-0" title="Encrypted, left out of exports">
+                    <Lock className="size-3" />
+                    {memory.sensitivity}
+                  </Badge>
+                )}
+                {memory.similarity && (
+                  <Badge variant="outline" className="text-xs animate-in fade-in-0 slide-in-from-right-1">
+                    {Math.round((1 - memory.similarity) * 100)}% match
+                  </Badge>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground line-clamp-2 group-hover/memory:text-muted-foreground/80 transition-colors">
+                {memory.value}
+              </p>
+            </div>
+
+            {memory.created_at && (
+              <div className="flex items-center gap-1 text-xs text-muted-foreground shrink-0 opacity-70 group-hover/memory:opacity-100 transition-opacity">
+                <Clock className="size-3" />
+                {formatTimestamp(memory.created_at)}
+              </div>
+            )}
+            {(sourceButton || actions) && (
+              <div className="flex items-center gap-1 shrink-0" onClick={(e) => e.stopPropagation()}>
+                {sourceButton}
+                {actions}
+              </div>
+            )}
+          </div>
+
+          {memory.tags && memory.tags.length > 0 && (
+            <div className="flex items-center gap-1 mt-2 flex-wrap">
+              <Tag className="size-3 text-muted-foreground opacity-70 group-hover/memory:opacity-100 transition-opacity" />
+              {memory.tags.slice(0, 3).map((tag, tagIndex) => (
+                <Badge
+                  key={tagIndex}
+                  variant="secondary"
+                  className="text-xs px-1.5 py-0.5 hover:bg-secondary/80 transition-colors"
+                >
+                  {tag}
+                </Badge>
+              ))}
+              {memory.tags.length > 3 && (
+                <Badge
+                  variant="secondary"
+                  className="text-xs px-1.5 py-0.5 hover:bg-secondary/80 transition-colors"
+                >
+                  +{memory.tags.length - 3}
+                </Badge>
+              )}
+            </div>
+          )}
+        </div>
+      </HoverCardTrigger>
+
+      <HoverCardContent side="left" className="w-80 bg-gradient-to-br from-card via-card to-card/80 shadow-xl border-2">
+        <div className="space-y-3">
+          <div className="border-b border-border/30 pb-2">
+            <h4 className="font-semibold text-sm mb-1 text-foreground">{memory.key}</h4>
+            <p className="text-sm text-muted-foreground leading-relaxed">
+              {memory.value}
+            </p>
+          </div>
+
+          {memory.tags && memory.tags.length > 0 && (
+            <div>
+              <div className="flex items-center gap-1 mb-2">
+                <Tag className="size-3 text-purple-500" />
+                <p className="text-xs font-medium text-muted-foreground">Tags</p>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {memory.tags.map((tag, tagIndex) => (
+                  <Badge
+                    key={tagIndex}
+                    variant="secondary"
+                    className="text-xs hover:bg-secondary/80 transition-colors"
+                  >
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between text-xs text-muted-foreground pt-2 border-t border-border/30">
+            <div className={cn(
+              "flex items-center gap-1 px-2 py-1 rounded-md",
+              getOperationColor(operation)
+            )}>
+              {getOperationIcon(operation)}
+              <span className="capitalize font-medium">{operation}</span>
+            </div>
+            {memory.created_at && (
+              <div className="flex items-center gap-1 text-muted-foreground/70">
+                <Clock className="size-3" />
+                {formatTimestamp(memory.created_at)}
+              </div>
+            )}
+          </div>
+
+          {memory.similarity && (
+            <div className="bg-accent/30 p-2 rounded-md border border-border/20">
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-muted-foreground">Similarity Score</span>
+                <span className="font-medium text-foreground">
+                  {Math.round((1 - memory.similarity) * 100)}%
+                </span>
+              </div>
+              <div className="mt-1 h-1.5 bg-muted rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-gradient-to-r from-blue-500 to-purple-500 rounded-full transition-all duration-500"
+                  style={{ width: `${Math.round((1 - memory.similarity) * 100)}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {memory.score !== undefined && memory.score_breakdown && (
+            <div className="bg-accent/30 p-2 rounded-md border border-border/20 space-y-1 text-xs">
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Ranking score</span>
+                <span className="font-medium text-foreground">{memory.score.toFixed(2)}</span>
+              </div>
+              <div className="flex items-center justify-between text-muted-foreground">
+                <span>Relevance</span>
+                <span>{Math.round(memory.score_breakdown.relevance * 100)}%</span>
+              </div>
+              <div className="flex items-center justify-between text-muted-foreground">
+                <span>Recency, changed {memory.score_breakdown.age_days === 0 ? 'today' : `${memory.score_breakdown.age_days}d ago`}</span>
+                <span>×{memory.score_breakdown.recency.toFixed(2)}</span>
+              </div>
+              <div className="flex items-center justify-between text-muted-foreground">
+                <span>Frequency, retrieved {memory.access_count ?? 0}×</span>
+                <span>×{memory.score_breakdown.frequency.toFixed(2)}</span>
+              </div>
+              {memory.valid_until && (
+                <div className="flex items-center justify-between text-muted-foreground">
+                  <span>Valid until</span>
+                  <span>{formatTimestamp(memory.valid_until)}</span>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </HoverCardContent>
+    </HoverCard>
+  )
+}
+
+export const MemoryDisplay = ({ message, memoryBackend, onOpenMessage, onProposalApproved, className }: MemoryDisplayProps) => {
   const [isOpen, setIsOpen] = React.useState(false)
-  const memories = extractMemoryFromMessage(message)
+  const [forgottenKeys, setForgottenKeys] = React.useState<string[]>([])
+  const [actionError, setActionError] = React.useState<string | null>(null)
+  const [proposalStatus, setProposalStatus] = React.useState<Record<string, MemoryProposal['status']>>({})
+  const [proposalValues, setProposalValues] = React.useState<Record<string, string>>({})
+  const [proposalDraft, setProposalDraft] = React.useState<ProposalDraft | null>(null)
+  const [storedValues, setStoredValues] = React.useState<Record<string, string>>({})
+  const extractedMemories = extractMemoryFromMessage(message)
 
-  if (!memories || memories.length === 0) return null
+  // Memories that are encrypted at rest were saved without their value, look it up. Proposals get theirs below
+  const hiddenKeys = extractedMemories.flatMap((memory) => !memory.proposal_id && !memory.value ? [memory.key] : []).join('\n')
+  React.useEffect(() => {
+    if (!hiddenKeys) return
+    getUserMemoriesByKey(hiddenKeys.split('\n'), memoryBackend).then((result) => {
+      setStoredValues(Object.fromEntries(result.memories.map((memory) => [memory.key, memory.value])))
+    })
+  }, [hiddenKeys, memoryBackend])
+  const memories = extractedMemories.map((memory) => {
+    if (memory.value) return memory
+    const value = memory.proposal_id ? proposalValues[memory.proposal_id] : storedValues[memory.key]
+    return value === undefined ? memory : { ...memory, value }
+  })
 
-  const groupedMemories = memories.reduce((acc, memory) => {
-    const operation = memory.operation || 'retrieve'
-    if (!acc[operation]) acc[operation] = []
-    acc[operation].push(memory)
-    return acc
-  }, {} as Record<string, MemoryItem[]>)
+  // Proposals may have been decided since the message was written, ask for their current status
+  const proposalIds = memories.flatMap((memory) => memory.proposal_id ? [memory.proposal_id] : []).join(',')
+  React.useEffect(() => {
+    if (!proposalIds) return
+    getUserMemoryProposals(proposalIds.split(',')).then((result) => {
+      setProposalStatus(Object.fromEntries(result.proposals.map((proposal) => [proposal.id, proposal.status])))
+      setProposalValues(Object.fromEntries(result.proposals.map((proposal) => [proposal.id, proposal.value])))
+      // Pending proposals need the user, don't hide them
+      if (result.proposals.some((proposal) => proposal.status === 'pending')) setIsOpen(true)
+    })
+  }, [proposalIds])
 
-  const getOperationIcon = (operation: string) => {
-    switch (operation) {
-      case 'store':
-        return <Plus className="size-3" />
-      case 'retrieve':
-      case 'search':
-        return <Search className="size-3" />
-      case 'update':
-        return <ArrowUpRight className="size-3" />
-      default:
-        return <Brain className="size-3" />
+  const handleForget = async (key: string) => {
+    const result = await forgetUserMemory(key, memoryBackend)
+    if (result.success) {
+      setForgottenKeys([...forgottenKeys, key])
+      setActionError(null)
+    } else {
+      setActionError(result.error ?? 'Could not forget this memory')
     }
   }
 
-  const getOperationColor = (operation: string) => {
-    switch (operation) {
-      case 'store':
-        return 'bg-green-500/10 text-green-700 border-green-200 dark:text-green-400 dark:border-green-800'
-      case 'retrieve':
-      case 'search':
-        return 'bg-blue-500/10 text-blue-700 border-blue-200 dark:text-blue-400 dark:border-blue-800'
-      case 'update':
-        return 'bg-amber-500/10 text-amber-700 border-amber-200 dark:text-amber-400 dark:border-amber-800'
-      default:
-        return 'bg-purple-500/10 text-purple-700 border-purple-200 dark:text-purple-400 dark:border-purple-800'
+  const handleDecision = async (proposalId: string, result: { proposal?: MemoryProposal, success: boolean, error?: string }) => {
+    if (!result.success || !result.proposal) {
+      setActionError(result.error ?? 'Could not decide on this memory')
+      return
     }
+    setProposalStatus({ ...proposalStatus, [proposalId]: result.proposal.status })
+    setProposalDraft(null)
+    setActionError(null)
+    if (result.proposal.status === 'approved') onProposalApproved?.()
   }
 
-  const formatTimestamp = (timestamp?: string) => {
-    if (!timestamp) return null
-    return new Date(timestamp).toLocaleString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    })
+  const handleApprove = async (proposalId: string, draft?: ProposalDraft) => {
+    await handleDecision(proposalId, await approveUserMemoryProposal(proposalId, draft && {
+      key: draft.key.trim(),
+      value: draft.value.trim(),
+      tags: draft.tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+    }))
+  }
+
+  const handleReject = async (proposalId: string) => {
+    await handleDecision(proposalId, await rejectUserMemoryProposal(proposalId))
+  }
+
+  const proposalActions = (memory: MemoryItem) => {
+    const proposalId = memory.proposal_id!
+    const status = proposalStatus[proposalId]
+    if (status && status !== 'pending') {
+      return <Badge variant="outline" className="text-xs capitalize">{status}</Badge>
+    }
+    return (
+      <>
+        <Button onClick={() => handleApprove(proposalId)} size="sm" className="h-6 px-2 text-xs">
+          Approve
+        </Button>
+        <Button
+          onClick={() => setProposalDraft({ id: proposalId, key: memory.key, value: memory.value, tags: memory.tags.join(', ') })}
+          size="sm"
+          variant="ghost"
+          className="h-6 w-6 p-0"
+          title="Edit before saving"
+        >
+          <Edit2 className="size-3" />
+        </Button>
+        <Button onClick={() => handleReject(proposalId)} size="sm" variant="ghost" className="h-6 px-2 text-xs text-destructive hover:text-destructive">
+          Reject
+        </Button>
+      </>
+    )
   }
 
+  if (!memories || memories.length === 0) return null
+
+  const groupedMemories = memories.reduce((acc, memory) => {
+    const operation = memory.operation || 'retrieve'
+    if (!acc[operation]) acc[operation] = []
+    acc[operation].push(memory)
+    return acc
+  }, {} as Record<string, MemoryItem[]>)
+
   return (
     <div className="mb-3 p-2 rounded-lg bg-gradient-to-r from-purple-50/50 via-transparent to-blue-50/50 dark:from-purple-950/20 dark:via-transparent dark:to-blue-950/20 border border-purple-100/50 dark:border-purple-900/30">
     <div className={cn("w-full", className)}>
@@ -207,6 +597,7 @@ export const MemoryDisplay = ({ message, className }: MemoryDisplayProps) => {
 
         <CollapsibleContent className="overflow-hidden data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0 data-[state=closed]:slide-out-to-top-1 data-[state=open]:slide-in-from-top-1">
           <div className="space-y-3 p-3 pt-0">
+            {actionError && <p className="text-xs text-destructive">{actionError}</p>}
             {Object.entries(groupedMemories).map(([operation, operationMemories], operationIndex) => (
               <div
                 key={operation}
@@ -222,132 +613,50 @@ export const MemoryDisplay = ({ message, className }: MemoryDisplayProps) => {
                 </div>
 
                 <div className="space-y-2">
-                  {operationMemories.map((memory, index) => (
-                    <HoverCard key={`${operation}-${index}`}>
-                      <HoverCardTrigger asChild>
-                        <div
-                          className={cn(
-                            "group/memory p-3 rounded-lg border bg-card/50 hover:bg-card transition-all duration-200 cursor-pointer hover:shadow-md hover:scale-[1.02] hover:border-border",
-                            getOperationColor(operation).replace(/text-\w+-\d+/, '').replace(/border-\w+-\d+/, '')
-                          )}
-                          style={{
-                            animationDelay: `${(operationIndex * operationMemories.length + index) * 25}ms`
-                          }}
+                  {operationMemories.map((memory, index) => proposalDraft && proposalDraft.id === memory.proposal_id ? (
+                    <div key={`${operation}-${index}`} className="rounded-lg border p-3 space-y-2">
+                      <Input value={proposalDraft.key} onChange={(e) => setProposalDraft({ ...proposalDraft, key: e.target.value })} className="h-8 text-sm" placeholder="Key" />
+                      <Textarea value={proposalDraft.value} onChange={(e) => setProposalDraft({ ...proposalDraft, value: e.target.value })} className="text-sm" placeholder="What Moach remembers" />
+                      <Input value={proposalDraft.tags} onChange={(e) => setProposalDraft({ ...proposalDraft, tags: e.target.value })} className="h-8 text-sm" placeholder="Tags, comma separated" />
+                      <div className="flex gap-1">
+                        <Button
+                          onClick={() => handleApprove(proposalDraft.id, proposalDraft)}
+                          size="sm"
+                          className="h-6 px-2 text-xs"
+                          disabled={!proposalDraft.key.trim() || !proposalDraft.value.trim()}
+                        >
+                          Approve
+                        </Button>
+                        <Button onClick={() => setProposalDraft(null)} size="sm" variant="outline" className="h-6 px-2 text-xs">
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <MemoryItemCard
+                      key={`${operation}-${index}`}
+                      memory={memory}
+                      operation={operation}
+                      // Memories this message wrote point back at it, no point jumping to where we already are
+                      onOpenSource={memory.message_id === message.id ? undefined : onOpenMessage}
+                      actions={operation === 'delete' ? undefined : operation === 'proposed' ? proposalActions(memory) : forgottenKeys.includes(memory.key) ? (
+                        <Badge variant="outline" className="text-xs">Forgotten</Badge>
+                      ) : (
+                        <Button
+                          onClick={() => handleForget(memory.key)}
+                          size="sm"
+                          variant="ghost"
+                          className="h-6 px-1.5 text-xs opacity-0 group-hover/memory:opacity-100 transition-opacity text-destructive hover:text-destructive"
+                          title="Forget this memory"
                         >
-                          <div className="flex items-start justify-between gap-2">
-                            <div className="flex-1 min-w-0">
-                              <div className="flex items-center gap-2 mb-1">
-                                <span className="text-sm font-medium text-foreground truncate group-hover/memory:text-foreground transition-colors">
-                                  {memory.key}
-                                </span>
-                                {memory.similarity && (
-                                  <Badge variant="outline" className="text-xs animate-in fade-in-0 slide-in-from-right-1">
-                                    {Math.round((1 - memory.similarity) * 100)}% match
-                                  </Badge>
-                                )}
-                              </div>
-                              <p className="text-xs text-muted-foreground line-clamp-2 group-hover/memory:text-muted-foreground/80 transition-colors">
-                                {memory.value}
-                              </p>
-                            </div>
-
-                            {memory.created_at && (
-                              <div className="flex items-center gap-1 text-xs text-muted-foreground shrink-0 opacity-70 group-hover/memory:opacity-100 transition-opacity">
-                                <Clock className="size-3" />
-                                {formatTimestamp(memory.created_at)}
-                              </div>
-                            )}
-                          </div>
-
-                          {memory.tags && memory.tags.length > 0 && (
-                            <div className="flex items-center gap-1 mt-2 flex-wrap">
-                              <Tag className="size-3 text-muted-foreground opacity-70 group-hover/memory:opacity-100 transition-opacity" />
-                              {memory.tags.slice(0, 3).map((tag, tagIndex) => (
-                                <Badge
-                                  key={tagIndex}
-                                  variant="secondary"
-                                  className="text-xs px-1.5 py-0.5 hover:bg-secondary/80 transition-colors"
-                                >
-                                  {tag}
-                                </Badge>
-                              ))}
-                              {memory.tags.length > 3 && (
-                                <Badge
-                                  variant="secondary"
-                                  className="text-xs px-1.5 py-0.5 hover:bg-secondary/80 transition-colors"
-                                >
-                                  +{memory.tags.length - 3}
-                                </Badge>
-                              )}
-                            </div>
-                          )}
-                        </div>
-                      </HoverCardTrigger>
-
-                      <HoverCardContent side="left" className="w-80 bg-gradient-to-br from-card via-card to-card/80 shadow-xl border-2">
-                        <div className="space-y-3">
-                          <div className="border-b border-border/30 pb-2">
-                            <h4 className="font-semibold text-sm mb-1 text-foreground">{memory.key}</h4>
-                            <p className="text-sm text-muted-foreground leading-relaxed">
-                              {memory.value}
-                            </p>
-                          </div>
-
-                          {memory.tags && memory.tags.length > 0 && (
-                            <div>
-                              <div className="flex items-center gap-1 mb-2">
-                                <Tag className="size-3 text-purple-500" />
-                                <p className="text-xs font-medium text-muted-foreground">Tags</p>
-                              </div>
-                              <div className="flex flex-wrap gap-1">
-                                {memory.tags.map((tag, tagIndex) => (
-                                  <Badge
-                                    key={tagIndex}
-                                    variant="secondary"
-                                    className="text-xs hover:bg-secondary/80 transition-colors"
-                                  >
-                                    {tag}
-                                  </Badge>
-                                ))}
-                              </div>
-                            </div>
-                          )}
-
-                          <div className="flex items-center justify-between text-xs text-muted-foreground pt-2 border-t border-border/30">
-                            <div className={cn(
-                              "flex items-center gap-1 px-2 py-1 rounded-md",
-                              getOperationColor(operation)
-                            )}>
-                              {getOperationIcon(operation)}
-                              <span className="capitalize font-medium">{operation}</span>
-                            </div>
-                            {memory.created_at && (
-                              <div className="flex items-center gap-1 text-muted-foreground/70">
-                                <Clock className="size-3" />
-                                {formatTimestamp(memory.created_at)}
-                              </div>
-                            )}
-                          </div>
-
-                          {memory.similarity && (
-                            <div className="bg-accent/30 p-2 rounded-md border border-border/20">
-                              <div className="flex items-center justify-between text-xs">
-                                <span className="text-muted-foreground">Similarity Score</span>
-                                <span className="font-medium text-foreground">
-                                  {Math.round((1 - memory.similarity) * 100)}%
-                                </span>
-                              </div>
-                              <div className="mt-1 h-1.5 bg-muted rounded-full overflow-hidden">
-                                <div
-                                  className="h-full bg-gradient-to-r from-blue-500 to-purple-500 rounded-full transition-all duration-500"
-                                  style={{ width: `${Math.round((1 - memory.similarity) * 100)}%` }}
-                                />
-                              </div>
-                            </div>
-                          )}
-                        </div>
-                      </HoverCardContent>
-                    </HoverCard>
+                          <Trash2 className="size-3" />
+                          Forget
+                        </Button>
+                      )}
+                      style={{
+                        animationDelay: `${(operationIndex * operationMemories.length + index) * 25}ms`
+                      }}
+                    />
                   ))}
                 </div>
               </div>
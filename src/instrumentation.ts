@@ -0,0 +1,10 @@
+// Runs once when the server starts, see https://nextjs.org/docs/app/guides/instrumentation
+export async function register() {
+    const { assertAuthConfig } = await import('./lib/auth/providers');
+    assertAuthConfig();
+    // The worker needs the database driver, which doesn't load in the edge runtime
+    if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.SCHEDULER_ENABLED !== 'false') {
+        const { startScheduler } = await import('./lib/scheduler/worker');
+        await startScheduler();
+    }
+}
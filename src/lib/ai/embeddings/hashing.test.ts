@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { createEmbeddingProvider, EMBEDDING_DIMENSIONS } from ".";
+import { createHashingEmbeddingProvider } from "./hashing";
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, component, index) => sum + component * b[index], 0);
+
+describe('hashing embedder', () => {
+    it('returns the same vector for the same text every time', async () => {
+        const text = 'The user runs three times a week';
+        const first = await createHashingEmbeddingProvider(256).embed(text);
+        expect(await createHashingEmbeddingProvider(256).embed(text)).toEqual(first);
+        expect(await createHashingEmbeddingProvider(256).embedMany([text, text])).toEqual([first, first]);
+    });
+
+    it('returns vectors of the configured dimensions', async () => {
+        for (const dimensions of [8, 256, 1536]) {
+            const provider = createHashingEmbeddingProvider(dimensions);
+            expect(provider.dimensions).toBe(dimensions);
+            expect(await provider.embed('The user runs three times a week')).toHaveLength(dimensions);
+            expect(await provider.embed('')).toHaveLength(dimensions);
+        }
+        const configured = createEmbeddingProvider('hashing');
+        expect(configured.dimensions).toBe(EMBEDDING_DIMENSIONS);
+        expect(await configured.embed('The user runs')).toHaveLength(EMBEDDING_DIMENSIONS);
+    });
+
+    it('puts texts sharing words closer than unrelated ones', async () => {
+        const provider = createHashingEmbeddingProvider(256);
+        const [running, jogging, cooking] = await provider.embedMany([
+            'The user runs three times a week',
+            'The user runs on weekends',
+            'Favourite dish is lasagne',
+        ]);
+        expect(cosine(running, running)).toBeCloseTo(1);
+        expect(cosine(running, jogging)).toBeGreaterThan(cosine(running, cooking));
+    });
+});
@@ -0,0 +1,43 @@
+import type { EmbeddingProvider } from './provider';
+
+// Deterministic embedder for tests and offline development, no model and no network. Words and word pairs are
+// hashed into the vector (feature hashing), so texts sharing words end up close. Not meant to understand meaning
+
+const tokenize = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+// 32 bit FNV-1a
+const hash = (token: string) => {
+    let value = 0x811c9dc5;
+    for (let index = 0; index < token.length; index++) {
+        value ^= token.charCodeAt(index);
+        value = Math.imul(value, 0x01000193);
+    }
+    return value >>> 0;
+};
+
+export function createHashingEmbeddingProvider(dimensions: number): EmbeddingProvider {
+    const embed = (text: string) => {
+        const words = tokenize(text);
+        const features = [...words, ...words.slice(1).map((word, index) => `${words[index]} ${word}`)];
+        const vector = new Array<number>(dimensions).fill(0);
+        for (const feature of features) {
+            const value = hash(feature);
+            // The top bit picks the sign so unrelated features cancel out instead of piling up
+            vector[value % dimensions] += value & 0x80000000 ? -1 : 1;
+        }
+        const norm = Math.hypot(...vector);
+        // Cosine distance is undefined for the zero vector, empty text gets a fixed direction instead
+        return norm === 0 ? vector.map((_, index) => (index === 0 ? 1 : 0)) : vector.map(component => component / norm);
+    };
+
+    return {
+        id: 'hashing/v1',
+        dimensions,
+        async embed(text) {
+            return embed(text);
+        },
+        async embedMany(texts) {
+            return texts.map(embed);
+        },
+    };
+}
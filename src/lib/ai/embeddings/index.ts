@@ -0,0 +1,78 @@
+import { createHashingEmbeddingProvider } from './hashing';
+import { createOpenAIEmbeddingProvider } from './openai';
+import { EMBEDDING_DIMENSIONS, type EmbeddingProvider } from './provider';
+
+export { EMBEDDING_DIMENSIONS, type EmbeddingProvider } from './provider';
+
+const DEFAULT_OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+// Texts per embedMany request, well below OpenAI's limit of 2048 inputs
+const EMBEDDING_BATCH_SIZE = 100;
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+
+// A vector, or why the text couldn't be embedded
+export type EmbeddingResult = { embedding: number[] } | { error: string };
+
+// EMBEDDING_PROVIDER picks the provider, hashing runs the memory tools without an API key.
+// OPENAI_EMBEDDING_MODEL and EMBEDDING_DIMENSIONS tune it
+export function createEmbeddingProvider(name: string | undefined = process.env.EMBEDDING_PROVIDER): EmbeddingProvider {
+    switch (name) {
+        case 'hashing':
+            return createHashingEmbeddingProvider(EMBEDDING_DIMENSIONS);
+        case 'openai':
+        default:
+            return createOpenAIEmbeddingProvider(process.env.OPENAI_EMBEDDING_MODEL || DEFAULT_OPENAI_EMBEDDING_MODEL, EMBEDDING_DIMENSIONS);
+    }
+}
+
+let provider: EmbeddingProvider | undefined;
+
+// The provider the memory table is written and searched with
+export function getEmbeddingProvider(): EmbeddingProvider {
+    provider ??= createEmbeddingProvider();
+    return provider;
+}
+
+const checkDimensions = (embedding: number[]) => {
+    if (embedding.length !== EMBEDDING_DIMENSIONS) {
+        throw new Error(`Embedding provider ${getEmbeddingProvider().id} returned ${embedding.length} dimensions, the memory table expects ${EMBEDDING_DIMENSIONS}`);
+    }
+    return embedding;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Exponential backoff with jitter so parallel callers don't retry in lockstep
+const withRetry = async <T>(run: () => Promise<T>): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await run();
+        } catch (error) {
+            if (attempt >= MAX_ATTEMPTS) throw error;
+            await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) * (1 + Math.random()));
+        }
+    }
+};
+
+// Embeds with the configured provider and refuses vectors that don't fit the memory.embedding column
+export async function generateEmbedding(text: string): Promise<number[]> {
+    return checkDimensions(await getEmbeddingProvider().embed(text));
+}
+
+// Embeds the texts in chunks, one request per chunk, each retried on its own. A chunk that keeps failing only fails
+// its own texts, the results line up with the texts
+export async function generateEmbeddings(texts: string[]): Promise<EmbeddingResult[]> {
+    const results: EmbeddingResult[] = [];
+    for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+        const chunk = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+        try {
+            const embeddings = await withRetry(() => getEmbeddingProvider().embedMany(chunk));
+            results.push(...embeddings.map(embedding => ({ embedding: checkDimensions(embedding) })));
+        } catch (error) {
+            console.error('Error embedding memories:', error);
+            const message = error instanceof Error ? error.message : String(error);
+            results.push(...chunk.map(() => ({ error: message })));
+        }
+    }
+    return results;
+}
@@ -0,0 +1,33 @@
+import { embed, embedMany } from 'ai';
+import { openai } from '@ai-sdk/openai';
+import type { EmbeddingProvider } from './provider';
+
+export function createOpenAIEmbeddingProvider(modelId: string, dimensions: number): EmbeddingProvider {
+    const providerOptions = {
+        openai: {
+            dimensions,
+        },
+    };
+    return {
+        id: `openai/${modelId}`,
+        dimensions,
+        async embed(text) {
+            const { embedding } = await embed({
+                model: openai.embedding(modelId),
+                value: text,
+                providerOptions,
+            });
+            return embedding;
+        },
+        async embedMany(texts) {
+            const { embeddings } = await embedMany({
+                model: openai.embedding(modelId),
+                values: texts,
+                // generateEmbeddings retries with backoff itself
+                maxRetries: 0,
+                providerOptions,
+            });
+            return embeddings;
+        },
+    };
+}
@@ -0,0 +1,14 @@
+// Turns memory text into vectors for the libSQL store. Vectors from different providers, or different models
+// of one provider, mean nothing to each other, so every memory row records the id of the provider that made it
+
+export interface EmbeddingProvider {
+    // Stored with each vector, searches only compare vectors with the same id
+    readonly id: string;
+    readonly dimensions: number;
+    embed(text: string): Promise<number[]>;
+    // One vector per text, in order. Callers keep batches within what the provider takes in one request
+    embedMany(texts: string[]): Promise<number[][]>;
+}
+
+// Width of the memory.embedding column. Changing it takes a migration and re-embedding every memory
+export const EMBEDDING_DIMENSIONS = Number(process.env.EMBEDDING_DIMENSIONS) || 1536;
@@ -0,0 +1,77 @@
+import { simulateReadableStream, type LanguageModel } from 'ai';
+import { MockLanguageModelV2 } from 'ai/test';
+
+type FakePrompt = Parameters<MockLanguageModelV2['doGenerate']>[0]['prompt'];
+type FakeContent = Awaited<ReturnType<MockLanguageModelV2['doGenerate']>>['content'];
+type FakeStreamPart = Awaited<ReturnType<MockLanguageModelV2['doStream']>>['stream'] extends ReadableStream<infer Part> ? Part : never;
+
+// Scripted tool calls, one per line of the user's message: /tool <tool name> <JSON input>
+const TOOL_CALL_LINE = /^\/tool\s+(\S+)\s*(.*)$/;
+
+const latestUserText = (prompt: FakePrompt) => {
+    const lastUserMessage = [...prompt].reverse().find(message => message.role === 'user');
+    return lastUserMessage?.content
+        .map(part => part.type === 'text' ? part.text : '')
+        .join('\n')
+        .trim() ?? '';
+};
+
+// Echo the latest user text so the whole chat pipeline can be exercised without an API key. A message with /tool
+// lines calls those tools first, then the reply reports what they returned
+const respondTo = (prompt: FakePrompt): { content: FakeContent; finishReason: 'stop' | 'tool-calls' } => {
+    const lastMessage = prompt[prompt.length - 1];
+    if (lastMessage?.role === 'tool') {
+        const results = lastMessage.content.map(part => `${part.toolName}: ${JSON.stringify(part.output.value)}`);
+        return { content: [{ type: 'text', text: `Fake coach used ${results.join('; ')}` }], finishReason: 'stop' };
+    }
+
+    const text = latestUserText(prompt);
+    const toolCalls = text.split('\n').map(line => TOOL_CALL_LINE.exec(line.trim())).filter(match => match !== null);
+    if (toolCalls.length > 0) {
+        return {
+            content: toolCalls.map(([, toolName, input], index) => ({
+                type: 'tool-call' as const,
+                toolCallId: `fake-call-${prompt.length}-${index}`,
+                toolName,
+                input: input || '{}',
+            })),
+            finishReason: 'tool-calls',
+        };
+    }
+    return { content: [{ type: 'text', text: text ? `Fake coach reply to: ${text}` : 'Fake coach reply.' }], finishReason: 'stop' };
+};
+
+const usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+export function createFakeChatModel(): LanguageModel {
+    return new MockLanguageModelV2({
+        provider: 'fake',
+        modelId: 'fake-coach',
+        doGenerate: async ({ prompt }) => ({
+            ...respondTo(prompt),
+            usage,
+            warnings: [],
+        }),
+        doStream: async ({ prompt }) => {
+            const { content, finishReason } = respondTo(prompt);
+            return {
+                stream: simulateReadableStream<FakeStreamPart>({
+                    chunkDelayInMs: 20,
+                    chunks: [
+                        { type: 'stream-start', warnings: [] },
+                        ...content.flatMap((part): FakeStreamPart[] => {
+                            if (part.type === 'tool-call') return [part];
+                            if (part.type !== 'text') return [];
+                            return [
+                                { type: 'text-start', id: 'text-0' },
+                                ...part.text.split(/(?<= )/).map(delta => ({ type: 'text-delta' as const, id: 'text-0', delta })),
+                                { type: 'text-end', id: 'text-0' },
+                            ];
+                        }),
+                        { type: 'finish', finishReason, usage },
+                    ],
+                }),
+            };
+        },
+    });
+}
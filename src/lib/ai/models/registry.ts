@@ -0,0 +1,83 @@
+import type { LanguageModel, ToolSet, streamText } from 'ai';
+import { openai } from '@ai-sdk/openai';
+
+export interface ModelCapabilities {
+    tools: boolean;
+    reasoning: boolean;
+    webSearch: boolean;
+    vision: boolean;
+}
+
+export interface ChatModelDefinition {
+    id: string;
+    name: string;
+    provider: string;
+    capabilities: ModelCapabilities;
+    // May load the model on demand
+    languageModel: () => LanguageModel | Promise<LanguageModel>;
+    // Provider specific web search tools, only used when capabilities.webSearch is set
+    webSearchTools?: () => ToolSet;
+    providerOptions?: Parameters<typeof streamText>[0]['providerOptions'];
+}
+
+// What the client gets to see, the factories stay on the server
+export type ChatModelInfo = Pick<ChatModelDefinition, 'id' | 'name' | 'provider' | 'capabilities'>;
+
+const openaiWebSearchTools = (): ToolSet => ({
+    web_search_preview: openai.tools.webSearchPreview({
+        searchContextSize: 'high',
+        userLocation: {
+            type: 'approximate',
+            country: 'US',
+        },
+    }),
+});
+
+const chatModels: ChatModelDefinition[] = [
+    {
+        id: 'openai',
+        name: 'GPT-5',
+        provider: 'openai',
+        capabilities: { tools: true, reasoning: true, webSearch: true, vision: true },
+        languageModel: () => openai('gpt-5'),
+        webSearchTools: openaiWebSearchTools,
+        providerOptions: { openai: { reasoningSummary: 'auto' } },
+    },
+    {
+        id: 'openai-gpt-4o',
+        name: 'GPT-4o',
+        provider: 'openai',
+        capabilities: { tools: true, reasoning: false, webSearch: true, vision: true },
+        languageModel: () => openai('gpt-4o'),
+        webSearchTools: openaiWebSearchTools,
+    },
+    {
+        id: 'fake',
+        name: 'Fake (local)',
+        provider: 'fake',
+        capabilities: { tools: true, reasoning: false, webSearch: false, vision: false },
+        // Imported only once the model is picked, which isEnabled allows only with ENABLE_FAKE_MODEL. Keeps ai/test out
+        // of the production bundle
+        languageModel: async () => (await import('./fake')).createFakeChatModel(),
+    },
+];
+
+export const DEFAULT_CHAT_MODEL_ID = 'openai';
+
+// The fake model is only offered when explicitly enabled, for tests and local development
+const isEnabled = (model: ChatModelDefinition) =>
+    model.provider !== 'fake' || process.env.ENABLE_FAKE_MODEL === 'true';
+
+export function listChatModels(): ChatModelDefinition[] {
+    return chatModels.filter(isEnabled);
+}
+
+export function getChatModel(id?: string): ChatModelDefinition {
+    const available = listChatModels();
+    return available.find(model => model.id === id)
+        ?? available.find(model => model.id === DEFAULT_CHAT_MODEL_ID)!;
+}
+
+export function toChatModelInfo({ id, name, provider, capabilities }: ChatModelDefinition): ChatModelInfo {
+    return { id, name, provider, capabilities };
+}
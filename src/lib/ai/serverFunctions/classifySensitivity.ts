@@ -0,0 +1,28 @@
+import { generateObject } from "ai";
+import { openai } from "@ai-sdk/openai";
+import { z } from "zod";
+import type { MemoryInput, MemorySensitivity } from "../tools/memory/stores";
+
+const systemPrompt = `
+You classify what a coaching app remembers about its user by how sensitive it is.
+- health: physical health, illnesses, injuries, medication, diet for medical reasons.
+- mental-health: mood, anxiety, depression, therapy, trauma, self-harm.
+- relationships: partners, family conflicts, sex life, friendships going wrong.
+- financial: income, debt, spending, money trouble.
+- general: everything else, e.g. preferences, habits, work, hobbies.
+When it fits more than one sensitive category, pick the most sensitive.
+`;
+
+const sensitivitySchema = z.object({
+    sensitivity: z.enum(['general', 'health', 'mental-health', 'relationships', 'financial']),
+});
+
+export async function classifySensitivity(memory: MemoryInput): Promise<MemorySensitivity> {
+    const result = await generateObject({
+        model: openai("gpt-4o"),
+        system: systemPrompt,
+        schema: sensitivitySchema,
+        prompt: JSON.stringify({ key: memory.key, value: memory.value, tags: memory.tags }),
+    });
+    return result.object.sensitivity;
+}
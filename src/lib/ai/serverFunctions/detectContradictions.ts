@@ -0,0 +1,34 @@
+import { generateObject } from "ai";
+import { openai } from "@ai-sdk/openai";
+import { z } from "zod";
+import type { MemoryInput, MemoryRecord } from "../tools/memory/stores";
+
+const systemPrompt = `
+You check a coaching app's memories about its user for contradictions.
+You get a new memory and existing memories that are about similar things.
+List the existing memories that cannot both be true together with the new one, e.g. "is vegetarian" and "eats chicken daily".
+Memories that add detail, narrow something down or describe a different time frame on purpose are not contradictions.
+Return an empty list when nothing contradicts.
+`;
+
+const contradictionsSchema = z.object({
+    contradictions: z.array(z.object({
+        key: z.string().describe('Key of the existing memory that contradicts the new one'),
+        explanation: z.string().describe('One sentence on why both cannot be true'),
+    })),
+});
+export type Contradiction = z.infer<typeof contradictionsSchema>['contradictions'][number];
+
+export async function detectContradictions(memory: MemoryInput, existing: MemoryRecord[]): Promise<Contradiction[]> {
+    const result = await generateObject({
+        model: openai("gpt-4o"),
+        system: systemPrompt,
+        schema: contradictionsSchema,
+        prompt: JSON.stringify({
+            newMemory: { key: memory.key, value: memory.value },
+            existingMemories: existing.map(({ key, value, created_at }) => ({ key, value, created_at })),
+        }),
+    });
+    // Only keys that were actually offered, the model occasionally invents one
+    return result.object.contradictions.filter(contradiction => existing.some(item => item.key === contradiction.key));
+}
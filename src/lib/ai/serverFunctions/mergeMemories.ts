@@ -0,0 +1,34 @@
+import { generateObject } from "ai";
+import { openai } from "@ai-sdk/openai";
+import { z } from "zod";
+import type { MemoryRecord } from "../tools/memory/stores";
+
+const systemPrompt = `
+You consolidate what a coaching app remembers about its user.
+You get a few memories that look alike. Decide whether they describe the same thing.
+If they do, merge them into one canonical memory:
+- Pick a clear snake_case key, prefer one of the existing keys.
+- Keep every distinct detail, drop only repetition.
+- When they disagree, the most recent memory wins.
+- Use the union of the relevant tags.
+If they are about different things, set duplicate to false and leave them alone.
+`;
+
+export const mergedMemorySchema = z.object({
+    duplicate: z.boolean().describe('True when the memories describe the same thing and should become one'),
+    key: z.string().describe('Key of the canonical memory'),
+    value: z.string().describe('Value of the canonical memory'),
+    tags: z.array(z.string()).describe('Tags of the canonical memory'),
+    reason: z.string().describe('One sentence on why the memories were merged or kept apart'),
+});
+export type MergedMemory = z.infer<typeof mergedMemorySchema>;
+
+export async function mergeMemories(memories: MemoryRecord[]): Promise<MergedMemory> {
+    const result = await generateObject({
+        model: openai("gpt-4o"),
+        system: systemPrompt,
+        schema: mergedMemorySchema,
+        prompt: JSON.stringify(memories.map(({ key, value, tags, created_at }) => ({ key, value, tags, created_at }))),
+    });
+    return result.object;
+}
@@ -0,0 +1,77 @@
+import { goalAbandonSchema, goalCompleteSchema, goalCreateSchema, goalListSchema, goalUpdateProgressSchema, type GoalCreate } from './schemas';
+import { createGoal, listGoals, updateGoal } from '@/lib/database/goals';
+import type { OwnerScope } from '@/lib/database/scoped';
+import type { GoalStatus } from '@/lib/database/schema';
+
+export const goalCreateFunction = async (scope: OwnerScope, input: GoalCreate) => {
+    const { success, data, error } = goalCreateSchema.safeParse(input);
+    if (!success) {
+        return { success: false, error: error.message };
+    }
+    try {
+        const goal = await createGoal(scope, data);
+        return { success: true, goal, message: `Goal created: ${goal.title}` };
+    } catch (error) {
+        console.error('Error creating goal:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+export const goalUpdateProgressFunction = async (scope: OwnerScope, goalId: string, currentValue?: number, note?: string) => {
+    const { success, error } = goalUpdateProgressSchema.safeParse({ goalId, currentValue, note });
+    if (!success) {
+        return { success: false, error: error.message };
+    }
+    try {
+        const goal = await updateGoal(scope, goalId, {
+            ...(currentValue !== undefined ? { currentValue } : {}),
+            ...(note !== undefined ? { progressNote: note } : {}),
+        });
+        return { success: true, goal, message: `Progress updated for goal: ${goal.title}` };
+    } catch (error) {
+        console.error('Error updating goal progress:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+export const goalListFunction = async (scope: OwnerScope, status: GoalStatus | 'all' = 'active') => {
+    const { success, error } = goalListSchema.safeParse({ status });
+    if (!success) {
+        return { success: false, error: error.message };
+    }
+    try {
+        const goals = await listGoals(scope, status === 'all' ? undefined : status);
+        return { success: true, goals, count: goals.length, message: `Found ${goals.length} ${status === 'all' ? '' : `${status} `}goals` };
+    } catch (error) {
+        console.error('Error listing goals:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+export const goalCompleteFunction = async (scope: OwnerScope, goalId: string, note?: string) => {
+    const { success, error } = goalCompleteSchema.safeParse({ goalId, note });
+    if (!success) {
+        return { success: false, error: error.message };
+    }
+    try {
+        const goal = await updateGoal(scope, goalId, { status: 'completed', ...(note !== undefined ? { progressNote: note } : {}) });
+        return { success: true, goal, message: `Goal completed: ${goal.title}` };
+    } catch (error) {
+        console.error('Error completing goal:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+export const goalAbandonFunction = async (scope: OwnerScope, goalId: string, reason?: string) => {
+    const { success, error } = goalAbandonSchema.safeParse({ goalId, reason });
+    if (!success) {
+        return { success: false, error: error.message };
+    }
+    try {
+        const goal = await updateGoal(scope, goalId, { status: 'abandoned', ...(reason !== undefined ? { progressNote: reason } : {}) });
+        return { success: true, goal, message: `Goal abandoned: ${goal.title}` };
+    } catch (error) {
+        console.error('Error abandoning goal:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+}
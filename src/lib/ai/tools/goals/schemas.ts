@@ -0,0 +1,52 @@
+import { z } from 'zod';
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+export const goalCreateSchema = z.object({
+    title: z.string().min(1).describe('Short title of the goal, e.g. "Deadlift 200kg"'),
+    why: z.string().optional().describe('Why the user wants this, in their own words. Use it to hold them to the goal later'),
+    targetDate: dateSchema.optional().describe('Date the user wants to reach the goal by, YYYY-MM-DD'),
+    metric: z.string().optional().describe('How progress is measured, e.g. "body weight in kg" or "workouts per week"'),
+    targetValue: z.number().optional().describe('Value of the metric that means the goal is reached'),
+    currentValue: z.number().optional().describe('Current value of the metric'),
+    parentGoalId: z.string().optional().describe('Id of the goal this is a sub-goal of'),
+});
+export type GoalCreate = z.infer<typeof goalCreateSchema>;
+
+// Fields the user can edit from the goals panel, null clears a field
+export const goalChangesSchema = z.object({
+    title: z.string().min(1).optional(),
+    why: z.string().nullable().optional(),
+    targetDate: dateSchema.nullable().optional(),
+    metric: z.string().nullable().optional(),
+    targetValue: z.number().nullable().optional(),
+    currentValue: z.number().nullable().optional(),
+    progressNote: z.string().nullable().optional(),
+    parentGoalId: z.string().nullable().optional(),
+    status: z.enum(['active', 'completed', 'abandoned']).optional(),
+});
+export type GoalChanges = z.infer<typeof goalChangesSchema>;
+
+export const goalUpdateProgressSchema = z.object({
+    goalId: z.string().describe('Id of the goal to update'),
+    currentValue: z.number().optional().describe('New value of the goal metric'),
+    note: z.string().optional().describe('What the user did or reported, e.g. "Hit 180kg for a single today"'),
+});
+export type GoalUpdateProgress = z.infer<typeof goalUpdateProgressSchema>;
+
+export const goalListSchema = z.object({
+    status: z.enum(['active', 'completed', 'abandoned', 'all']).optional().describe('Only list goals with this status (default: active)'),
+});
+export type GoalList = z.infer<typeof goalListSchema>;
+
+export const goalCompleteSchema = z.object({
+    goalId: z.string().describe('Id of the goal the user achieved'),
+    note: z.string().optional().describe('How the goal was achieved'),
+});
+export type GoalComplete = z.infer<typeof goalCompleteSchema>;
+
+export const goalAbandonSchema = z.object({
+    goalId: z.string().describe('Id of the goal the user is giving up on'),
+    reason: z.string().optional().describe('Why the user is abandoning the goal'),
+});
+export type GoalAbandon = z.infer<typeof goalAbandonSchema>;
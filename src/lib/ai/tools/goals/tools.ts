@@ -0,0 +1,32 @@
+import { tool, ToolSet } from "ai";
+import { goalAbandonSchema, goalCompleteSchema, goalCreateSchema, goalListSchema, goalUpdateProgressSchema } from "./schemas";
+import { goalAbandonFunction, goalCompleteFunction, goalCreateFunction, goalListFunction, goalUpdateProgressFunction } from "./functions";
+import type { OwnerScope } from "@/lib/database/scoped";
+
+export const goalTools = (scope: OwnerScope): ToolSet => ({
+    goal_create: tool({
+        description: 'Create a goal for the user once they commit to something concrete. Ask for the why, a target date and a metric if they are missing.',
+        inputSchema: goalCreateSchema,
+        execute: async (input) => goalCreateFunction(scope, input),
+    }),
+    goal_update_progress: tool({
+        description: 'Record progress the user reports on one of their goals.',
+        inputSchema: goalUpdateProgressSchema,
+        execute: async ({goalId, currentValue, note}) => goalUpdateProgressFunction(scope, goalId, currentValue, note),
+    }),
+    goal_list: tool({
+        description: 'List the user\'s goals, active goals by default.',
+        inputSchema: goalListSchema,
+        execute: async ({status = 'active'}) => goalListFunction(scope, status),
+    }),
+    goal_complete: tool({
+        description: 'Mark a goal as achieved.',
+        inputSchema: goalCompleteSchema,
+        execute: async ({goalId, note}) => goalCompleteFunction(scope, goalId, note),
+    }),
+    goal_abandon: tool({
+        description: 'Mark a goal as abandoned. Only do this when the user clearly decides to drop it, not when they are just struggling.',
+        inputSchema: goalAbandonSchema,
+        execute: async ({goalId, reason}) => goalAbandonFunction(scope, goalId, reason),
+    }),
+});
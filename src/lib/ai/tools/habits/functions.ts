@@ -0,0 +1,79 @@
+import { habitCheckinSchema, habitCreateSchema, habitStatsSchema, type HabitCreate } from './schemas';
+import { checkIn, createHabit, getHabit, getHabitOverview, getHabitsOverview, type HabitOverview } from '@/lib/database/habits';
+import type { OwnerScope } from '@/lib/database/scoped';
+import type { HabitSchedule } from '@/lib/habits/stats';
+
+const toSchedule = ({ scheduleType, timesPerWeek, weekdays }: HabitCreate): HabitSchedule | string => {
+    switch (scheduleType) {
+        case 'weekly':
+            return timesPerWeek ? { type: 'weekly', timesPerWeek } : 'timesPerWeek is required for weekly habits';
+        case 'weekdays':
+            return weekdays?.length ? { type: 'weekdays', weekdays } : 'weekdays is required for weekdays habits';
+        default:
+            return { type: 'daily' };
+    }
+};
+
+// What the model gets to see, adherence as a rounded percentage
+const summarize = ({ habit, schedule, stats, checkInDates }: HabitOverview, today: string) => ({
+    habitId: habit.id,
+    name: habit.name,
+    schedule,
+    currentStreak: `${stats.currentStreak} ${stats.streakUnit}${stats.currentStreak === 1 ? '' : 's'}`,
+    longestStreak: `${stats.longestStreak} ${stats.streakUnit}${stats.longestStreak === 1 ? '' : 's'}`,
+    adherence: stats.adherence === null ? 'nothing due yet' : `${Math.round(stats.adherence * 100)}% over the last ${stats.windowDays} days`,
+    lastCheckIn: stats.lastCheckIn,
+    checkedInToday: checkInDates.includes(today),
+});
+
+export const habitCreateFunction = async (scope: OwnerScope, input: HabitCreate) => {
+    const { success, data, error } = habitCreateSchema.safeParse(input);
+    if (!success) {
+        return { success: false, error: error.message };
+    }
+    const schedule = toSchedule(data);
+    if (typeof schedule === 'string') {
+        return { success: false, error: schedule };
+    }
+    try {
+        const habit = await createHabit(scope, { name: data.name, description: data.description, goalId: data.goalId, schedule });
+        return { success: true, habit, message: `Habit created: ${habit.name}` };
+    } catch (error) {
+        console.error('Error creating habit:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+export const habitCheckinFunction = async (scope: OwnerScope, today: string, habitId: string, date: string = today, note?: string) => {
+    const { success, error } = habitCheckinSchema.safeParse({ habitId, date, note });
+    if (!success) {
+        return { success: false, error: error.message };
+    }
+    if (date > today) {
+        return { success: false, error: `Cannot check in for a future date, today is ${today}` };
+    }
+    try {
+        await checkIn(scope, habitId, date, note);
+        const overview = await getHabitOverview(scope, await getHabit(scope, habitId), today);
+        return { success: true, stats: summarize(overview, today), message: `Checked in ${overview.habit.name} for ${date}` };
+    } catch (error) {
+        console.error('Error checking in habit:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+export const habitStatsFunction = async (scope: OwnerScope, today: string, habitId?: string, windowDays: number = 30) => {
+    const { success, error } = habitStatsSchema.safeParse({ habitId, windowDays });
+    if (!success) {
+        return { success: false, error: error.message };
+    }
+    try {
+        const overviews = habitId
+            ? [await getHabitOverview(scope, await getHabit(scope, habitId), today, { windowDays })]
+            : await getHabitsOverview(scope, today, { windowDays });
+        return { success: true, today, habits: overviews.map(overview => summarize(overview, today)), count: overviews.length };
+    } catch (error) {
+        console.error('Error getting habit stats:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+}
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+export const habitCreateSchema = z.object({
+    name: z.string().min(1).describe('Short name of the habit, e.g. "Morning workout"'),
+    description: z.string().optional().describe('What exactly counts as doing the habit'),
+    scheduleType: z.enum(['daily', 'weekly', 'weekdays']).describe('daily: every day. weekly: a number of times per week on any days. weekdays: specific days of the week'),
+    timesPerWeek: z.number().int().min(1).max(7).optional().describe('Required for weekly habits, how many times per week'),
+    weekdays: z.array(z.number().int().min(0).max(6)).optional().describe('Required for weekdays habits, days of the week with 0 = Sunday'),
+    goalId: z.string().optional().describe('Id of the goal this habit works towards'),
+});
+export type HabitCreate = z.infer<typeof habitCreateSchema>;
+
+export const habitCheckinSchema = z.object({
+    habitId: z.string().describe('Id of the habit the user did'),
+    date: dateSchema.optional().describe('Day the user did it, YYYY-MM-DD (default: today)'),
+    note: z.string().optional().describe('Details the user gave, e.g. "5k run, 27 minutes"'),
+});
+export type HabitCheckin = z.infer<typeof habitCheckinSchema>;
+
+export const habitStatsSchema = z.object({
+    habitId: z.string().optional().describe('Id of a single habit, leave out to get every habit'),
+    windowDays: z.number().int().min(7).max(365).optional().describe('Number of days adherence is computed over (default: 30)'),
+});
+export type HabitStatsQuery = z.infer<typeof habitStatsSchema>;
@@ -0,0 +1,27 @@
+import { tool, ToolSet } from "ai";
+import { habitCheckinSchema, habitCreateSchema, habitStatsSchema } from "./schemas";
+import { habitCheckinFunction, habitCreateFunction, habitStatsFunction } from "./functions";
+import type { OwnerScope } from "@/lib/database/scoped";
+import { toDateKey } from "@/lib/habits/stats";
+
+// timeZone decides what "today" is for check-ins without an explicit date
+export const habitTools = (scope: OwnerScope, timeZone?: string): ToolSet => {
+    const today = () => toDateKey(new Date(), timeZone);
+    return {
+        habit_create: tool({
+            description: 'Create a habit the user commits to, with its schedule. Link it to a goal when it serves one.',
+            inputSchema: habitCreateSchema,
+            execute: async (input) => habitCreateFunction(scope, input),
+        }),
+        habit_checkin: tool({
+            description: 'Log that the user did a habit. Only log what the user actually reports doing.',
+            inputSchema: habitCheckinSchema,
+            execute: async ({habitId, date, note}) => habitCheckinFunction(scope, today(), habitId, date, note),
+        }),
+        habit_stats: tool({
+            description: 'Get streaks and adherence for the user\'s habits, computed from their check-ins. Check this before accepting claims about consistency and call out gaps.',
+            inputSchema: habitStatsSchema,
+            execute: async ({habitId, windowDays = 30}) => habitStatsFunction(scope, today(), habitId, windowDays),
+        }),
+    };
+};
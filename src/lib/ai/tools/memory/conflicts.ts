@@ -0,0 +1,56 @@
+import type { MemoryInput, MemorySource, MemoryStore } from './stores';
+import { detectContradictions } from '@/lib/ai/serverFunctions/detectContradictions';
+import { recordMemoryConflicts } from '@/lib/database/memoryConflicts';
+import type { OwnerScope } from '@/lib/database/scoped';
+
+// The contradiction check every memory write by the coach goes through, from the memory tools or from a proposal
+// the user approved
+
+export interface MemoryConflictReport {
+    key: string;
+    value: string;
+    explanation: string;
+}
+
+const CONFLICT_CANDIDATES = 5;
+const CONFLICT_MIN_SIMILARITY = 0.5;
+
+// Existing memories under other keys that the new one contradicts. A failed check never blocks the write
+const findConflicts = async (store: MemoryStore, memory: MemoryInput): Promise<MemoryConflictReport[]> => {
+    try {
+        const candidates = (await store.hybridSearch(memory.value, CONFLICT_CANDIDATES, { minSimilarity: CONFLICT_MIN_SIMILARITY }))
+            .filter(candidate => candidate.key !== memory.key);
+        if (candidates.length === 0) return [];
+        const contradictions = await detectContradictions(memory, candidates);
+        return contradictions.map(({ key, explanation }) => ({
+            key,
+            value: candidates.find(candidate => candidate.key === key)!.value,
+            explanation,
+        }));
+    } catch (error) {
+        console.error('Error checking memory for contradictions:', error);
+        return [];
+    }
+};
+
+// Writes the memory either way and returns what it contradicts. With a scope the conflicts are also recorded for
+// review on the /memory page
+export async function writeMemoryCheckingConflicts(
+    store: MemoryStore,
+    operation: 'store' | 'update',
+    memory: MemoryInput,
+    context?: { scope: OwnerScope; source?: MemorySource },
+): Promise<MemoryConflictReport[]> {
+    const conflicts = await findConflicts(store, memory);
+    await (operation === 'update' ? store.update(memory) : store.store(memory));
+    if (context && conflicts.length > 0) {
+        await recordMemoryConflicts(context.scope, conflicts.map(conflict => ({
+            key: memory.key,
+            value: memory.value,
+            conflictingKey: conflict.key,
+            conflictingValue: conflict.value,
+            explanation: conflict.explanation,
+        })), context.source);
+    }
+    return conflicts;
+}
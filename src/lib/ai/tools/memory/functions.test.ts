@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createTestUser } from "@/test/fixtures";
+import type { OwnerScope } from "@/lib/database/scoped";
+import { createInMemoryMemoryStore } from "./stores/in-memory";
+import type { MemoryStore } from "./stores";
+import { memoryForgetMatchingFunction } from "./functions";
+
+describe('memory_forget_matching', () => {
+    let scope: OwnerScope;
+    let store: MemoryStore;
+    const turn = (messageId: string) => ({ scope, source: { conversationId: 'conv', messageId } });
+
+    beforeEach(async () => {
+        scope = await createTestUser();
+        store = createInMemoryMemoryStore(scope.userId);
+        await store.store({ key: 'ex_name', value: 'The user broke up with Sam', tags: ['relationship'] });
+        await store.store({ key: 'ex_gift', value: 'Sam gave the user a watch', tags: ['relationship'] });
+        await store.store({ key: 'favorite_food', value: 'The user loves ramen', tags: ['food'] });
+    });
+
+    const listMatches = async () => {
+        const listing = await memoryForgetMatchingFunction(store, 'Sam', undefined, undefined, turn('msg_1'));
+        expect(listing).toMatchObject({ success: true, needsConfirmation: true });
+        return listing as { confirmationToken: string; matches: { id: string | number; key: string }[] };
+    };
+
+    it('deletes nothing without a confirmation token', async () => {
+        const result = await memoryForgetMatchingFunction(store, 'Sam', undefined, [1, 2], turn('msg_1'));
+        expect(result.success).toBe(false);
+        expect(await store.searchByKey('ex_', false, 10)).toHaveLength(2);
+    });
+
+    it('refuses the token in the turn that listed the matches', async () => {
+        const { confirmationToken, matches } = await listMatches();
+        const result = await memoryForgetMatchingFunction(store, 'Sam', confirmationToken, matches.map(match => match.id), turn('msg_1'));
+        expect(result.success).toBe(false);
+        expect((await store.searchByKey('ex_', false, 10)).map(memory => memory.key).sort()).toEqual(['ex_gift', 'ex_name']);
+    });
+
+    it('deletes the confirmed matches in a later turn, once', async () => {
+        const { confirmationToken, matches } = await listMatches();
+        const ids = matches.map(match => match.id);
+        const result = await memoryForgetMatchingFunction(store, 'Sam', confirmationToken, ids, turn('msg_2'));
+        expect(result).toMatchObject({ success: true });
+        expect(await store.searchByKey('ex_', false, 10)).toHaveLength(0);
+
+        const reused = await memoryForgetMatchingFunction(store, 'Sam', confirmationToken, ids, turn('msg_3'));
+        expect(reused.success).toBe(false);
+    });
+
+    it('only deletes memories the token listed', async () => {
+        const { confirmationToken } = await listMatches();
+        const [ramen] = await store.searchByKey('favorite_food', true, 1);
+        const result = await memoryForgetMatchingFunction(store, 'Sam', confirmationToken, [ramen.id], turn('msg_2'));
+        expect(result).toMatchObject({ success: true, forgotten: [] });
+        expect(await store.searchByKey('favorite_food', true, 1)).toHaveLength(1);
+    });
+});
@@ -1,154 +1,129 @@
-import { memoryStoreSchema, memoryStoreMultipleSchema, memoryRetrieveSchema, memoryUpdateSchema, memorySemanticSearchSchema, memorySearchByTagsSchema, memorySearchByKeySchema } from './schemas';
-import { getTursoClient, getDrizzleClient } from '@/lib/database/connection';
-import { memory } from '@/lib/database/schema';
-import { embed } from 'ai';
-import { openai } from '@ai-sdk/openai';
-import { getUser } from '@/lib/auth/user';
-import { sql } from 'drizzle-orm';
-const generateEmbedding = async (text: string): Promise<number[]> => {
-    
-    const { embedding } = await embed({
-        model: openai.embedding('text-embedding-3-small'),
-        value: text,
-        providerOptions: {
-            openai: {
-                dimensions: 1536,
-            },
-        },
-    });
-    return embedding;
+import { memoryStoreSchema, memoryStoreMultipleSchema, memoryRetrieveSchema, memoryUpdateSchema, memorySemanticSearchSchema, memorySearchByTagsSchema, memoryListTagsSchema, memorySearchByKeySchema, memoryForgetSchema, memoryForgetMatchingSchema } from './schemas';
+import type { MemoryInput, MemoryRecord, MemorySource, MemoryStore, TagQuery } from './stores';
+import { describeTagQuery } from './stores/tags';
+import { writeMemoryCheckingConflicts, type MemoryConflictReport } from './conflicts';
+import { resolveConflictsForKey } from '@/lib/database/memoryConflicts';
+import { createMemoryProposals, type MemoryProposalOperation } from '@/lib/database/memoryProposals';
+import { consumeForgetConfirmation, createForgetConfirmation, ForgetConfirmationError } from '@/lib/database/memoryForgetConfirmations';
+import type { OwnerScope } from '@/lib/database/scoped';
+
+// The signed in user and where the call came from, /api/chat passes it so conflicts get recorded for review
+export interface MemoryToolContext {
+    scope: OwnerScope;
+    source?: MemorySource;
+    // The user's memory approval setting, writes become proposals they approve in the chat
+    requireApproval?: boolean;
+}
+
+// The memory is written either way, the coach gets the conflicts back so it can ask the user which is true
+const conflictResult = (conflicts: MemoryConflictReport[]) => ({
+    success: true,
+    conflicts,
+    message: `Memory saved, but it contradicts ${conflicts.map(conflict => `"${conflict.key}"`).join(', ')}. Ask the user which is true, then update or forget the outdated memory.`,
+});
+
+// What a retrieval tool returns counts as an access, it feeds the frequency boost. A failure never fails the retrieval
+const recordAccess = async (store: MemoryStore, results: MemoryRecord[]) => {
+    if (results.length === 0) return;
+    try {
+        await store.recordAccess(results.map(result => result.id));
+    } catch (error) {
+        console.error('Error recording memory access:', error);
+    }
+};
+
+// Nothing is written, the proposals show up in MemoryDisplay for the user to approve, edit or reject
+const proposalResult = async (store: MemoryStore, operation: MemoryProposalOperation, memories: MemoryInput[], context: MemoryToolContext) => {
+    const proposals = await createMemoryProposals(context.scope, store.backend, operation, memories, context.source);
+    return {
+        success: true,
+        pendingApproval: true,
+        proposals,
+        message: `Nothing is saved yet, the user approves or rejects ${proposals.length === 1 ? 'this memory' : 'these memories'} in the chat. Don't tell them it was saved.`,
+    };
 };
 
-export const memoryStoreFunction = async (key: string, value: string, tags: string[]) => {
-    const { success, error } = memoryStoreSchema.safeParse({ key, value, tags });
+export const memoryStoreFunction = async (store: MemoryStore, key: string, value: string, tags: string[], validUntil?: string, context?: MemoryToolContext) => {
+    const { success, error } = memoryStoreSchema.safeParse({ key, value, tags, validUntil });
     if (!success) {
         console.error('Error storing memory:', error);
         return { success: false, error: error.message };
     }
     try {
-        const user_id = await getUser();
-        const embedding = await generateEmbedding(value);
-        const db = await getDrizzleClient();
-        await db.insert(memory)
-            .values({
-                key,
-                value,
-                tags: JSON.stringify(tags),
-                userId: user_id,
-                embedding,
-            })
-            .onConflictDoUpdate({
-                target: [memory.key, memory.userId],
-                set: {
-                    value: sql`excluded.value`,
-                    tags: sql`excluded.tags`,
-                    embedding: sql`excluded.embedding`,
-                },
-            });
+        if (context?.requireApproval) {
+            return await proposalResult(store, 'store', [{ key, value, tags, validUntil }], context);
+        }
+        const conflicts = await writeMemoryCheckingConflicts(store, 'store', { key, value, tags, validUntil }, context);
+        if (conflicts.length > 0) {
+            return conflictResult(conflicts);
+        }
     } catch (error) {
         return { success: false, error: error instanceof Error ? error.message : String(error) };
     }
     return { success: true, message: 'Memory stored successfully' };
 }
 
-export const memoryStoreMultipleFunction = async (memoryList: { key: string, value: string, tags: string[] }[]) => {
+export const memoryStoreMultipleFunction = async (store: MemoryStore, memoryList: MemoryInput[], context?: MemoryToolContext) => {
     const { success, error } = memoryStoreMultipleSchema.safeParse({ memoryList });
     if (!success) {
         console.error('Error storing multiple memories:', error);
         return { success: false, error: error.message };
     }
     try {
-        const user_id = await getUser();
-
-        // Process each memory entry and generate embeddings
-        const memoryEntries = await Promise.all(
-            memoryList.map(async (memoryItem) => {
-                const embedding = await generateEmbedding(memoryItem.value);
-                return {
-                    key: memoryItem.key,
-                    value: memoryItem.value,
-                    tags: JSON.stringify(memoryItem.tags),
-                    userId: user_id,
-                    embedding
-                };
-            })
-        );
-        const db = await getDrizzleClient();
-        // Batch upsert all memories using Drizzle
-        for (const entry of memoryEntries) {
-            await db.insert(memory)
-                .values(entry)
-                .onConflictDoUpdate({
-                    target: [memory.key, memory.userId],
-                    set: {
-                        value: sql`excluded.value`,
-                        tags: sql`excluded.tags`,
-                        embedding: sql`excluded.embedding`,
-                    },
-                });
+        if (context?.requireApproval) {
+            return await proposalResult(store, 'store', memoryList, context);
         }
-        return { success: true, count: memoryEntries.length, message: 'Memories stored successfully' };
-
+        const results = await store.storeMany(memoryList);
+        const failed = results.filter(result => !result.success);
+        if (failed.length === 0) {
+            return { success: true, count: results.length, results, message: 'Memories stored successfully' };
+        }
+        // Some may still have been written, the coach has to know which ones weren't
+        const count = results.length - failed.length;
+        return {
+            success: false,
+            count,
+            results,
+            error: `${count} of ${results.length} memories stored. Not stored: ${failed.map(result => `"${result.key}" (${result.error})`).join(', ')}. Retry those or tell the user they weren't saved.`,
+        };
     } catch (error) {
         console.error('Error storing multiple memories:', error);
         return { success: false, error: error instanceof Error ? error.message : String(error) };
     }
 }
 
-export const memoryRetrieveFunction = async (embeddingQuery: string) => {
-    const { success, error } = memoryRetrieveSchema.safeParse({ embeddingQuery });
+export const memoryRetrieveFunction = async (store: MemoryStore, embeddingQuery: string, minSimilarity?: number) => {
+    const { success, error } = memoryRetrieveSchema.safeParse({ embeddingQuery, minSimilarity });
     if (!success) {
         console.error('Error retrieving memory:', error);
         return { success: false, error: error.message };
     }
     try {
-        const user_id = await getUser();
+        const results = await store.hybridSearch(embeddingQuery, 5, { minSimilarity });
+        await recordAccess(store, results);
 
-        // Generate embedding for the query
-        const queryEmbedding = await generateEmbedding(embeddingQuery);
-        const turso = await getTursoClient();
-        // Use vector similarity search - need raw SQL for vector operations
-        const result = await turso.execute(`
-            SELECT id, key, value, tags, created_at,
-                   vector_distance_cos(embedding, ?) as similarity
-            FROM memory 
-            WHERE user_id = ?
-            ORDER BY similarity ASC
-            LIMIT 5
-        `, [JSON.stringify(queryEmbedding), user_id]);
-
-        return result.rows.length > 0 ? result.rows : null;
+        return results.length > 0
+            ? results.map(({ similarity_score, ...result }) => ({ ...result, similarity: similarity_score }))
+            : null;
     } catch (error) {
         console.error('Error retrieving memory:', error);
         return { success: false, error: error instanceof Error ? error.message : String(error) };
     }
 }
 
-export const memoryUpdateFunction = async (key: string, value: string, tags: string[]) => {
-    const { success, error } = memoryUpdateSchema.safeParse({ key, value, tags });
+export const memoryUpdateFunction = async (store: MemoryStore, key: string, value: string, tags: string[], validUntil?: string, context?: MemoryToolContext) => {
+    const { success, error } = memoryUpdateSchema.safeParse({ key, value, tags, validUntil });
     if (!success) {
         return { success: false, error: error.message };
     }
     try {
-        const user_id = await getUser();
-        const embedding = await generateEmbedding(value);
-        const db = await getDrizzleClient();
-        await db.insert(memory)
-            .values({
-                key,
-                value,
-                tags: JSON.stringify(tags),
-                userId: user_id,
-                embedding,
-            })
-            .onConflictDoUpdate({
-                target: [memory.key, memory.userId],
-                set: {
-                    value: sql`excluded.value`,
-                    tags: sql`excluded.tags`,
-                    embedding: sql`excluded.embedding`,
-                },
-            });
+        if (context?.requireApproval) {
+            return await proposalResult(store, 'update', [{ key, value, tags, validUntil }], context);
+        }
+        const conflicts = await writeMemoryCheckingConflicts(store, 'update', { key, value, tags, validUntil }, context);
+        if (conflicts.length > 0) {
+            return conflictResult(conflicts);
+        }
     } catch (error) {
         console.error('Error updating memory:', error);
         return { success: false, error: error instanceof Error ? error.message : String(error) };
@@ -156,36 +131,15 @@ export const memoryUpdateFunction = async (key: string, value: string, tags: str
     return { success: true, message: 'Memory updated successfully' };
 }
 
-export const memorySemanticSearchFunction = async (embeddingQuery: string, limit: number = 5) => {
-    const { success, error } = memorySemanticSearchSchema.safeParse({ embeddingQuery, limit });
+export const memorySemanticSearchFunction = async (store: MemoryStore, embeddingQuery: string, limit: number = 5, minSimilarity?: number) => {
+    const { success, error } = memorySemanticSearchSchema.safeParse({ embeddingQuery, limit, minSimilarity });
     if (!success) {
         return { success: false, error: error.message };
     }
     try {
-        const user_id = await getUser();
-
-        // Generate embedding for the search query
-        const queryEmbedding = await generateEmbedding(embeddingQuery);
-        const turso = await getTursoClient();
-        // Perform semantic search with configurable limit - need raw SQL for vector operations
-        const result = await turso.execute(`
-            SELECT id, key, value, tags, created_at,
-                   vector_distance_cos(embedding, ?) as similarity_score
-            FROM memory 
-            WHERE user_id = ?
-            ORDER BY similarity_score ASC
-            LIMIT ?
-        `, [JSON.stringify(queryEmbedding), user_id, limit]);
-        
-        // Return formatted results with similarity scores
-        const results = result.rows.map(row => ({
-            id: row.id,
-            key: row.key,
-            value: row.value,
-            tags: JSON.parse(row.tags as string),
-            created_at: row.created_at,
-            similarity_score: row.similarity_score
-        }));
+        // Return results with similarity scores
+        const results = await store.hybridSearch(embeddingQuery, limit, { minSimilarity });
+        await recordAccess(store, results);
         return { success: true, results: results, message: 'Memory semantic search successfully' };
     } catch (error) {
         console.error('Error semantic searching memory:', error);
@@ -193,41 +147,20 @@ export const memorySemanticSearchFunction = async (embeddingQuery: string, limit
     }
 }
 
-export const memorySearchByTagsFunction = async (tags: string[], limit: number = 10) => {
-    const { success, error } = memorySearchByTagsSchema.safeParse({ tags, limit });
+export const memorySearchByTagsFunction = async (store: MemoryStore, query: TagQuery, limit: number = 10) => {
+    const { success, error } = memorySearchByTagsSchema.safeParse({ ...query, limit });
     if (!success) {
         return { success: false, error: error.message };
     }
     try {
-        const user_id = await getUser();
-
-        // Create placeholders for tags - we'll use JSON_EXTRACT or LIKE for tag matching
-        const tagConditions = tags.map(() => 'tags LIKE ?').join(' OR ');
-        const tagValues = tags.map(tag => `%"${tag}"%`);
-
-        const turso = await getTursoClient();
-        const result = await turso.execute(`
-            SELECT id, key, value, tags, created_at
-            FROM memory 
-            WHERE user_id = ? AND (${tagConditions})
-            ORDER BY created_at DESC
-            LIMIT ?
-        `, [user_id, ...tagValues, limit]);
-
-        // Format results
-        const results = result.rows.map(row => ({
-            id: row.id,
-            key: row.key,
-            value: row.value,
-            tags: JSON.parse(row.tags as string),
-            created_at: row.created_at
-        }));
+        const results = await store.searchByTags(query, limit);
+        await recordAccess(store, results);
 
-        return { 
-            success: true, 
-            results: results, 
+        return {
+            success: true,
+            results: results,
             count: results.length,
-            message: `Found ${results.length} memories with tags: ${tags.join(', ')}` 
+            message: `Found ${results.length} memories with tags: ${describeTagQuery(query)}`
         };
     } catch (error) {
         console.error('Error searching memories by tags:', error);
@@ -235,60 +168,115 @@ export const memorySearchByTagsFunction = async (tags: string[], limit: number =
     }
 }
 
-export const memorySearchByKeyFunction = async (keyPattern: string, exactMatch: boolean = false, limit: number = 10) => {
+export const memoryListTagsFunction = async (store: MemoryStore, limit: number = 50) => {
+    const { success, error } = memoryListTagsSchema.safeParse({ limit });
+    if (!success) {
+        return { success: false, error: error.message };
+    }
+    try {
+        const tags = await store.listTags(limit);
+        return { success: true, tags, count: tags.length };
+    } catch (error) {
+        console.error('Error listing memory tags:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+export const memorySearchByKeyFunction = async (store: MemoryStore, keyPattern: string, exactMatch: boolean = false, limit: number = 10) => {
     const { success, error } = memorySearchByKeySchema.safeParse({ keyPattern, exactMatch, limit });
     if (!success) {
         return { success: false, error: error.message };
     }
     try {
-        const user_id = await getUser();
+        const results = await store.searchByKey(keyPattern, exactMatch, limit);
+        await recordAccess(store, results);
 
-        let query: string;
-        let queryValues: any[];
+        const matchType = exactMatch ? 'exact' : 'partial';
+        return {
+            success: true,
+            results: results,
+            count: results.length,
+            message: `Found ${results.length} memories with ${matchType} key match: "${keyPattern}"`
+        };
+    } catch (error) {
+        console.error('Error searching memories by key:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+}
 
-        if (exactMatch) {
-            // Exact key match
-            query = `
-                SELECT id, key, value, tags, created_at
-                FROM memory 
-                WHERE user_id = ? AND key = ?
-                ORDER BY created_at DESC
-                LIMIT ?
-            `;
-            queryValues = [user_id, keyPattern, limit];
-        } else {
-            // Partial key match using LIKE
-            query = `
-                SELECT id, key, value, tags, created_at
-                FROM memory 
-                WHERE user_id = ? AND key LIKE ?
-                ORDER BY created_at DESC
-                LIMIT ?
-            `;
-            queryValues = [user_id, `%${keyPattern}%`, limit];
+export const memoryForgetFunction = async (store: MemoryStore, key?: string, id?: string | number, context?: MemoryToolContext) => {
+    const { success, error } = memoryForgetSchema.safeParse({ key, id });
+    if (!success) {
+        return { success: false, error: error.message };
+    }
+    try {
+        const forgotten = await store.forget(key !== undefined ? { key } : { id: id! });
+        if (!forgotten) {
+            return { success: false, error: `No memory found with ${key !== undefined ? `key "${key}"` : `id ${id}`}` };
         }
+        if (context) {
+            await resolveConflictsForKey(context.scope, forgotten.key);
+        }
+        return { success: true, forgotten: [forgotten], message: `Forgot memory: ${forgotten.key}` };
+    } catch (error) {
+        console.error('Error forgetting memory:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+}
 
-        const turso = await getTursoClient();
-        const result = await turso.execute(query, queryValues);
-
-        // Format results
-        const results = result.rows.map(row => ({
-            id: row.id,
-            key: row.key,
-            value: row.value,
-            tags: JSON.parse(row.tags as string),
-            created_at: row.created_at
-        }));
+const FORGET_MATCHING_LIMIT = 10;
+const FORGET_MATCHING_MIN_SIMILARITY = 0.3;
 
-        const matchType = exactMatch ? 'exact' : 'partial';
-        return { 
-            success: true, 
-            results: results, 
-            count: results.length,
-            message: `Found ${results.length} memories with ${matchType} key match: "${keyPattern}"` 
+// Two steps with a confirmation token in between. The token only covers the memories the first call listed and only
+// works in a later message, so nothing is deleted before the user answered
+export const memoryForgetMatchingFunction = async (store: MemoryStore, query: string, confirmationToken?: string, confirmedIds?: (string | number)[], context?: MemoryToolContext) => {
+    const { success, error } = memoryForgetMatchingSchema.safeParse({ query, confirmationToken, confirmedIds });
+    if (!success) {
+        return { success: false, error: error.message };
+    }
+    const messageId = context?.source?.messageId;
+    if (!context || !messageId) {
+        return { success: false, error: 'Forgetting matching memories needs the conversation the confirmation is asked in' };
+    }
+    try {
+        if (!confirmationToken || !confirmedIds) {
+            const matches = await store.hybridSearch(query, FORGET_MATCHING_LIMIT, { minSimilarity: FORGET_MATCHING_MIN_SIMILARITY });
+            if (matches.length === 0) {
+                return { success: true, needsConfirmation: false, matches: [], message: 'No memories match this query' };
+            }
+            const token = await createForgetConfirmation(context.scope, {
+                backend: store.backend,
+                memoryIds: matches.map(match => match.id),
+                messageId,
+            });
+            return {
+                success: true,
+                needsConfirmation: true,
+                confirmationToken: token,
+                matches: matches.map(({ id, key, value, tags }) => ({ id, key, value, tags })),
+                message: 'Nothing was deleted yet. Show the user these memories and ask which to forget. After they answered, call memory_forget_matching again with confirmationToken and the confirmedIds they agreed to.',
+            };
+        }
+        const listed = await consumeForgetConfirmation(context.scope, confirmationToken, store.backend, messageId);
+        const forgotten: MemoryRecord[] = [];
+        for (const id of confirmedIds.filter(id => listed.has(String(id)))) {
+            const deleted = await store.forget({ id });
+            if (!deleted) continue;
+            forgotten.push(deleted);
+            await resolveConflictsForKey(context.scope, deleted.key);
+        }
+        const skipped = confirmedIds.length - forgotten.length;
+        return {
+            success: true,
+            forgotten,
+            message: `Forgot ${forgotten.length} memor${forgotten.length === 1 ? 'y' : 'ies'}${skipped > 0 ? `, ${skipped} confirmed id(s) weren't listed for this token or are already gone and were kept` : ''}`,
         };
     } catch (error) {
-        console.error('Error searching memories by key:', error);
+        if (error instanceof ForgetConfirmationError) {
+            return { success: false, error: error.message };
+        }
+        console.error('Error forgetting matching memories:', error);
         return { success: false, error: error instanceof Error ? error.message : String(error) };
     }
 }
+
@@ -1,9 +1,13 @@
 import { z } from 'zod';
 
+const validUntilSchema = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Must be an ISO 8601 date or date-time').optional()
+    .describe('Optional ISO 8601 date-time after which this no longer holds, for temporary situations like "is travelling until Friday". Searches leave the memory out once it has passed');
+
 export const memoryStoreSchema = z.object({
     key: z.string().describe('The key to store the memory under, this is the main identifier of the memory'),
     value: z.string().describe('The value to store in the memory store, this is the main content of the memory, this should be concise but detailed'),
-    tags: z.array(z.string()).describe('The tags to store in the memory store, this is a list of tags that can be used to search the memory store'),
+    tags: z.array(z.string()).describe('The tags to store in the memory store, reuse tags from memory_list_tags where they fit. Case, plurals and common synonyms are normalized'),
+    validUntil: validUntilSchema,
 });
 export type MemoryStore = z.infer<typeof memoryStoreSchema>;
 
@@ -12,33 +16,61 @@ export const memoryStoreMultipleSchema = z.object({
 });
 export type MemoryStoreMultiple = z.infer<typeof memoryStoreMultipleSchema>;
 
+const minSimilaritySchema = z.number().min(0).max(1).optional()
+    .describe('Optional cutoff between 0 and 1, drops memories that only match by meaning and are less similar than this. Exact keyword matches are always kept');
+
 export const memoryRetrieveSchema = z.object({
-    embeddingQuery: z.string().describe('The query to search the memory store embeddings with, the value column gets turned into an embedding and stored in the embedding column')
+    embeddingQuery: z.string().describe('The query to search the memory store with, matched both by keywords and by meaning'),
+    minSimilarity: minSimilaritySchema,
 });
 export type MemoryRetrieve = z.infer<typeof memoryRetrieveSchema>;
 
 export const memoryUpdateSchema = z.object({
     key: z.string().describe('The key to update the memory under, this is the main identifier of the memory'),
     value: z.string().describe('The value to update in the memory store, this is the main content of the memory, this should be concise but detailed'),
-    tags: z.array(z.string()).describe('The tags to update in the memory store, this is a list of tags that can be used to search the memory store'),
+    tags: z.array(z.string()).describe('The tags to update in the memory store, reuse tags from memory_list_tags where they fit. Case, plurals and common synonyms are normalized'),
+    validUntil: validUntilSchema,
 });
 export type MemoryUpdate = z.infer<typeof memoryUpdateSchema>;
 
 export const memorySemanticSearchSchema = z.object({
     embeddingQuery: z.string().describe('The query to search the memory store with, this is the query to search the memory store with'),
     limit: z.number().optional().describe('The limit to search the memory store with, this is the limit of the number of results to return'),
+    minSimilarity: minSimilaritySchema,
 });
 export type MemorySemanticSearch = z.infer<typeof memorySemanticSearchSchema>;
 
 export const memorySearchByTagsSchema = z.object({
-    tags: z.array(z.string()).describe('Array of tags to search for. Returns memories that contain ANY of these tags (OR logic)'),
+    all: z.array(z.string()).optional().describe('Tags the memories must ALL have (AND)'),
+    any: z.array(z.string()).optional().describe('Tags of which the memories need at least one (OR)'),
+    none: z.array(z.string()).optional().describe('Tags the memories must NOT have'),
     limit: z.number().optional().describe('Maximum number of results to return (default: 10)'),
-});
+}).refine(({ all = [], any = [] }) => all.length + any.length > 0, 'Give at least one tag in all or any');
 export type MemorySearchByTags = z.infer<typeof memorySearchByTagsSchema>;
 
+export const memoryListTagsSchema = z.object({
+    limit: z.number().optional().describe('Maximum number of tags to return, most used first (default: 50)'),
+});
+export type MemoryListTags = z.infer<typeof memoryListTagsSchema>;
+
 export const memorySearchByKeySchema = z.object({
     keyPattern: z.string().describe('Key pattern to search for. Supports exact match or partial matching with wildcards'),
     exactMatch: z.boolean().optional().describe('Whether to perform exact key matching (default: false for partial matching)'),
     limit: z.number().optional().describe('Maximum number of results to return (default: 10)'),
 });
-export type MemorySearchByKey = z.infer<typeof memorySearchByKeySchema>;
\ No newline at end of file
+export type MemorySearchByKey = z.infer<typeof memorySearchByKeySchema>;
+
+export const memoryForgetSchema = z.object({
+    key: z.string().optional().describe('Key of the memory to forget'),
+    id: z.union([z.string(), z.number()]).optional().describe('Id of the memory to forget, as returned by a search. Use when the key is unknown'),
+}).refine(({ key, id }) => key !== undefined || id !== undefined, 'Either key or id is required');
+export type MemoryForget = z.infer<typeof memoryForgetSchema>;
+
+export const memoryForgetMatchingSchema = z.object({
+    query: z.string().min(1).describe('What the memories to forget are about, e.g. "the user\'s ex"'),
+    confirmationToken: z.string().optional()
+        .describe('Leave out on the first call to get the matching memories and a token. Only works in a later message, after the user answered'),
+    confirmedIds: z.array(z.union([z.string(), z.number()])).optional()
+        .describe('The ids the user agreed to forget, out of the ones the first call listed. Goes with confirmationToken'),
+}).refine(({ confirmationToken, confirmedIds }) => (confirmationToken === undefined) === (confirmedIds === undefined), 'confirmationToken and confirmedIds go together');
+export type MemoryForgetMatching = z.infer<typeof memoryForgetMatchingSchema>;
@@ -0,0 +1,67 @@
+import type { HybridSearchOptions, MemoryRecord } from './types';
+
+// Shared pieces of hybrid retrieval: keyword terms, and reciprocal rank fusion of the keyword and vector rankings
+
+// Damping constant from the original RRF paper, keeps one top rank from drowning out agreement between both lists
+const RRF_K = 60;
+
+// Fused score of a memory both rankings put first
+export const MAX_RRF_SCORE = 2 / (RRF_K + 1);
+
+// How many candidates each ranking contributes before fusion
+export const candidateCount = (limit: number) => Math.max(limit * 4, 20);
+
+export function keywordTerms(query: string): string[] {
+    return [...new Set(query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])];
+}
+
+// Keyword hits always stay, vector-only hits have to clear the similarity cutoff
+export function reciprocalRankFusion(
+    keywordRanking: MemoryRecord[],
+    vectorRanking: MemoryRecord[],
+    limit: number,
+    { minSimilarity }: HybridSearchOptions = {},
+): MemoryRecord[] {
+    const fused = new Map<string | number, MemoryRecord & { rrf_score: number; matched_by: ('keyword' | 'vector')[] }>();
+    const add = (ranking: MemoryRecord[], source: 'keyword' | 'vector') => {
+        ranking.forEach((record, rank) => {
+            const existing = fused.get(record.id);
+            const score = 1 / (RRF_K + rank + 1);
+            if (existing) {
+                existing.rrf_score += score;
+                existing.matched_by.push(source);
+                existing.similarity_score ??= record.similarity_score;
+            } else {
+                fused.set(record.id, { ...record, rrf_score: score, matched_by: [source] });
+            }
+        });
+    };
+    add(keywordRanking, 'keyword');
+    add(vectorRanking.filter(record =>
+        minSimilarity === undefined || (record.similarity_score !== undefined && 1 - record.similarity_score >= minSimilarity)
+    ), 'vector');
+    return [...fused.values()]
+        .sort((a, b) => b.rrf_score - a.rrf_score)
+        .slice(0, limit);
+}
+
+// Keyword ranking for backends without a full-text index, terms that few memories share count more
+export function rankByKeywords(memories: MemoryRecord[], query: string, limit: number): MemoryRecord[] {
+    const terms = keywordTerms(query);
+    const termsOf = (record: MemoryRecord) => new Set(keywordTerms(`${record.key} ${record.value} ${record.tags.join(' ')}`));
+    const documents = memories.map(record => ({ record, terms: termsOf(record) }));
+    const weight = (term: string) => {
+        const matches = documents.filter(document => document.terms.has(term)).length;
+        return matches === 0 ? 0 : Math.log(1 + documents.length / matches);
+    };
+    const weights = new Map(terms.map(term => [term, weight(term)]));
+    return documents
+        .map(({ record, terms: documentTerms }) => ({
+            record,
+            score: terms.reduce((sum, term) => sum + (documentTerms.has(term) ? weights.get(term)! : 0), 0),
+        }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(({ record }) => record);
+}
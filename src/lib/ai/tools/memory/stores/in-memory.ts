@@ -0,0 +1,129 @@
+import type { MemoryInput, MemoryRecord, MemorySource, MemoryStore } from './types';
+import { candidateCount, rankByKeywords, reciprocalRankFusion } from './fusion';
+import { canonicalizeTags, countTags, matchesTagQuery } from './tags';
+import { fusedRelevance, isExpired, rankByTime, similarityRelevance } from './ranking';
+
+// Process local store for tests and offline development, nothing survives a restart
+const memoriesByUser = new Map<string, Map<string, MemoryRecord>>();
+let nextId = 1;
+
+const termCounts = (text: string) => {
+    const counts = new Map<string, number>();
+    for (const term of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+        counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+    return counts;
+};
+
+// Cosine distance over term counts, a stand-in for embeddings that needs no model
+const termDistance = (a: string, b: string) => {
+    const countsA = termCounts(a);
+    const countsB = termCounts(b);
+    let dot = 0;
+    countsA.forEach((count, term) => { dot += count * (countsB.get(term) ?? 0); });
+    const norm = (counts: Map<string, number>) => Math.sqrt([...counts.values()].reduce((sum, count) => sum + count * count, 0));
+    const denominator = norm(countsA) * norm(countsB);
+    return denominator === 0 ? 1 : 1 - dot / denominator;
+};
+
+const newestFirst = (a: MemoryRecord, b: MemoryRecord) => (b.created_at ?? '').localeCompare(a.created_at ?? '');
+
+export function createInMemoryMemoryStore(userId: string, source: MemorySource = {}): MemoryStore {
+    const memories = () => {
+        let userMemories = memoriesByUser.get(userId);
+        if (!userMemories) {
+            userMemories = new Map();
+            memoriesByUser.set(userId, userMemories);
+        }
+        return userMemories;
+    };
+
+    // Memories that haven't passed their validUntil, what the searches see
+    const current = () => [...memories().values()].filter(item => !isExpired(item));
+
+    const upsert = async ({ key, value, tags, validUntil }: MemoryInput) => {
+        const existing = memories().get(key);
+        const canonicalTags = canonicalizeTags(tags);
+        const changed = !existing || existing.value !== value || JSON.stringify(existing.tags) !== JSON.stringify(canonicalTags);
+        memories().set(key, {
+            id: existing?.id ?? nextId++,
+            key,
+            value,
+            tags: canonicalTags,
+            created_at: existing?.created_at ?? new Date().toISOString(),
+            updated_at: changed ? new Date().toISOString() : existing.updated_at,
+            access_count: existing?.access_count ?? 0,
+            last_accessed_at: existing?.last_accessed_at ?? null,
+            valid_until: validUntil ? new Date(validUntil).toISOString() : null,
+            conversation_id: source.conversationId ?? null,
+            message_id: source.messageId ?? null,
+        });
+    };
+
+    const vectorRanking = (query: string, limit: number) => current()
+        .map(item => ({ ...item, similarity_score: termDistance(query, `${item.key} ${item.value}`) }))
+        .sort((a, b) => a.similarity_score - b.similarity_score)
+        .slice(0, limit);
+
+    return {
+        backend: 'in-memory',
+
+        store: upsert,
+
+        update: upsert,
+
+        async storeMany(memoryList) {
+            for (const memoryItem of memoryList) {
+                await upsert(memoryItem);
+            }
+            return memoryList.map(({ key }) => ({ key, success: true }));
+        },
+
+        async semanticSearch(query, limit) {
+            return rankByTime(vectorRanking(query, candidateCount(limit)), limit, similarityRelevance);
+        },
+
+        async hybridSearch(query, limit, options) {
+            const keywordRanking = rankByKeywords(current(), query, candidateCount(limit))
+                .map(item => ({ ...item, similarity_score: termDistance(query, `${item.key} ${item.value}`) }));
+            const fused = reciprocalRankFusion(keywordRanking, vectorRanking(query, candidateCount(limit)), candidateCount(limit), options);
+            return rankByTime(fused, limit, fusedRelevance);
+        },
+
+        async searchByTags(query, limit) {
+            return current()
+                .filter(item => matchesTagQuery(item.tags, query))
+                .sort(newestFirst)
+                .slice(0, limit);
+        },
+
+        async listTags(limit) {
+            return countTags([...memories().values()]).slice(0, limit);
+        },
+
+        async forget(target) {
+            const found = 'key' in target
+                ? memories().get(target.key)
+                : [...memories().values()].find(item => String(item.id) === String(target.id));
+            if (!found) return null;
+            memories().delete(found.key);
+            return found;
+        },
+
+        async recordAccess(ids) {
+            for (const item of memories().values()) {
+                if (ids.some(id => String(id) === String(item.id))) {
+                    item.access_count = (item.access_count ?? 0) + 1;
+                    item.last_accessed_at = new Date().toISOString();
+                }
+            }
+        },
+
+        async searchByKey(keyPattern, exactMatch, limit) {
+            return current()
+                .filter(item => exactMatch ? item.key === keyPattern : item.key.toLowerCase().includes(keyPattern.toLowerCase()))
+                .sort(newestFirst)
+                .slice(0, limit);
+        },
+    };
+}
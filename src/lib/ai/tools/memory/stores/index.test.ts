@@ -0,0 +1,28 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getAllowedMemoryBackends, getMemoryStore } from ".";
+
+describe('memory backend choice', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('lets requests pick any backend outside production', () => {
+        vi.stubEnv('NODE_ENV', 'development');
+        expect(getAllowedMemoryBackends()).toEqual(['libsql', 'mem0', 'in-memory']);
+        expect(getMemoryStore('in-memory', 'user').backend).toBe('in-memory');
+    });
+
+    it('only allows the default backend in production', () => {
+        vi.stubEnv('NODE_ENV', 'production');
+        expect(getAllowedMemoryBackends()).toEqual(['libsql']);
+        expect(getMemoryStore('in-memory', 'user').backend).toBe('libsql');
+    });
+
+    it('takes the allowlist from MEMORY_BACKENDS_ALLOWED', () => {
+        vi.stubEnv('NODE_ENV', 'production');
+        vi.stubEnv('MEMORY_BACKENDS_ALLOWED', 'mem0, bogus');
+        expect(getAllowedMemoryBackends()).toEqual(['libsql', 'mem0']);
+        expect(getMemoryStore('mem0', 'user').backend).toBe('mem0');
+        expect(getMemoryStore('in-memory', 'user').backend).toBe('libsql');
+    });
+});
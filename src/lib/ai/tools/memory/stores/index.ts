@@ -0,0 +1,39 @@
+import { createLibsqlMemoryStore } from './libsql';
+import { createMem0MemoryStore } from './mem0';
+import { createInMemoryMemoryStore } from './in-memory';
+import type { MemoryBackend, MemorySource, MemoryStore } from './types';
+
+export type { HybridSearchOptions, MemoryBackend, MemoryInput, MemoryRecord, MemoryScoreBreakdown, MemorySensitivity, MemorySource, MemoryStore, MemoryTagCount, MemoryTarget, MemoryWriteResult, TagQuery } from './types';
+
+export const MEMORY_BACKENDS: MemoryBackend[] = ['libsql', 'mem0', 'in-memory'];
+
+const isMemoryBackend = (value: unknown): value is MemoryBackend => MEMORY_BACKENDS.includes(value as MemoryBackend);
+
+// Backend used when a request doesn't pick one, MEMORY_BACKEND lets a deployment change the default
+export const getDefaultMemoryBackend = (): MemoryBackend =>
+    isMemoryBackend(process.env.MEMORY_BACKEND) ? process.env.MEMORY_BACKEND : 'libsql';
+
+// Backends a request may pick. MEMORY_BACKENDS_ALLOWED (comma separated) lists them, without it any backend can be
+// picked outside production and only the default one in production, where in-memory writes would be lost on restart
+export function getAllowedMemoryBackends(): MemoryBackend[] {
+    const configured = process.env.MEMORY_BACKENDS_ALLOWED?.split(',').map(backend => backend.trim()).filter(isMemoryBackend);
+    if (configured && configured.length > 0) {
+        return [...new Set([getDefaultMemoryBackend(), ...configured])];
+    }
+    return process.env.NODE_ENV === 'production' ? [getDefaultMemoryBackend()] : MEMORY_BACKENDS;
+}
+
+// Memories written through the store point back at the source, the libSQL store also records it in the revision history.
+// A backend the request may not pick falls back to the default one
+export function getMemoryStore(backend: string | undefined, userId: string, source?: MemorySource): MemoryStore {
+    const allowed = isMemoryBackend(backend) && getAllowedMemoryBackends().includes(backend);
+    switch (allowed ? backend : getDefaultMemoryBackend()) {
+        case 'mem0':
+            return createMem0MemoryStore(userId, source);
+        case 'in-memory':
+            return createInMemoryMemoryStore(userId, source);
+        case 'libsql':
+        default:
+            return createLibsqlMemoryStore(userId, source);
+    }
+}
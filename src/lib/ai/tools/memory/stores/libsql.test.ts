@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { and, eq } from "drizzle-orm";
+import { createTestUser } from "@/test/fixtures";
+import { generateEmbedding, getEmbeddingProvider } from "@/lib/ai/embeddings";
+import { getDrizzleClient } from "@/lib/database/connection";
+import { canonicalizeStoredTags } from "@/lib/database/memoryTags";
+import { memory } from "@/lib/database/schema";
+import { createLibsqlMemoryStore } from "./libsql";
+import type { MemoryStore } from "./types";
+
+describe('searching the libSQL store by tags', () => {
+    let userId: string;
+    let store: MemoryStore;
+
+    beforeEach(async () => {
+        ({ userId } = await createTestUser());
+        store = createLibsqlMemoryStore(userId);
+        await store.storeMany([
+            { key: 'morning_run', value: 'Runs before work', tags: ['Exercise', 'habits', 'morning'] },
+            { key: 'evening_yoga', value: 'Yoga after dinner', tags: ['workout', 'habit', 'evening'] },
+            { key: 'marathon', value: 'Wants to run a marathon', tags: ['objectives', 'fitness'] },
+            { key: 'meal_prep', value: 'Cooks on Sundays', tags: ['diet', 'habits'] },
+        ]);
+    });
+
+    const keys = async (query: Parameters<MemoryStore['searchByTags']>[0]) =>
+        (await store.searchByTags(query, 10)).map(record => record.key).sort();
+
+    it('combines all with none', async () => {
+        expect(await keys({ all: ['fitness', 'habit'], none: ['evening'] })).toEqual(['morning_run']);
+        expect(await keys({ all: ['habit'], none: ['fitness'] })).toEqual(['meal_prep']);
+        expect(await keys({ all: ['fitness'], any: ['goal', 'evening'], none: ['morning'] })).toEqual(['evening_yoga', 'marathon']);
+    });
+
+    it('counts tags that share a canonical form once', async () => {
+        expect(await keys({ all: ['Habits', 'habit', 'HABIT '] })).toEqual(['evening_yoga', 'meal_prep', 'morning_run']);
+        expect(await keys({ all: ['exercise', 'gym', 'workouts'], none: ['Mornings', 'morning'] })).toEqual(['evening_yoga', 'marathon']);
+        expect(await keys({ any: ['objective', 'aims'] })).toEqual(['marathon']);
+    });
+
+    it('finds memories stored before canonicalization once the migration has canonicalized them', async () => {
+        const db = await getDrizzleClient();
+        // The way drizzle/0017_memory_tags.sql leaves older memories, lowercased but still plural
+        await db.insert(memory).values({
+            key: 'sleep',
+            value: 'Goes to bed at ten',
+            tags: JSON.stringify(['habits', 'evenings']),
+            userId,
+            embedding: await generateEmbedding('Goes to bed at ten'),
+            embeddingModel: getEmbeddingProvider().id,
+        });
+        expect(await keys({ all: ['habit', 'evening'] })).toEqual(['evening_yoga']);
+
+        await canonicalizeStoredTags();
+
+        expect(await keys({ all: ['habit', 'evening'] })).toEqual(['evening_yoga', 'sleep']);
+        const [sleep] = await db.select({ tags: memory.tags }).from(memory).where(and(eq(memory.userId, userId), eq(memory.key, 'sleep')));
+        expect(JSON.parse(sleep.tags)).toEqual(['habit', 'evening']);
+    });
+});
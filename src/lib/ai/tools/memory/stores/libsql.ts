@@ -0,0 +1,355 @@
+import { getTursoClient, getDrizzleClient } from '@/lib/database/connection';
+import { memory, memoryRevisions } from '@/lib/database/schema';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import type { Row } from '@libsql/client';
+import { recordMemoryRevision } from '@/lib/database/memoryRevisions';
+import { decryptForUser, encryptForUser } from '@/lib/database/encryption';
+import { generateEmbedding, generateEmbeddings, getEmbeddingProvider } from '@/lib/ai/embeddings';
+import type { MemoryInput, MemoryRecord, MemorySensitivity, MemorySource, MemoryStore, MemoryWriteResult } from './types';
+import { candidateCount, keywordTerms, reciprocalRankFusion } from './fusion';
+import { canonicalizeTagQuery, canonicalizeTags } from './tags';
+import { fusedRelevance, rankByTime, similarityRelevance } from './ranking';
+import { classifyMemory } from './sensitivity';
+
+// The value as it is stored, encrypted unless the memory is general. Pass the sensitivity when it's already known to
+// skip classifying. classifiedAt stays null when only the keyword fallback classified it, see ./sensitivity.ts
+export const sealMemoryValue = async (userId: string, input: MemoryInput, sensitivity?: MemorySensitivity) => {
+    const { sensitivity: classified, classified: byClassifier } = sensitivity
+        ? { sensitivity, classified: true }
+        : await classifyMemory(input);
+    return {
+        sensitivity: classified,
+        value: classified === 'general' ? input.value : encryptForUser(userId, input.value),
+        classifiedAt: byClassifier ? new Date().toISOString() : null,
+    };
+};
+
+const toMemoryRecord = (userId: string, row: Row): MemoryRecord => ({
+    id: row.id as number,
+    key: row.key as string,
+    value: decryptForUser(userId, row.value as string),
+    tags: JSON.parse(row.tags as string),
+    created_at: row.created_at as string | null,
+    conversation_id: row.conversation_id as string | null,
+    message_id: row.message_id as string | null,
+    pinned: Boolean(row.pinned),
+    sensitivity: row.sensitivity as MemorySensitivity,
+    access_count: Number(row.access_count),
+    last_accessed_at: row.last_accessed_at as string | null,
+    valid_until: row.valid_until as string | null,
+    ...(row.updated_at != null ? { updated_at: row.updated_at as string } : {}),
+    ...(row.similarity_score != null ? { similarity_score: row.similarity_score as number } : {}),
+});
+
+const sameTags = (a: string[], b: string[]) => JSON.stringify(a) === JSON.stringify(b);
+
+// What every search reads of memory m, everything but the embedding
+const RECORD_COLUMNS = `m.id, m.key, m.value, m.tags, m.created_at, m.conversation_id, m.message_id, m.pinned, m.sensitivity,
+                   m.access_count, m.last_accessed_at, m.valid_until`;
+
+// When m last changed for recency ranking. Writes that change something leave a revision, memories from before
+// revisions were recorded fall back to created_at
+const UPDATED_AT_COLUMN = `coalesce((SELECT max(r.created_at) FROM memory_revisions r WHERE r.user_id = m.user_id AND r.key = m.key AND r.change != 'delete'), m.created_at) as updated_at`;
+
+// Leaves out memories past their valid_until, takes the current time as its argument
+const STILL_VALID = `(m.valid_until IS NULL OR m.valid_until > ?)`;
+
+const toValidUntil = (validUntil?: string) => validUntil ? new Date(validUntil).toISOString() : null;
+
+interface MemoryWrite {
+    input: MemoryInput;
+    // What sealMemoryValue returned for it
+    sealed: { value: string; sensitivity: MemorySensitivity; classifiedAt: string | null };
+    embedding: number[];
+    // Pins the memory, otherwise it keeps whether it was pinned
+    pinned?: boolean;
+}
+
+interface WriteOptions {
+    source?: MemorySource;
+    change?: 'rollback' | 'merge';
+    // Ids of memories deleted in the same transaction, with a delete revision each. A merge forgets the rest of its cluster
+    forget?: number[];
+}
+
+// Inserts or replaces the memories under their keys in one transaction, points them at the source and records each
+// change in memory_revisions. Writes that change nothing leave no revision. Tags are canonicalized, the memory_tags
+// triggers index them. The embeddings have to come from the configured provider, the rows record its id
+const writeMemories = async (userId: string, writes: MemoryWrite[], { source = {}, change, forget = [] }: WriteOptions = {}) => {
+    if (writes.length === 0) return;
+    const db = await getDrizzleClient();
+    const previousRows = await db.select({ key: memory.key, value: memory.value, tags: memory.tags })
+        .from(memory)
+        .where(and(eq(memory.userId, userId), inArray(memory.key, writes.map(write => write.input.key))));
+    // What each key holds when its write runs, a batch may write the same key twice
+    const current = new Map(previousRows.map(row => [row.key, { value: row.value, tags: JSON.parse(row.tags) as string[] }]));
+    const queries: BatchItem<'sqlite'>[] = [];
+    for (const { input, sealed, embedding, pinned } of writes) {
+        const { key, value } = input;
+        const tags = canonicalizeTags(input.tags);
+        const previous = current.get(key);
+        current.set(key, { value: sealed.value, tags });
+        queries.push(db.insert(memory)
+            .values({
+                key,
+                value: sealed.value,
+                sensitivity: sealed.sensitivity,
+                classifiedAt: sealed.classifiedAt,
+                tags: JSON.stringify(tags),
+                userId,
+                embedding,
+                embeddingModel: getEmbeddingProvider().id,
+                validUntil: toValidUntil(input.validUntil),
+                conversationId: source.conversationId ?? null,
+                messageId: source.messageId ?? null,
+                ...(pinned ? { pinned } : {}),
+            })
+            .onConflictDoUpdate({
+                target: [memory.key, memory.userId],
+                set: {
+                    value: sql`excluded.value`,
+                    sensitivity: sql`excluded.sensitivity`,
+                    classifiedAt: sql`excluded.classified_at`,
+                    tags: sql`excluded.tags`,
+                    embedding: sql`excluded.embedding`,
+                    embeddingModel: sql`excluded.embedding_model`,
+                    validUntil: sql`excluded.valid_until`,
+                    conversationId: sql`excluded.conversation_id`,
+                    messageId: sql`excluded.message_id`,
+                    ...(pinned ? { pinned: sql`excluded.pinned` } : {}),
+                },
+            }));
+        if (previous && decryptForUser(userId, previous.value) === value && sameTags(previous.tags, tags)) {
+            continue;
+        }
+        queries.push(db.insert(memoryRevisions).values({
+            userId,
+            // The row the statement before wrote, its id isn't known until the batch runs
+            memoryId: sql`(SELECT id FROM memory WHERE user_id = ${userId} AND key = ${key})`,
+            key,
+            change: change ?? (previous ? 'update' : 'create'),
+            oldValue: previous?.value ?? null,
+            newValue: sealed.value,
+            oldTags: previous?.tags ?? null,
+            newTags: tags,
+            conversationId: source.conversationId ?? null,
+            messageId: source.messageId ?? null,
+        }));
+    }
+    if (forget.length > 0) {
+        const forgotten = and(eq(memory.userId, userId), inArray(memory.id, forget));
+        const forgottenRows = await db.select({ id: memory.id, key: memory.key, value: memory.value, tags: memory.tags }).from(memory).where(forgotten);
+        queries.push(db.delete(memory).where(forgotten));
+        if (forgottenRows.length > 0) {
+            queries.push(db.insert(memoryRevisions).values(forgottenRows.map(row => ({
+                userId,
+                memoryId: row.id,
+                key: row.key,
+                change: 'delete' as const,
+                oldValue: row.value,
+                newValue: null,
+                oldTags: JSON.parse(row.tags) as string[],
+                newTags: null,
+                // The source is where the written memories came from, not a reason to forget these
+                conversationId: null,
+                messageId: null,
+            }))));
+        }
+    }
+    // Never empty, every write adds its upsert
+    await db.batch(queries as [BatchItem<'sqlite'>, ...BatchItem<'sqlite'>[]]);
+};
+
+// Inserts or replaces one memory, see writeMemories. Rollbacks and consolidation merges go through here with their
+// own change. The memory is classified unless the sensitivity is passed in, revisions keep the value encrypted the same way
+export const upsertMemory = async (
+    userId: string,
+    input: MemoryInput,
+    embedding: number[],
+    { sensitivity, pinned, ...options }: WriteOptions & { sensitivity?: MemorySensitivity; pinned?: boolean } = {},
+) => {
+    const sealed = await sealMemoryValue(userId, input, sensitivity);
+    await writeMemories(userId, [{ input, sealed, embedding, pinned }], options);
+};
+
+// Vector backed store on the memory table, searches with libSQL's vector_distance_cos
+export function createLibsqlMemoryStore(userId: string, source: MemorySource = {}): MemoryStore {
+    const upsert = async (input: MemoryInput) => {
+        await upsertMemory(userId, input, await generateEmbedding(input.value), { source });
+    };
+
+    // Embedding is the JSON encoded query vector. Only memories embedded by the same provider are comparable
+    const vectorSearch = async (embedding: string, limit: number) => {
+        const turso = await getTursoClient();
+        // Need raw SQL for vector operations
+        const result = await turso.execute(`
+            SELECT ${RECORD_COLUMNS}, ${UPDATED_AT_COLUMN},
+                   vector_distance_cos(m.embedding, ?) as similarity_score
+            FROM memory m
+            WHERE m.user_id = ? AND m.embedding_model = ? AND ${STILL_VALID}
+            ORDER BY similarity_score ASC
+            LIMIT ?
+        `, [embedding, userId, getEmbeddingProvider().id, new Date().toISOString(), limit]);
+        return result.rows.map(row => toMemoryRecord(userId, row));
+    };
+
+    // Any of the query's words, ranked by bm25 with matches in the key weighted up. Memories embedded by another
+    // provider still match by keyword, they just have no similarity
+    const keywordSearch = async (query: string, embedding: string, limit: number) => {
+        const terms = keywordTerms(query);
+        if (terms.length === 0) return [];
+        const turso = await getTursoClient();
+        const result = await turso.execute(`
+            SELECT ${RECORD_COLUMNS}, ${UPDATED_AT_COLUMN},
+                   CASE WHEN m.embedding_model = ? THEN vector_distance_cos(m.embedding, ?) END as similarity_score
+            FROM memory_fts
+            JOIN memory m ON m.id = memory_fts.rowid
+            WHERE memory_fts MATCH ? AND m.user_id = ? AND ${STILL_VALID}
+            ORDER BY bm25(memory_fts, 2.0, 1.0, 1.0)
+            LIMIT ?
+        `, [getEmbeddingProvider().id, embedding, terms.map(term => `"${term}"`).join(' OR '), userId, new Date().toISOString(), limit]);
+        return result.rows.map(row => toMemoryRecord(userId, row));
+    };
+
+    return {
+        backend: 'libsql',
+
+        store: upsert,
+
+        update: upsert,
+
+        // Embeds in batches and seals in parallel, then writes every memory that got through both in one
+        // transaction. A memory that failed on the way is left out and reported, the rest are still written
+        async storeMany(memories) {
+            const [embeddings, sealedValues] = await Promise.all([
+                generateEmbeddings(memories.map(memoryItem => memoryItem.value)),
+                Promise.allSettled(memories.map(memoryItem => sealMemoryValue(userId, memoryItem))),
+            ]);
+            const results: MemoryWriteResult[] = [];
+            const writes: MemoryWrite[] = [];
+            for (const [index, memoryItem] of memories.entries()) {
+                const embedding = embeddings[index];
+                const sealed = sealedValues[index];
+                try {
+                    if ('error' in embedding) throw new Error(embedding.error);
+                    if (sealed.status === 'rejected') throw sealed.reason;
+                    writes.push({ input: memoryItem, sealed: sealed.value, embedding: embedding.embedding });
+                    results.push({ key: memoryItem.key, success: true });
+                } catch (error) {
+                    results.push({ key: memoryItem.key, success: false, error: error instanceof Error ? error.message : String(error) });
+                }
+            }
+            try {
+                await writeMemories(userId, writes, { source });
+            } catch (error) {
+                // The transaction rolled back, none of them were written
+                const message = error instanceof Error ? error.message : String(error);
+                return results.map(result => result.success ? { key: result.key, success: false, error: message } : result);
+            }
+            return results;
+        },
+
+        async semanticSearch(query, limit) {
+            // Generate embedding for the search query
+            const queryEmbedding = await generateEmbedding(query);
+            return rankByTime(await vectorSearch(JSON.stringify(queryEmbedding), candidateCount(limit)), limit, similarityRelevance);
+        },
+
+        async hybridSearch(query, limit, options) {
+            const queryEmbedding = JSON.stringify(await generateEmbedding(query));
+            const [keywordRanking, vectorRanking] = await Promise.all([
+                keywordSearch(query, queryEmbedding, candidateCount(limit)),
+                vectorSearch(queryEmbedding, candidateCount(limit)),
+            ]);
+            return rankByTime(reciprocalRankFusion(keywordRanking, vectorRanking, candidateCount(limit), options), limit, fusedRelevance);
+        },
+
+        async searchByTags(query, limit) {
+            const { all, any, none } = canonicalizeTagQuery(query);
+            const placeholders = (tags: string[]) => tags.map(() => '?').join(', ');
+            const conditions = [
+                ...(all.length > 0 ? [`(SELECT count(*) FROM memory_tags t WHERE t.memory_id = m.id AND t.tag IN (${placeholders(all)})) = ?`] : []),
+                ...(any.length > 0 ? [`EXISTS (SELECT 1 FROM memory_tags t WHERE t.memory_id = m.id AND t.tag IN (${placeholders(any)}))`] : []),
+                ...(none.length > 0 ? [`NOT EXISTS (SELECT 1 FROM memory_tags t WHERE t.memory_id = m.id AND t.tag IN (${placeholders(none)}))`] : []),
+            ];
+            const turso = await getTursoClient();
+            const result = await turso.execute(`
+                SELECT ${RECORD_COLUMNS}
+                FROM memory m
+                WHERE m.user_id = ? AND ${STILL_VALID} ${conditions.map(condition => `AND ${condition}`).join(' ')}
+                ORDER BY m.created_at DESC
+                LIMIT ?
+            `, [userId, new Date().toISOString(), ...(all.length > 0 ? [...all, all.length] : []), ...any, ...none, limit]);
+            return result.rows.map(row => toMemoryRecord(userId, row));
+        },
+
+        async listTags(limit) {
+            const turso = await getTursoClient();
+            const result = await turso.execute(`
+                SELECT tag, count(*) AS count
+                FROM memory_tags
+                WHERE user_id = ?
+                GROUP BY tag
+                ORDER BY count DESC, tag
+                LIMIT ?
+            `, [userId, limit]);
+            return result.rows.map(row => ({ tag: row.tag as string, count: Number(row.count) }));
+        },
+
+        async forget(target) {
+            const db = await getDrizzleClient();
+            const result = await db.delete(memory)
+                .where(and(eq(memory.userId, userId), 'key' in target ? eq(memory.key, target.key) : eq(memory.id, Number(target.id))))
+                .returning({
+                    id: memory.id,
+                    key: memory.key,
+                    value: memory.value,
+                    tags: memory.tags,
+                    created_at: memory.createdAt,
+                    conversation_id: memory.conversationId,
+                    message_id: memory.messageId,
+                    pinned: memory.pinned,
+                    sensitivity: memory.sensitivity,
+                });
+            if (result.length === 0) {
+                return null;
+            }
+            const forgotten = { ...result[0], value: decryptForUser(userId, result[0].value), tags: JSON.parse(result[0].tags) as string[] };
+            await recordMemoryRevision({
+                userId,
+                memoryId: forgotten.id,
+                key: forgotten.key,
+                change: 'delete',
+                oldValue: result[0].value,
+                newValue: null,
+                oldTags: forgotten.tags,
+                newTags: null,
+                conversationId: source.conversationId ?? null,
+                messageId: source.messageId ?? null,
+            });
+            return forgotten;
+        },
+
+        async recordAccess(ids) {
+            if (ids.length === 0) return;
+            const turso = await getTursoClient();
+            await turso.execute(`
+                UPDATE memory SET last_accessed_at = ?, access_count = access_count + 1
+                WHERE user_id = ? AND id IN (${ids.map(() => '?').join(', ')})
+            `, [new Date().toISOString(), userId, ...ids.map(Number)]);
+        },
+
+        async searchByKey(keyPattern, exactMatch, limit) {
+            const turso = await getTursoClient();
+            const result = await turso.execute(`
+                SELECT ${RECORD_COLUMNS}
+                FROM memory m
+                WHERE m.user_id = ? AND ${STILL_VALID} AND ${exactMatch ? 'm.key = ?' : 'm.key LIKE ?'}
+                ORDER BY m.created_at DESC
+                LIMIT ?
+            `, [userId, new Date().toISOString(), exactMatch ? keyPattern : `%${keyPattern}%`, limit]);
+            return result.rows.map(row => toMemoryRecord(userId, row));
+        },
+    };
+}
@@ -0,0 +1,137 @@
+import MemoryClient, { type Memory as Mem0Memory } from 'mem0ai';
+import type { MemoryInput, MemoryRecord, MemorySource, MemoryStore, MemoryWriteResult } from './types';
+import { candidateCount, rankByKeywords, reciprocalRankFusion } from './fusion';
+import { canonicalizeTags, countTags, matchesTagQuery } from './tags';
+import { fusedRelevance, isExpired, rankByTime, similarityRelevance } from './ranking';
+
+// Keys, tags and provenance have no native equivalent in mem0, they travel in the memory metadata
+interface Mem0Metadata {
+    key: string;
+    tags: string[];
+    validUntil?: string;
+    conversationId?: string;
+    messageId?: string;
+}
+
+let client: MemoryClient | undefined;
+
+const getMem0Client = () => {
+    if (!process.env.MEM0_API_KEY) {
+        throw new Error('MEM0_API_KEY environment variable is required for the mem0 memory backend');
+    }
+    client ??= new MemoryClient({ apiKey: process.env.MEM0_API_KEY });
+    return client;
+};
+
+const toMemoryRecord = (item: Mem0Memory): MemoryRecord => {
+    const metadata = (item.metadata ?? {}) as Partial<Mem0Metadata>;
+    return {
+        id: item.id,
+        key: metadata.key ?? item.id,
+        value: item.memory ?? item.data?.memory ?? '',
+        tags: metadata.tags ?? item.categories ?? [],
+        created_at: item.created_at ? new Date(item.created_at).toISOString() : null,
+        updated_at: item.updated_at ? new Date(item.updated_at).toISOString() : null,
+        valid_until: metadata.validUntil ?? null,
+        conversation_id: metadata.conversationId ?? null,
+        message_id: metadata.messageId ?? null,
+        // mem0 scores are similarities, the tools report distances
+        ...(item.score !== undefined ? { similarity_score: 1 - item.score } : {}),
+    };
+};
+
+// Hosted mem0 platform store, memories are written verbatim (infer: false) so keys stay stable
+export function createMem0MemoryStore(userId: string, source: MemorySource = {}): MemoryStore {
+    const listAll = async () => {
+        const items = await getMem0Client().getAll({ user_id: userId });
+        return items.map(toMemoryRecord);
+    };
+
+    // Memories that haven't passed their validUntil, what the searches see
+    const listCurrent = async () => (await listAll()).filter(item => !isExpired(item));
+
+    const vectorRanking = async (query: string, limit: number) => {
+        const items = await getMem0Client().search(query, { user_id: userId, limit });
+        return items.map(toMemoryRecord).filter(item => !isExpired(item));
+    };
+
+    const upsert = async ({ key, value, tags, validUntil }: MemoryInput) => {
+        const mem0 = getMem0Client();
+        const metadata: Mem0Metadata = {
+            key,
+            tags: canonicalizeTags(tags),
+            ...(validUntil ? { validUntil: new Date(validUntil).toISOString() } : {}),
+            ...source,
+        };
+        const existing = (await listAll()).find(item => item.key === key);
+        if (existing) {
+            await mem0.update(String(existing.id), { text: value, metadata });
+        } else {
+            await mem0.add([{ role: 'user', content: value }], { user_id: userId, metadata, infer: false });
+        }
+    };
+
+    const newestFirst = (a: MemoryRecord, b: MemoryRecord) => (b.created_at ?? '').localeCompare(a.created_at ?? '');
+
+    return {
+        backend: 'mem0',
+
+        store: upsert,
+
+        update: upsert,
+
+        // mem0 has no transactions, every memory is written on its own
+        async storeMany(memories) {
+            const results: MemoryWriteResult[] = [];
+            for (const memoryItem of memories) {
+                try {
+                    await upsert(memoryItem);
+                    results.push({ key: memoryItem.key, success: true });
+                } catch (error) {
+                    results.push({ key: memoryItem.key, success: false, error: error instanceof Error ? error.message : String(error) });
+                }
+            }
+            return results;
+        },
+
+        async semanticSearch(query, limit) {
+            return rankByTime(await vectorRanking(query, candidateCount(limit)), limit, similarityRelevance);
+        },
+
+        // mem0 has no keyword search, rank the user's memories locally and fuse with its vector search
+        async hybridSearch(query, limit, options) {
+            const [all, vectorCandidates] = await Promise.all([listCurrent(), vectorRanking(query, candidateCount(limit))]);
+            const fused = reciprocalRankFusion(rankByKeywords(all, query, candidateCount(limit)), vectorCandidates, candidateCount(limit), options);
+            return rankByTime(fused, limit, fusedRelevance);
+        },
+
+        // mem0 keeps no access counts and updating the metadata would cost a request per memory, ranking here only
+        // decays with age
+        async recordAccess() {},
+
+        async forget(target) {
+            const found = (await listAll()).find(item => 'key' in target ? item.key === target.key : String(item.id) === String(target.id));
+            if (!found) return null;
+            await getMem0Client().delete(String(found.id));
+            return found;
+        },
+
+        async searchByTags(query, limit) {
+            return (await listCurrent())
+                .filter(item => matchesTagQuery(item.tags, query))
+                .sort(newestFirst)
+                .slice(0, limit);
+        },
+
+        async listTags(limit) {
+            return countTags((await listAll())).slice(0, limit);
+        },
+
+        async searchByKey(keyPattern, exactMatch, limit) {
+            return (await listCurrent())
+                .filter(item => exactMatch ? item.key === keyPattern : item.key.toLowerCase().includes(keyPattern.toLowerCase()))
+                .sort(newestFirst)
+                .slice(0, limit);
+        },
+    };
+}
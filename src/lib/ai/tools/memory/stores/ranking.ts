@@ -0,0 +1,70 @@
+import type { MemoryRecord } from './types';
+import { MAX_RRF_SCORE } from './fusion';
+
+// Time-aware ranking on top of relevance, so last week's update outranks a goal from two years ago and memories the
+// coach keeps coming back to stay near the top: score = relevance × recency × frequency, where
+//   recency   = floor + (1 - floor) × 0.5 ^ (days since the memory last changed / half-life)
+//   frequency = 1 + weight × ln(1 + access count)
+// The floor keeps old memories findable, a close match still beats a recent loose one
+
+export interface MemoryRankingConfig {
+    halfLifeDays: number;
+    recencyFloor: number;
+    frequencyWeight: number;
+}
+
+const envNumber = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) ? value : fallback;
+};
+
+// MEMORY_RECENCY_HALF_LIFE_DAYS, MEMORY_RECENCY_FLOOR and MEMORY_FREQUENCY_WEIGHT tune it, a floor of 1 or a weight of
+// 0 turns that part off
+export const getMemoryRankingConfig = (): MemoryRankingConfig => ({
+    halfLifeDays: envNumber('MEMORY_RECENCY_HALF_LIFE_DAYS', 90),
+    recencyFloor: envNumber('MEMORY_RECENCY_FLOOR', 0.5),
+    frequencyWeight: envNumber('MEMORY_FREQUENCY_WEIGHT', 0.1),
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// SQLite's CURRENT_TIMESTAMP has no T and no zone but is UTC
+const parseTimestamp = (value: string) => Date.parse(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+
+export const isExpired = (record: Pick<MemoryRecord, 'valid_until'>, now: number = Date.now()) =>
+    record.valid_until != null && Date.parse(record.valid_until) <= now;
+
+// Relevance of a semantic search result, its similarity
+export const similarityRelevance = (record: MemoryRecord) => Math.max(0, 1 - (record.similarity_score ?? 1));
+
+// Relevance of a hybrid search result, its fused rank score scaled to 0 to 1 and averaged with its similarity when it
+// has one. Rank alone would count the least bad vector match as relevant, however unrelated it is
+export const fusedRelevance = (record: MemoryRecord) => {
+    const rank = (record.rrf_score ?? 0) / MAX_RRF_SCORE;
+    return record.similarity_score === undefined ? rank : (rank + similarityRelevance(record)) / 2;
+};
+
+// Scores the candidates and returns the best, each with its score breakdown
+export function rankByTime(
+    candidates: MemoryRecord[],
+    limit: number,
+    relevanceOf: (record: MemoryRecord) => number,
+    { halfLifeDays, recencyFloor, frequencyWeight }: MemoryRankingConfig = getMemoryRankingConfig(),
+    now: number = Date.now(),
+): MemoryRecord[] {
+    return candidates
+        .map(record => {
+            const changedAt = record.updated_at ?? record.created_at;
+            const ageDays = changedAt ? Math.max(0, (now - parseTimestamp(changedAt)) / DAY_MS) : 0;
+            const relevance = relevanceOf(record);
+            const recency = recencyFloor + (1 - recencyFloor) * 0.5 ** (ageDays / halfLifeDays);
+            const frequency = 1 + frequencyWeight * Math.log1p(record.access_count ?? 0);
+            return {
+                ...record,
+                score: relevance * recency * frequency,
+                score_breakdown: { relevance, recency, frequency, age_days: Math.round(ageDays) },
+            };
+        })
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+}
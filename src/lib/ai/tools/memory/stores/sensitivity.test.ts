@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { and, eq } from "drizzle-orm";
+import { createTestUser } from "@/test/fixtures";
+import { classifySensitivity } from "@/lib/ai/serverFunctions/classifySensitivity";
+import { getDrizzleClient } from "@/lib/database/connection";
+import { isEncrypted } from "@/lib/database/encryption";
+import { memory } from "@/lib/database/schema";
+import type { OwnerScope } from "@/lib/database/scoped";
+import { createLibsqlMemoryStore } from "./libsql";
+import { classifyMemory, classifySensitivityByKeywords, createSensitivityClassifier } from "./sensitivity";
+
+// Classification asks a model
+vi.mock("@/lib/ai/serverFunctions/classifySensitivity", () => ({ classifySensitivity: vi.fn() }));
+
+const insulin = { key: 'medication', value: 'The user takes insulin every morning', tags: [] };
+
+describe('classifying memory sensitivity', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(classifySensitivity).mockRejectedValue(new Error('model unavailable'));
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('picks the most sensitive category the keywords match', () => {
+        expect(classifySensitivityByKeywords(insulin)).toBe('health');
+        expect(classifySensitivityByKeywords({ key: 'therapy', value: 'Sees a therapist for anxiety about their health', tags: [] })).toBe('mental-health');
+        expect(classifySensitivityByKeywords({ key: 'credit_card_debt', value: 'Paying it off', tags: [] })).toBe('financial');
+        expect(classifySensitivityByKeywords({ key: 'hobby', value: 'The user plays chess', tags: ['leisure'] })).toBe('general');
+    });
+
+    it('falls back to the keywords when the model fails', async () => {
+        vi.stubEnv('SENSITIVITY_CLASSIFIER', 'openai');
+        expect(await classifyMemory(insulin)).toEqual({ sensitivity: 'health', classified: false });
+    });
+
+    it('skips the model with SENSITIVITY_CLASSIFIER=keywords', async () => {
+        expect(createSensitivityClassifier().id).toBe('keywords');
+        expect(await classifyMemory(insulin)).toEqual({ sensitivity: 'health', classified: true });
+        expect(classifySensitivity).not.toHaveBeenCalled();
+    });
+
+    it('asks the model unless told otherwise', () => {
+        expect(createSensitivityClassifier('').id).toBe('openai');
+        expect(createSensitivityClassifier('openai').id).toBe('openai');
+    });
+
+    describe('in the libSQL store', () => {
+        let scope: OwnerScope;
+
+        beforeEach(async () => {
+            scope = await createTestUser();
+        });
+
+        it('stores offline with hashing embeddings and the keyword classifier', async () => {
+            await createLibsqlMemoryStore(scope.userId).store(insulin);
+
+            const db = await getDrizzleClient();
+            const [row] = await db.select().from(memory).where(and(eq(memory.userId, scope.userId), eq(memory.key, 'medication')));
+            expect(row).toMatchObject({ sensitivity: 'health', embeddingModel: 'hashing/v1', classifiedAt: expect.any(String) });
+            expect(classifySensitivity).not.toHaveBeenCalled();
+        });
+
+        it('still writes and encrypts when the model fails, leaving the memory for the backfill', async () => {
+            vi.stubEnv('SENSITIVITY_CLASSIFIER', 'openai');
+            const store = createLibsqlMemoryStore(scope.userId);
+            await store.store(insulin);
+            expect(await store.storeMany([{ key: 'hobby', value: 'The user plays chess', tags: [] }])).toEqual([{ key: 'hobby', success: true }]);
+
+            const db = await getDrizzleClient();
+            const [row] = await db.select().from(memory).where(and(eq(memory.userId, scope.userId), eq(memory.key, 'medication')));
+            expect(row).toMatchObject({ sensitivity: 'health', classifiedAt: null });
+            expect(isEncrypted(row.value)).toBe(true);
+            const [stored] = await store.searchByKey('medication', true, 1);
+            expect(stored.value).toBe(insulin.value);
+        });
+    });
+});
@@ -0,0 +1,60 @@
+import { classifySensitivity } from '@/lib/ai/serverFunctions/classifySensitivity';
+import type { MemoryInput, MemorySensitivity } from './types';
+
+// How the libSQL store decides which memories to encrypt. SENSITIVITY_CLASSIFIER picks the classifier, openai (the
+// default) asks a model and keywords matches words locally, for running offline. A failed model call falls back to the
+// keywords so a write never fails with the model
+
+export interface SensitivityClassifier {
+    readonly id: string;
+    classify(memory: MemoryInput): Promise<MemorySensitivity>;
+}
+
+// Checked in this order, the most sensitive category that matches wins like it does for the model
+const SENSITIVE_KEYWORDS: [MemorySensitivity, RegExp][] = [
+    ['mental-health', /\b(mental|mood|anxi\w*|depress\w*|therap\w*|trauma\w*|panic|self[- ]harm|suicid\w*|ptsd|adhd|bipolar|burn(ed|t)? ?out|psychiatr\w*)\b/i],
+    ['health', /\b(health|ill(ness)?|sick|disease|diagnos\w*|injur\w*|pain|surgery|medicat\w*|medicine|pills?|doctor|hospital|diabet\w*|insulin|asthma|allerg\w*|cancer|pregnan\w*|blood pressure)\b/i],
+    ['relationships', /\b(divorc\w*|breakup|broke up|cheat\w*|affair|sex\w*|dating|boyfriend|girlfriend|husband|wife|partner|marriage|married)\b/i],
+    ['financial', /\b(debts?|loans?|mortgage|salary|income|bankrupt\w*|broke|owes?|credit card|savings|rent|money)\b/i],
+];
+
+export function classifySensitivityByKeywords({ key, value, tags }: MemoryInput): MemorySensitivity {
+    const text = [key.replace(/[_-]/g, ' '), value, ...tags].join('\n');
+    return SENSITIVE_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0] ?? 'general';
+}
+
+// Deterministic, no model and no network. Errs towards the sensitive side, a missed word keeps a memory in plaintext
+export const keywordSensitivityClassifier: SensitivityClassifier = {
+    id: 'keywords',
+    async classify(memory) {
+        return classifySensitivityByKeywords(memory);
+    },
+};
+
+export const openAISensitivityClassifier: SensitivityClassifier = {
+    id: 'openai',
+    classify: classifySensitivity,
+};
+
+// Read on every write, the classifiers hold no state worth keeping
+export function createSensitivityClassifier(name: string | undefined = process.env.SENSITIVITY_CLASSIFIER): SensitivityClassifier {
+    switch (name) {
+        case 'keywords':
+            return keywordSensitivityClassifier;
+        case 'openai':
+        default:
+            return openAISensitivityClassifier;
+    }
+}
+
+// classified is false when the keywords stood in for a failed classifier, scripts/seal-memories.ts classifies those
+// memories again
+export async function classifyMemory(memory: MemoryInput): Promise<{ sensitivity: MemorySensitivity; classified: boolean }> {
+    const configured = createSensitivityClassifier();
+    try {
+        return { sensitivity: await configured.classify(memory), classified: true };
+    } catch (error) {
+        console.error(`Error classifying memory sensitivity with ${configured.id}, falling back to keywords:`, error);
+        return { sensitivity: classifySensitivityByKeywords(memory), classified: false };
+    }
+}
@@ -0,0 +1,83 @@
+import type { MemoryRecord, MemoryTagCount, TagQuery } from './types';
+
+// Tags are stored in one canonical spelling so "Goals", "goal" and "objectives" are the same tag: lowercase words
+// joined by hyphens, the last word singular, then mapped through the synonyms below
+
+// Canonical tag for each synonym, applied after case and plurals are normalized
+const TAG_SYNONYMS: Record<string, string> = {
+    job: 'work',
+    career: 'work',
+    exercise: 'fitness',
+    workout: 'fitness',
+    training: 'fitness',
+    gym: 'fitness',
+    diet: 'nutrition',
+    food: 'nutrition',
+    eating: 'nutrition',
+    objective: 'goal',
+    aim: 'goal',
+    emotion: 'mood',
+    feeling: 'mood',
+    partner: 'relationship',
+    dating: 'relationship',
+    like: 'preference',
+};
+
+// Words ending in s that aren't plurals, or whose singular isn't just shorter
+const KEEP_AS_IS = new Set(['news', 'series', 'species', 'clothes', 'diabetes']);
+
+const singular = (word: string) => {
+    if (word.length <= 3 || KEEP_AS_IS.has(word) || /(ss|us|is)$/.test(word)) return word;
+    if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+    if (/(ch|sh|x|z|ss)es$/.test(word)) return word.slice(0, -2);
+    if (word.endsWith('s')) return word.slice(0, -1);
+    return word;
+};
+
+// Empty when nothing of the tag is left, e.g. only punctuation
+export function canonicalizeTag(tag: string): string {
+    // Apostrophes go first so "kid's" stays one word
+    const words = tag.toLowerCase().replace(/['’]/g, '').match(/[\p{L}\p{N}]+/gu) ?? [];
+    if (words.length === 0) return '';
+    words[words.length - 1] = singular(words[words.length - 1]);
+    const canonical = words.join('-');
+    return TAG_SYNONYMS[canonical] ?? canonical;
+}
+
+// Canonical, without duplicates and empty tags, in the order they came
+export function canonicalizeTags(tags: string[]): string[] {
+    return [...new Set(tags.map(canonicalizeTag).filter(Boolean))];
+}
+
+export function canonicalizeTagQuery({ all = [], any = [], none = [] }: TagQuery): Required<TagQuery> {
+    return { all: canonicalizeTags(all), any: canonicalizeTags(any), none: canonicalizeTags(none) };
+}
+
+// For stores that filter in process, the libSQL store runs the same logic in SQL
+export function matchesTagQuery(tags: string[], query: TagQuery): boolean {
+    const { all, any, none } = canonicalizeTagQuery(query);
+    const canonical = new Set(canonicalizeTags(tags));
+    return all.every(tag => canonical.has(tag))
+        && (any.length === 0 || any.some(tag => canonical.has(tag)))
+        && !none.some(tag => canonical.has(tag));
+}
+
+export function describeTagQuery(query: TagQuery): string {
+    const { all, any, none } = canonicalizeTagQuery(query);
+    return [
+        all.length > 0 ? `all of ${all.join(', ')}` : '',
+        any.length > 0 ? `any of ${any.join(', ')}` : '',
+        none.length > 0 ? `none of ${none.join(', ')}` : '',
+    ].filter(Boolean).join('; ');
+}
+
+// Tag counts over the given memories, most used first
+export function countTags(memories: MemoryRecord[]): MemoryTagCount[] {
+    const counts = new Map<string, number>();
+    for (const tag of memories.flatMap(item => canonicalizeTags(item.tags))) {
+        counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+    return [...counts.entries()]
+        .map(([tag, count]) => ({ tag, count }))
+        .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
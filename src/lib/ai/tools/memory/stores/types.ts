@@ -0,0 +1,109 @@
+// Storage backend behind the memory tools. Implementations are bound to a single user
+// when they are created, so none of the methods take a user id.
+
+export type MemoryBackend = 'libsql' | 'mem0' | 'in-memory';
+
+// What the libSQL store classifies memories as on write, everything but general is encrypted at rest
+export type MemorySensitivity = 'general' | 'health' | 'mental-health' | 'relationships' | 'financial';
+
+export interface MemoryInput {
+    key: string;
+    value: string;
+    tags: string[];
+    // ISO timestamp after which the memory no longer holds, e.g. for a temporary situation. Writing without it clears it
+    validUntil?: string;
+}
+
+// How ranking.ts arrived at a memory's score, score = relevance × recency × frequency
+export interface MemoryScoreBreakdown {
+    // 0 to 1, the similarity for semantic search, the fused rank for hybrid search
+    relevance: number;
+    // Multiplier that decays with the days since the memory last changed, down to the configured floor
+    recency: number;
+    // Multiplier of 1 and up that grows with how often retrieval returned the memory
+    frequency: number;
+    age_days: number;
+}
+
+export interface MemoryRecord extends MemoryInput {
+    id: string | number;
+    created_at: string | null;
+    // Conversation and assistant message the current value came from, null when it was written outside a chat
+    conversation_id?: string | null;
+    message_id?: string | null;
+    // libSQL only, pinned memories are part of the profile in every system prompt
+    pinned?: boolean;
+    // libSQL only
+    sensitivity?: MemorySensitivity;
+    // When the value or tags last changed, created_at for a memory that never changed. Set by semantic and hybrid search
+    updated_at?: string | null;
+    // How often and when retrieval tools last returned the memory. mem0 doesn't track it
+    access_count?: number;
+    last_accessed_at?: string | null;
+    valid_until?: string | null;
+    // Cosine distance to the query, lower is closer. Only set by semantic and hybrid search
+    similarity_score?: number;
+    // Semantic and hybrid search only: the time-aware score they rank by, higher is better
+    score?: number;
+    score_breakdown?: MemoryScoreBreakdown;
+    // Hybrid search only: fused rank score, higher is better, and which rankings found the memory
+    rrf_score?: number;
+    matched_by?: ('keyword' | 'vector')[];
+}
+
+// Where changes made through a store came from, the chat route passes its conversation and the assistant message it streams
+export interface MemorySource {
+    conversationId?: string;
+    messageId?: string;
+}
+
+// How one memory of a storeMany call went, a failed memory was not written
+export interface MemoryWriteResult {
+    key: string;
+    success: boolean;
+    error?: string;
+}
+
+export type MemoryTarget = { key: string } | { id: string | number };
+
+// Tags are canonicalized before matching, see tags.ts. Empty lists don't constrain anything
+export interface TagQuery {
+    // Carries every one of these
+    all?: string[];
+    // Carries at least one of these
+    any?: string[];
+    // Carries none of these
+    none?: string[];
+}
+
+export interface MemoryTagCount {
+    tag: string;
+    count: number;
+}
+
+export interface HybridSearchOptions {
+    // Drops memories found only by vector search whose similarity (1 - distance) is below this
+    minSimilarity?: number;
+}
+
+export interface MemoryStore {
+    readonly backend: MemoryBackend;
+    // Insert or replace the memory stored under the same key. Tags are stored canonicalized
+    store(memory: MemoryInput): Promise<void>;
+    // Results in the order of the memories
+    storeMany(memories: MemoryInput[]): Promise<MemoryWriteResult[]>;
+    // Searches leave out memories past their validUntil. Semantic and hybrid search rank by the time-aware score
+    semanticSearch(query: string, limit: number): Promise<MemoryRecord[]>;
+    // Keyword and vector search merged with reciprocal rank fusion, best first
+    hybridSearch(query: string, limit: number, options?: HybridSearchOptions): Promise<MemoryRecord[]>;
+    // Memories matching the tag query, newest first
+    searchByTags(query: TagQuery, limit: number): Promise<MemoryRecord[]>;
+    // The tags in use with how many memories carry each, most used first
+    listTags(limit: number): Promise<MemoryTagCount[]>;
+    searchByKey(keyPattern: string, exactMatch: boolean, limit: number): Promise<MemoryRecord[]>;
+    update(memory: MemoryInput): Promise<void>;
+    // Deletes the memory with the key or id, resolves to what was deleted or null when nothing matched
+    forget(target: MemoryTarget): Promise<MemoryRecord | null>;
+    // Counts an access to each memory, the retrieval tools call it with what they return
+    recordAccess(ids: (string | number)[]): Promise<void>;
+}
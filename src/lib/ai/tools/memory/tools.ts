@@ -1,41 +1,59 @@
 import { tool, ToolSet } from "ai";
-import { memoryRetrieveSchema, memorySemanticSearchSchema, memoryStoreMultipleSchema, memoryStoreSchema, memoryUpdateSchema, memorySearchByTagsSchema, memorySearchByKeySchema } from "./schemas";
-import { memoryRetrieveFunction, memorySemanticSearchFunction, memoryStoreFunction, memoryStoreMultipleFunction, memoryUpdateFunction, memorySearchByTagsFunction, memorySearchByKeyFunction } from "./functions";
+import { memoryRetrieveSchema, memorySemanticSearchSchema, memoryStoreMultipleSchema, memoryStoreSchema, memoryUpdateSchema, memorySearchByTagsSchema, memoryListTagsSchema, memorySearchByKeySchema, memoryForgetSchema, memoryForgetMatchingSchema } from "./schemas";
+import { memoryRetrieveFunction, memorySemanticSearchFunction, memoryStoreFunction, memoryStoreMultipleFunction, memoryUpdateFunction, memorySearchByTagsFunction, memoryListTagsFunction, memorySearchByKeyFunction, memoryForgetFunction, memoryForgetMatchingFunction, type MemoryToolContext } from "./functions";
+import type { MemoryStore } from "./stores";
 
-export const memoryTools: ToolSet = {
+// The same tool definitions run against whichever memory backend the request picked.
+// Without a context, contradictions are still reported to the model but not recorded for review
+export const memoryTools = (store: MemoryStore, context?: MemoryToolContext): ToolSet => ({
      memory_store: tool({
-        description: 'Store information in a memory store, store everything relevant to the user',
+        description: 'Store information in a memory store, store everything relevant to the user. If the result lists conflicts, ask the user which is true.',
         inputSchema: memoryStoreSchema,
-        execute: async ({key, value, tags}) => memoryStoreFunction(key, value, tags),
+        execute: async ({key, value, tags, validUntil}) => memoryStoreFunction(store, key, value, tags, validUntil, context),
     }),
     memory_store_multiple: tool({
-        description: 'Store multiple distinct pieces of information in a memory store.',
+        description: 'Store multiple distinct pieces of information in a memory store. The result says which memories were stored, retry or mention the ones that were not.',
         inputSchema: memoryStoreMultipleSchema,
-        execute: async ({memoryList})=> memoryStoreMultipleFunction(memoryList)
+        execute: async ({memoryList})=> memoryStoreMultipleFunction(store, memoryList, context)
     }),
     memory_retrieve: tool({
-        description: 'Search for relevant memories using semantic similarity. Provide a natural language query describing what you want to find.',
+        description: 'Search for relevant memories by keywords and semantic similarity. Provide a natural language query describing what you want to find, include exact terms like names when you know them.',
         inputSchema: memoryRetrieveSchema,
-        execute: async ({embeddingQuery}) => memoryRetrieveFunction(embeddingQuery),
+        execute: async ({embeddingQuery, minSimilarity}) => memoryRetrieveFunction(store, embeddingQuery, minSimilarity),
     }),
     memory_search_semantic: tool({
-        description: 'Perform semantic search across all memories to find the most relevant information based on context and meaning.',
+        description: 'Search across all memories to find the most relevant information, combining exact keyword matches with context and meaning.',
         inputSchema: memorySemanticSearchSchema,
-        execute: async ({embeddingQuery, limit = 5}) => memorySemanticSearchFunction(embeddingQuery, limit),
+        execute: async ({embeddingQuery, limit = 5, minSimilarity}) => memorySemanticSearchFunction(store, embeddingQuery, limit, minSimilarity),
     }),
     memory_update: tool({
         description: 'Update information in a memory store',
         inputSchema: memoryUpdateSchema,
-        execute: async ({key, value, tags}) => memoryUpdateFunction(key, value, tags),
+        execute: async ({key, value, tags, validUntil}) => memoryUpdateFunction(store, key, value, tags, validUntil, context),
     }),
     memory_search_by_tags: tool({
-        description: 'Search for memories by specific tags. Returns memories that contain any of the specified tags (OR logic).',
+        description: 'Search for memories by tags. Combine all (AND), any (OR) and none (NOT), e.g. all: ["fitness"], none: ["injury"].',
         inputSchema: memorySearchByTagsSchema,
-        execute: async ({tags, limit = 10}) => memorySearchByTagsFunction(tags, limit),
+        execute: async ({all, any, none, limit = 10}) => memorySearchByTagsFunction(store, { all, any, none }, limit),
+    }),
+    memory_list_tags: tool({
+        description: 'List the tags already in use with how many memories carry each. Check it before tagging or searching by tags so you reuse existing tags instead of inventing new ones.',
+        inputSchema: memoryListTagsSchema,
+        execute: async ({limit = 50}) => memoryListTagsFunction(store, limit),
     }),
     memory_search_by_key: tool({
         description: 'Search for memories by key pattern. Supports both exact and partial key matching.',
         inputSchema: memorySearchByKeySchema,
-        execute: async ({keyPattern, exactMatch = false, limit = 10}) => memorySearchByKeyFunction(keyPattern, exactMatch, limit),
+        execute: async ({keyPattern, exactMatch = false, limit = 10}) => memorySearchByKeyFunction(store, keyPattern, exactMatch, limit),
+    }),
+    memory_forget: tool({
+        description: 'Delete a memory by key or id. Use it when the user asks you to forget something, or a memory turns out to be wrong.',
+        inputSchema: memoryForgetSchema,
+        execute: async ({key, id}) => memoryForgetFunction(store, key, id, context),
+    }),
+    memory_forget_matching: tool({
+        description: 'Forget every memory about a topic. The first call only lists what matches and returns a confirmationToken; show the matches to the user, and once they answered call again with the token and the confirmedIds they agreed to.',
+        inputSchema: memoryForgetMatchingSchema,
+        execute: async ({query, confirmationToken, confirmedIds}) => memoryForgetMatchingFunction(store, query, confirmationToken, confirmedIds, context),
     })
-};
\ No newline at end of file
+});
\ No newline at end of file
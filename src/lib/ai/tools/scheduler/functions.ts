@@ -0,0 +1,41 @@
+import { cancelCheckinSchema, scheduleCheckinSchema } from './schemas';
+import { cancelScheduledJob, createScheduledJob } from '@/lib/database/scheduledJobs';
+import type { OwnerScope } from '@/lib/database/scoped';
+import { formatZonedTime, zonedTimeToUtc } from '@/lib/scheduler/time';
+
+export interface SchedulerContext {
+    conversationId: string;
+    timeZone?: string;
+}
+
+export const scheduleCheckinFunction = async (scope: OwnerScope, { conversationId, timeZone }: SchedulerContext, message: string, runAt: string) => {
+    const { success, error } = scheduleCheckinSchema.safeParse({ message, runAt });
+    if (!success) {
+        return { success: false, error: error.message };
+    }
+    const runAtUtc = zonedTimeToUtc(runAt, timeZone);
+    if (runAtUtc.getTime() <= Date.now()) {
+        return { success: false, error: `${runAt} is in the past, it is now ${formatZonedTime(new Date(), timeZone)}` };
+    }
+    try {
+        const job = await createScheduledJob(scope, { conversationId, message, runAt: runAtUtc });
+        return { success: true, jobId: job.id, message: `Check-in scheduled for ${formatZonedTime(runAtUtc, timeZone)}` };
+    } catch (error) {
+        console.error('Error scheduling check-in:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+export const cancelCheckinFunction = async (scope: OwnerScope, jobId: string) => {
+    const { success, error } = cancelCheckinSchema.safeParse({ jobId });
+    if (!success) {
+        return { success: false, error: error.message };
+    }
+    try {
+        await cancelScheduledJob(scope, jobId);
+        return { success: true, message: 'Check-in cancelled' };
+    } catch (error) {
+        console.error('Error cancelling check-in:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+}
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+export const scheduleCheckinSchema = z.object({
+    message: z.string().min(1).describe('What you will say to the user when the time comes, written as your message to them, e.g. "Morning! Did you get your workout in?"'),
+    runAt: z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/, 'Expected a YYYY-MM-DDTHH:mm date and time')
+        .describe('When to send it, YYYY-MM-DDTHH:mm in the user\'s local time'),
+});
+export type ScheduleCheckin = z.infer<typeof scheduleCheckinSchema>;
+
+export const cancelCheckinSchema = z.object({
+    jobId: z.string().describe('Id of the scheduled check-in, as returned by schedule_checkin'),
+});
@@ -0,0 +1,18 @@
+import { tool, ToolSet } from "ai";
+import { cancelCheckinSchema, scheduleCheckinSchema } from "./schemas";
+import { cancelCheckinFunction, scheduleCheckinFunction, type SchedulerContext } from "./functions";
+import type { OwnerScope } from "@/lib/database/scoped";
+
+// Check-ins land in the conversation they were scheduled from
+export const schedulerTools = (scope: OwnerScope, context: SchedulerContext): ToolSet => ({
+    schedule_checkin: tool({
+        description: 'Schedule a message to the user at a later time, e.g. to follow up on whether they did what they committed to. Use it whenever the user asks to be reminded or checked on, and offer it after they commit to something.',
+        inputSchema: scheduleCheckinSchema,
+        execute: async ({message, runAt}) => scheduleCheckinFunction(scope, context, message, runAt),
+    }),
+    cancel_checkin: tool({
+        description: 'Cancel a check-in scheduled earlier that is no longer needed.',
+        inputSchema: cancelCheckinSchema,
+        execute: async ({jobId}) => cancelCheckinFunction(scope, jobId),
+    }),
+});
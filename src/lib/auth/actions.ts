@@ -0,0 +1,76 @@
+'use server'
+import { eq } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { getDrizzleClient } from "../database/connection";
+import { users } from "../database/schema";
+import { hashPassword, verifyPassword } from "./password";
+import { createSession, destroySession } from "./session";
+import { getOAuthProviders } from "./providers";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export async function signUp(email: string, password: string, name?: string): Promise<{ success: boolean; error?: string }> {
+    try {
+        const normalizedEmail = normalizeEmail(email);
+        if (!normalizedEmail.includes('@')) {
+            return { success: false, error: 'Invalid email address' };
+        }
+        if (password.length < MIN_PASSWORD_LENGTH) {
+            return { success: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` };
+        }
+
+        const db = await getDrizzleClient();
+        const existing = await db.select({ id: users.id }).from(users).where(eq(users.email, normalizedEmail));
+        if (existing.length > 0) {
+            return { success: false, error: 'An account with this email already exists' };
+        }
+
+        const userId = `user_${nanoid(21)}`;
+        await db.insert(users).values({
+            id: userId,
+            email: normalizedEmail,
+            name: name?.trim() || null,
+            passwordHash: await hashPassword(password),
+        });
+        await createSession(userId);
+
+        return { success: true };
+    } catch (error) {
+        console.error('Error signing up:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+export async function signIn(email: string, password: string): Promise<{ success: boolean; error?: string }> {
+    try {
+        const db = await getDrizzleClient();
+        const result = await db.select().from(users).where(eq(users.email, normalizeEmail(email)));
+        const user = result[0];
+        // Same error for unknown email and wrong password so accounts can't be enumerated
+        if (!user?.passwordHash || !(await verifyPassword(password, user.passwordHash))) {
+            return { success: false, error: 'Invalid email or password' };
+        }
+
+        await createSession(user.id);
+        return { success: true };
+    } catch (error) {
+        console.error('Error signing in:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+export async function signOut(): Promise<{ success: boolean; error?: string }> {
+    try {
+        await destroySession();
+        return { success: true };
+    } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+// Providers shown on the login page
+export async function listOAuthProviders(): Promise<{ id: string; name: string }[]> {
+    return getOAuthProviders().map(({ id, name }) => ({ id, name }));
+}
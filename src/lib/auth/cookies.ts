@@ -0,0 +1,3 @@
+// Cookie names, kept in their own module so the middleware can import them without server-only code
+export const SESSION_COOKIE = 'moach_session';
+export const OAUTH_STATE_COOKIE = 'moach_oauth_state';
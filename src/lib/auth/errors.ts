@@ -0,0 +1,15 @@
+// Thrown when a request has no valid session
+export class UnauthorizedError extends Error {
+    constructor(message: string = 'Not authenticated') {
+        super(message);
+        this.name = 'UnauthorizedError';
+    }
+}
+
+// Thrown when an unverified OAuth profile's email already belongs to a user, linking it would hand over their account
+export class OAuthEmailInUseError extends Error {
+    constructor() {
+        super('An account with this email already exists, sign in to it another way');
+        this.name = 'OAuthEmailInUseError';
+    }
+}
@@ -0,0 +1,43 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { getDrizzleClient } from "../database/connection";
+import { users } from "../database/schema";
+import { OAuthEmailInUseError } from "./errors";
+import { signInWithOAuthProfile } from "./oauth";
+import { createSession } from "./session";
+
+// Sessions set a cookie, which needs a request
+vi.mock("./session", () => ({ createSession: vi.fn() }));
+
+describe('signInWithOAuthProfile', () => {
+    let email: string;
+    let existingUserId: string;
+
+    beforeEach(async () => {
+        vi.mocked(createSession).mockClear();
+        email = `${nanoid(12).toLowerCase()}@example.com`;
+        existingUserId = `user_${nanoid(12)}`;
+        const db = await getDrizzleClient();
+        await db.insert(users).values({ id: existingUserId, email });
+    });
+
+    it('links a verified email to the existing user', async () => {
+        await signInWithOAuthProfile('github', { providerAccountId: nanoid(), email, emailVerified: true, name: null });
+        expect(createSession).toHaveBeenCalledWith(existingUserId);
+    });
+
+    it('refuses to link an unverified email to the existing user', async () => {
+        await expect(signInWithOAuthProfile('dev', { providerAccountId: email, email, emailVerified: false, name: null }))
+            .rejects.toBeInstanceOf(OAuthEmailInUseError);
+        expect(createSession).not.toHaveBeenCalled();
+    });
+
+    it('creates a new user for an unverified email nobody has', async () => {
+        const newEmail = `new-${email}`;
+        await signInWithOAuthProfile('dev', { providerAccountId: newEmail, email: newEmail, emailVerified: false, name: null });
+        const db = await getDrizzleClient();
+        const [created] = await db.select().from(users).where(eq(users.email, newEmail));
+        expect(createSession).toHaveBeenCalledWith(created.id);
+    });
+});
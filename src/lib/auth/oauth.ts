@@ -0,0 +1,36 @@
+import { and, eq } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { getDrizzleClient } from "../database/connection";
+import { accounts, users } from "../database/schema";
+import { createSession } from "./session";
+import { OAuthEmailInUseError } from "./errors";
+import type { OAuthProfile } from "./providers";
+
+// Find the user linked to an OAuth account, linking by verified email or creating one if needed, then start a session.
+// Deliberately not a server action, only the OAuth callback route may call this with a verified profile.
+export async function signInWithOAuthProfile(provider: string, profile: OAuthProfile) {
+    const db = await getDrizzleClient();
+    const linked = await db.select().from(accounts).where(and(eq(accounts.provider, provider), eq(accounts.providerAccountId, profile.providerAccountId)));
+    let userId = linked[0]?.userId;
+
+    if (!userId) {
+        const email = profile.email.trim().toLowerCase();
+        const existing = await db.select({ id: users.id }).from(users).where(eq(users.email, email));
+        userId = existing[0]?.id;
+        if (userId && !profile.emailVerified) {
+            throw new OAuthEmailInUseError();
+        }
+        if (!userId) {
+            userId = `user_${nanoid(21)}`;
+            await db.insert(users).values({ id: userId, email, name: profile.name });
+        }
+        await db.insert(accounts).values({
+            id: `acct_${nanoid(21)}`,
+            userId,
+            provider,
+            providerAccountId: profile.providerAccountId,
+        });
+    }
+
+    await createSession(userId);
+}
@@ -0,0 +1,29 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+
+const KEY_LENGTH = 64;
+
+const deriveKey = (password: string, salt: string): Promise<Buffer> => {
+    return new Promise((resolve, reject) => {
+        scrypt(password, salt, KEY_LENGTH, (error, derivedKey) => {
+            if (error) reject(error);
+            else resolve(derivedKey);
+        });
+    });
+};
+
+// Hashes are stored as `scrypt$<salt>$<hash>` so the format can change later
+export async function hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16).toString('hex');
+    const derivedKey = await deriveKey(password, salt);
+    return `scrypt$${salt}$${derivedKey.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+    const [algorithm, salt, hash] = passwordHash.split('$');
+    if (algorithm !== 'scrypt' || !salt || !hash) {
+        return false;
+    }
+    const expected = Buffer.from(hash, 'hex');
+    const derivedKey = await deriveKey(password, salt);
+    return expected.length === derivedKey.length && timingSafeEqual(expected, derivedKey);
+}
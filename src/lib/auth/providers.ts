@@ -0,0 +1,103 @@
+// OAuth style sign-in providers. Each provider builds an authorization url and turns the
+// returned code into a profile, the callback route takes care of users, accounts and sessions.
+
+export interface OAuthProfile {
+    providerAccountId: string;
+    email: string;
+    // Only a provider that checked the user owns the email may say so, unverified profiles never link to existing users
+    emailVerified: boolean;
+    name: string | null;
+}
+
+export interface OAuthProvider {
+    id: string;
+    name: string;
+    getAuthorizationUrl(state: string, redirectUri: string): string;
+    exchangeCode(code: string, redirectUri: string): Promise<OAuthProfile>;
+}
+
+const githubProvider: OAuthProvider = {
+    id: 'github',
+    name: 'GitHub',
+    getAuthorizationUrl(state, redirectUri) {
+        const params = new URLSearchParams({
+            client_id: process.env.GITHUB_CLIENT_ID!,
+            redirect_uri: redirectUri,
+            scope: 'read:user user:email',
+            state,
+        });
+        return `https://github.com/login/oauth/authorize?${params}`;
+    },
+    async exchangeCode(code, redirectUri) {
+        const tokenResponse = await fetch('https://github.com/login/oauth/access_token', {
+            method: 'POST',
+            headers: { 'Accept': 'application/json', 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                client_id: process.env.GITHUB_CLIENT_ID,
+                client_secret: process.env.GITHUB_CLIENT_SECRET,
+                code,
+                redirect_uri: redirectUri,
+            }),
+        });
+        const { access_token } = await tokenResponse.json();
+        if (!access_token) {
+            throw new Error('GitHub did not return an access token');
+        }
+
+        const headers = { 'Authorization': `Bearer ${access_token}`, 'Accept': 'application/vnd.github+json' };
+        const profile = await (await fetch('https://api.github.com/user', { headers })).json();
+        // The public profile email isn't necessarily verified and private ones are missing from it, the emails
+        // endpoint has both
+        const emails: { email: string; primary: boolean; verified: boolean }[] = await (await fetch('https://api.github.com/user/emails', { headers })).json();
+        const verified = emails.filter(e => e.verified);
+        const email = (verified.find(e => e.email === profile.email) ?? verified.find(e => e.primary))?.email;
+        if (!email) {
+            throw new Error('GitHub account has no verified email');
+        }
+        return { providerAccountId: String(profile.id), email, emailVerified: true, name: profile.name ?? profile.login ?? null };
+    },
+};
+
+// Fake provider for local development, the "authorization server" is the /login/dev page
+// and the code is just the encoded profile it was given. Anyone can claim any email with it,
+// so its emails are unverified and it never runs in production, see assertAuthConfig.
+const devProvider: OAuthProvider = {
+    id: 'dev',
+    name: 'Dev Login',
+    getAuthorizationUrl(state, redirectUri) {
+        const params = new URLSearchParams({ state, redirect_uri: redirectUri });
+        return `/login/dev?${params}`;
+    },
+    async exchangeCode(code) {
+        const { email, name } = JSON.parse(Buffer.from(code, 'base64url').toString('utf8'));
+        if (typeof email !== 'string' || !email.includes('@')) {
+            throw new Error('Invalid dev login code');
+        }
+        return { providerAccountId: email, email, emailVerified: false, name: name || null };
+    },
+};
+
+// On outside production unless AUTH_DEV_PROVIDER=false
+const isDevProviderEnabled = () => process.env.NODE_ENV !== 'production' && process.env.AUTH_DEV_PROVIDER !== 'false';
+
+// Called when the server starts, refuses to run a production server that was asked for the dev provider
+export function assertAuthConfig() {
+    if (process.env.NODE_ENV === 'production' && process.env.AUTH_DEV_PROVIDER === 'true') {
+        throw new Error('AUTH_DEV_PROVIDER=true is not allowed in production, the dev provider lets anyone sign in with any email');
+    }
+}
+
+export function getOAuthProviders(): OAuthProvider[] {
+    const providers: OAuthProvider[] = [];
+    if (process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET) {
+        providers.push(githubProvider);
+    }
+    if (isDevProviderEnabled()) {
+        providers.push(devProvider);
+    }
+    return providers;
+}
+
+export function getOAuthProvider(id: string): OAuthProvider | undefined {
+    return getOAuthProviders().find(provider => provider.id === id);
+}
@@ -0,0 +1,63 @@
+import { cookies } from "next/headers";
+import { createHash, randomBytes } from "crypto";
+import { eq } from "drizzle-orm";
+import { getDrizzleClient } from "../database/connection";
+import { sessions } from "../database/schema";
+import { SESSION_COOKIE } from "./cookies";
+
+const SESSION_DURATION_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// Only the hash of the token is stored, so a leaked sessions table can't be replayed
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export async function createSession(userId: string) {
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + SESSION_DURATION_MS);
+    const db = await getDrizzleClient();
+    await db.insert(sessions).values({
+        id: hashToken(token),
+        userId,
+        expiresAt: expiresAt.toISOString(),
+    });
+
+    const cookieStore = await cookies();
+    cookieStore.set(SESSION_COOKIE, token, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        expires: expiresAt,
+    });
+}
+
+// Resolve the session cookie to a user id, returns null if missing or expired
+export async function getSessionUserId(): Promise<string | null> {
+    const cookieStore = await cookies();
+    const token = cookieStore.get(SESSION_COOKIE)?.value;
+    if (!token) {
+        return null;
+    }
+
+    const db = await getDrizzleClient();
+    const result = await db.select().from(sessions).where(eq(sessions.id, hashToken(token)));
+    if (result.length === 0) {
+        return null;
+    }
+
+    const session = result[0];
+    if (new Date(session.expiresAt).getTime() < Date.now()) {
+        await db.delete(sessions).where(eq(sessions.id, session.id));
+        return null;
+    }
+    return session.userId;
+}
+
+export async function destroySession() {
+    const cookieStore = await cookies();
+    const token = cookieStore.get(SESSION_COOKIE)?.value;
+    if (token) {
+        const db = await getDrizzleClient();
+        await db.delete(sessions).where(eq(sessions.id, hashToken(token)));
+    }
+    cookieStore.delete(SESSION_COOKIE);
+}
@@ -1,4 +1,26 @@
 'use server'
-export async function getUser() {
-    return 'test_user'; //TODO: Get user from database
-}
\ No newline at end of file
+import { eq } from "drizzle-orm";
+import { getDrizzleClient } from "../database/connection";
+import { users } from "../database/schema";
+import { getSessionUserId } from "./session";
+import { UnauthorizedError } from "./errors";
+
+// Resolve the current session to a user id, throws UnauthorizedError when signed out
+export async function getUser(): Promise<string> {
+    const userId = await getSessionUserId();
+    if (!userId) {
+        throw new UnauthorizedError();
+    }
+    return userId;
+}
+
+// Public profile of the signed in user, null when signed out
+export async function getCurrentUser(): Promise<{ id: string; email: string; name: string | null } | null> {
+    const userId = await getSessionUserId();
+    if (!userId) {
+        return null;
+    }
+    const db = await getDrizzleClient();
+    const result = await db.select({ id: users.id, email: users.email, name: users.name }).from(users).where(eq(users.id, userId));
+    return result[0] ?? null;
+}
@@ -1,10 +1,12 @@
 'use server'
-import { eq, desc, and, asc} from "drizzle-orm";
-import { getDrizzleClient, getTursoClient } from "./connection";
+import { eq, desc, asc} from "drizzle-orm";
+import { getDrizzleClient } from "./connection";
 import { conversations, messages, type Conversation, type Message } from "./schema";
-import { getUser } from "../auth/user";
 import type { UIDataTypes, UIMessage, UIMessagePart, UITools } from "ai";
 import { saveMessages } from "./messages";
+import { withoutSensitiveMemoryValues } from "./memoryRedaction";
+import { getScope } from "./scoped";
+import { searchMessages as searchMessageIndex, type MessageSearchResult } from "./messageSearch";
 import { generateTitle } from "../ai/serverFunctions/generateTitle";
 
 
@@ -29,9 +31,12 @@ async function generateTitleIfNotProvided(uiMessages: UIMessage[]): Promise<stri
 
 
 export async function doesConversationExist(conversationId: string): Promise<{ exists: boolean; error?: string }> {
-  const db = await getDrizzleClient();
-  const conversation = await db.select().from(conversations).where(eq(conversations.id, conversationId));
-  return { exists: conversation.length > 0 };
+  try {
+    const scope = await getScope();
+    return { exists: await scope.claimConversation(conversationId) };
+  } catch (error) {
+    return { exists: false, error: error instanceof Error ? error.message : String(error) };
+  }
 }
 
 
@@ -39,7 +44,7 @@ export async function createNewConversation(firstMessage: UIMessage, conversatio
   const startTime = Date.now();
   try {
     const db = await getDrizzleClient();
-    const userId = await getUser();
+    const { userId } = await getScope();
     // Generate title from first user message if not provided
     const finalTitle = await generateTitleIfNotProvided([firstMessage]);
     const now = new Date().toISOString();
@@ -68,11 +73,17 @@ export async function createNewConversation(firstMessage: UIMessage, conversatio
 export async function saveConversation(conversationId: string, messages: UIMessage[]): Promise<{ success: boolean; error?: string }> {
   const startTime = Date.now();
   try {
-    if(!(await doesConversationExist(conversationId)).exists){
-      await createNewConversation(messages[0], conversationId);
+    const scope = await getScope();
+    // Throws NotFoundOrForbidden if the id belongs to someone else's conversation
+    if (!(await scope.claimConversation(conversationId))) {
+      const created = await createNewConversation(messages[0], conversationId);
+      if (!created.success) {
+        return { success: false, error: created.error };
+      }
     }
 
-    await saveMessages(messages, conversationId);
+    // Values of sensitive memories are taken out of the memory tool parts first, messages aren't encrypted
+    await saveMessages(await withoutSensitiveMemoryValues(scope, messages), conversationId, scope);
 
     return { success: true };
   } catch (error) {
@@ -88,23 +99,20 @@ export async function loadConversation(conversationId: string): Promise<{
   error?: string;
 }> {
   try {
-    const userId = await getUser();
+    const scope = await getScope();
     const db = await getDrizzleClient();
 
-    // Get conversation metadata
-    const conversationResult = await db.select().from(conversations).where(and(eq(conversations.id, conversationId), eq(conversations.userId, userId)));
-    /* `SELECT * FROM conversations WHERE id = ? AND user_id = ?`,
-    [conversationId, userId]
-  ); */
+    // Get conversation metadata, throws NotFoundOrForbidden for missing or foreign conversations
+    const conversation = await scope.requireConversation(conversationId);
 
-    if (conversationResult.length === 0) {
-      return { messages: [], success: false, error: 'Conversation not found' };
+    // Opening the conversation reads whatever the coach sent on its own
+    if (conversation.unreadCount > 0) {
+      await db.update(conversations).set({ unreadCount: 0 }).where(scope.where(conversations, eq(conversations.id, conversationId)));
+      conversation.unreadCount = 0;
     }
 
-    const conversation = conversationResult[0]
-
     // Get messages ordered by messageIndex
-    const messagesResult = await db.select().from(messages).where(eq(messages.conversationId, conversationId)).orderBy(asc(messages.messageIndex));
+    const messagesResult = await db.select().from(messages).where(scope.where(messages, eq(messages.conversationId, conversationId))).orderBy(asc(messages.messageIndex));
 
     const uiMessages: UIMessage[] = messagesResult.map((row: Message) => ({
       id: row.id,
@@ -135,9 +143,9 @@ export async function getUserConversations(): Promise<{
   error?: string;
 }> {
   try {
-    const userId = await getUser();
+    const scope = await getScope();
     const db = await getDrizzleClient();
-    const result = await db.select().from(conversations).where(eq(conversations.userId, userId)).orderBy(desc(conversations.lastMessageAt));
+    const result = await db.select().from(conversations).where(scope.where(conversations)).orderBy(desc(conversations.lastMessageAt));
 
 
     return { conversations: result, success: true };
@@ -157,23 +165,13 @@ export async function deleteConversation(conversationId: string): Promise<{
   error?: string;
 }> {
   try {
-    const userId = await getUser();
-    const turso = await getTursoClient();
+    const scope = await getScope();
+    const db = await getDrizzleClient();
     // Verify ownership
-    const result = await turso.execute(
-      `SELECT id FROM conversations WHERE id = ? AND user_id = ?`,
-      [conversationId, userId]
-    );
-
-    if (result.rows.length === 0) {
-      return { success: false, error: 'Conversation not found' };
-    }
+    await scope.requireConversation(conversationId);
 
     // Delete conversation (cascade will delete messages)
-    await turso.execute(
-      `DELETE FROM conversations WHERE id = ? AND user_id = ?`,
-      [conversationId, userId]
-    );
+    await db.delete(conversations).where(scope.where(conversations, eq(conversations.id, conversationId)));
 
     return { success: true };
   } catch (error) {
@@ -191,13 +189,11 @@ export async function updateConversationTitle(
   title: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
-    const userId = await getUser();
-    const turso = await getTursoClient();
-    const result = await turso.execute(`
-      UPDATE conversations 
-      SET title = ?, updated_at = ? 
-      WHERE id = ? AND user_id = ?
-    `, [title, new Date().toISOString(), conversationId, userId]);
+    const scope = await getScope();
+    const db = await getDrizzleClient();
+    const result = await db.update(conversations)
+      .set({ title, updatedAt: new Date().toISOString() })
+      .where(scope.where(conversations, eq(conversations.id, conversationId)));
 
     if (result.rowsAffected === 0) {
       return { success: false, error: 'Conversation not found' };
@@ -212,3 +208,22 @@ export async function updateConversationTitle(
     };
   }
 }
+
+// Full-text search over the user's messages, for the sidebar search box
+export async function searchMessages(query: string): Promise<{
+  results: MessageSearchResult[];
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    const scope = await getScope();
+    return { results: await searchMessageIndex(scope, String(query).slice(0, 200)), success: true };
+  } catch (error) {
+    console.error('Error searching messages:', error);
+    return {
+      results: [],
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
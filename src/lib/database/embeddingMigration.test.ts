@@ -0,0 +1,129 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTestUser } from "@/test/fixtures";
+import type { EmbeddingProvider } from "../ai/embeddings";
+import { createHashingEmbeddingProvider } from "../ai/embeddings/hashing";
+import { createLibsqlMemoryStore } from "../ai/tools/memory/stores/libsql";
+import type { MemoryStore } from "../ai/tools/memory/stores/types";
+import { getTursoClient } from "./connection";
+import { reembedMemories } from "./embeddingMigration";
+import { listMemoryRevisions } from "./memoryRevisions";
+import type { OwnerScope } from "./scoped";
+
+// The provider the memory table is moved to, switched by the tests. The swap rebuilds the shared test table, so the
+// last test moves it back to the configured provider for the files that run after this one
+const configured = createHashingEmbeddingProvider(Number(process.env.EMBEDDING_DIMENSIONS) || 1536);
+const narrow: EmbeddingProvider = { ...createHashingEmbeddingProvider(8), id: 'hashing/v1-narrow' };
+let current: EmbeddingProvider = configured;
+
+vi.mock("../ai/embeddings", async (importOriginal) => ({
+    ...await importOriginal<typeof import("../ai/embeddings")>(),
+    getEmbeddingProvider: () => current,
+    generateEmbedding: (text: string) => current.embed(text),
+}));
+
+const embeddingWidth = async () => {
+    const turso = await getTursoClient();
+    const { rows } = await turso.execute(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'memory'`);
+    return Number(/`embedding`\s+F32_BLOB\((\d+)\)/.exec(rows[0].sql as string)?.[1]);
+};
+
+const memoryRows = async (userId: string) => {
+    const turso = await getTursoClient();
+    const { rows } = await turso.execute(`SELECT id, key, embedding_model FROM memory WHERE user_id = ? ORDER BY id`, [userId]);
+    return rows.map(row => ({ id: Number(row.id), key: row.key as string, embeddingModel: row.embedding_model as string }));
+};
+
+const taggedIds = async (userId: string, tag: string) => {
+    const turso = await getTursoClient();
+    const { rows } = await turso.execute(`SELECT memory_id FROM memory_tags WHERE user_id = ? AND tag = ? ORDER BY memory_id`, [userId, tag]);
+    return rows.map(row => Number(row.memory_id));
+};
+
+const fullTextIds = async (match: string) => {
+    const turso = await getTursoClient();
+    const { rows } = await turso.execute(`SELECT rowid FROM memory_fts WHERE memory_fts MATCH ? ORDER BY rowid`, [match]);
+    return rows.map(row => Number(row.rowid));
+};
+
+describe('swapping in re-embedded memories', () => {
+    let scope: OwnerScope;
+    let store: MemoryStore;
+
+    beforeEach(async () => {
+        scope = await createTestUser();
+        store = createLibsqlMemoryStore(scope.userId);
+    });
+
+    afterAll(async () => {
+        current = configured;
+        vi.restoreAllMocks();
+        if (await embeddingWidth() !== configured.dimensions) {
+            await reembedMemories();
+        }
+    });
+
+    it('keeps ids, tags, revisions and full text search, and changes the width', async () => {
+        await store.store({ key: 'hobby', value: 'The user plays chess', tags: ['leisure'] });
+        await store.store({ key: 'running', value: 'Runs three times a week', tags: ['fitness', 'habit'] });
+        await store.update({ key: 'running', value: 'Runs four times a week', tags: ['fitness', 'habit'] });
+        const before = await memoryRows(scope.userId);
+        const revisions = await listMemoryRevisions(scope, 'running');
+
+        current = narrow;
+        const report = await reembedMemories();
+
+        expect(report).toMatchObject({ swapped: true, pending: 0, migration: { status: 'completed' } });
+        expect(await embeddingWidth()).toBe(8);
+        expect(await memoryRows(scope.userId)).toEqual(before.map(row => ({ ...row, embeddingModel: narrow.id })));
+        expect(await listMemoryRevisions(scope, 'running')).toEqual(revisions);
+        const [hobby, running] = before;
+        expect(await taggedIds(scope.userId, 'fitness')).toEqual([running.id]);
+        expect(await fullTextIds('chess')).toContain(hobby.id);
+        expect((await store.searchByKey('running', true, 1))[0].value).toBe('Runs four times a week');
+
+        // The triggers were recreated with the table
+        await store.store({ key: 'cooking', value: 'Cooks lasagne on Sundays', tags: ['nutrition', 'habit'] });
+        const [cooking] = (await memoryRows(scope.userId)).filter(row => row.key === 'cooking');
+        expect(cooking.id).toBeGreaterThan(running.id);
+        expect(await taggedIds(scope.userId, 'habit')).toEqual([running.id, cooking.id]);
+        expect(await fullTextIds('lasagne')).toEqual([cooking.id]);
+        await store.forget({ key: 'cooking' });
+        expect(await taggedIds(scope.userId, 'nutrition')).toEqual([]);
+        expect(await fullTextIds('lasagne')).toEqual([]);
+
+        // Vectors of the old width no longer fit
+        current = configured;
+        await expect(store.store({ key: 'wide', value: 'Too wide', tags: [] })).rejects.toThrow();
+    });
+
+    it('rolls back when a memory is written while the swap runs', async () => {
+        // Starts from the narrow table the test above swapped in and moves it back
+        current = narrow;
+        await store.store({ key: 'hobby', value: 'The user plays chess', tags: ['leisure'] });
+        const turso = await getTursoClient();
+        const batch = turso.batch.bind(turso);
+        vi.spyOn(turso, 'batch').mockImplementation(async (statements, mode) => {
+            // Lands after the last batch was embedded and before the swap transaction starts
+            if (statements.some(statement => typeof statement === 'string' && statement.includes('memory_next'))) {
+                await turso.execute(
+                    `INSERT INTO memory (key, value, tags, user_id, embedding) VALUES (?, ?, ?, ?, vector32(?))`,
+                    ['late', 'Written mid-run', '["late"]', scope.userId, JSON.stringify(await narrow.embed('Written mid-run'))],
+                );
+            }
+            return batch(statements, mode);
+        });
+
+        current = configured;
+        await expect(reembedMemories()).rejects.toThrow('Memories changed while swapping, run the command again to embed them');
+        vi.mocked(turso.batch).mockRestore();
+
+        expect(await embeddingWidth()).toBe(8);
+        expect((await memoryRows(scope.userId)).map(row => row.key)).toEqual(['hobby', 'late']);
+        expect(await taggedIds(scope.userId, 'late')).toHaveLength(1);
+
+        const report = await reembedMemories();
+        expect(report).toMatchObject({ swapped: true, pending: 0 });
+        expect(await embeddingWidth()).toBe(configured.dimensions);
+        expect(new Set((await memoryRows(scope.userId)).map(row => row.embeddingModel))).toEqual(new Set([configured.id]));
+    });
+});
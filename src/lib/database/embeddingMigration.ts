@@ -0,0 +1,212 @@
+import { eq } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import type { InStatement } from "@libsql/client";
+import { getDrizzleClient, getTursoClient } from "./connection";
+import { embeddingMigrations, type EmbeddingMigration } from "./schema";
+import { decryptForUser } from "./encryption";
+import { generateEmbedding, getEmbeddingProvider } from "../ai/embeddings";
+
+// Moves every memory to the configured embedding provider, run from scripts/reembed.ts. New vectors go into a shadow
+// table sized for the provider, batch by batch, so a run can stop at any point and pick up where it left off. Once
+// every memory has one, the memory table is rebuilt around them in a single transaction, the way drizzle-kit rebuilds
+// SQLite tables, since the width of an F32_BLOB column can't be altered in place
+
+const SHADOW_TABLE = 'memory_embedding_shadow';
+const DEFAULT_BATCH_SIZE = 50;
+
+export interface ReembedOptions {
+    // Only embed this user's memories. The swap still waits until everyone's are done
+    userId?: string;
+    // The most memories to embed in this run
+    limit?: number;
+    batchSize?: number;
+    // Report what would happen without embedding or changing anything
+    dryRun?: boolean;
+}
+
+export interface ReembedReport {
+    embeddingModel: string;
+    dimensions: number;
+    // Memories in scope of the run, all of them unless it's limited to a user
+    total: number;
+    embedded: number;
+    // Memories in scope still waiting for a new vector
+    pending: number;
+    swapped: boolean;
+    // Every memory already uses the provider, nothing to do
+    upToDate: boolean;
+    migration?: EmbeddingMigration;
+}
+
+const count = async (query: string, args: (string | number)[] = []) => {
+    const turso = await getTursoClient();
+    const result = await turso.execute(query, args);
+    return Number(result.rows[0].count);
+};
+
+const userFilter = (userId?: string) => userId ? { where: 'AND m.user_id = ?', args: [userId] } : { where: '', args: [] };
+
+// Memories without a shadow vector, or whose value changed since theirs was made
+const pendingWhere = `(s.memory_id IS NULL OR s.value != m.value)`;
+
+const countPending = (userId?: string) => {
+    const filter = userFilter(userId);
+    return count(`
+        SELECT count(*) AS count FROM memory m LEFT JOIN ${SHADOW_TABLE} s ON s.memory_id = m.id
+        WHERE ${pendingWhere} ${filter.where}
+    `, filter.args);
+};
+
+async function getMemoryTableSql(): Promise<string> {
+    const turso = await getTursoClient();
+    const result = await turso.execute(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'memory'`);
+    return result.rows[0].sql as string;
+}
+
+const embeddingColumn = /(`embedding`\s+)F32_BLOB\((\d+)\)/;
+
+async function isUpToDate(embeddingModel: string, dimensions: number) {
+    const currentDimensions = Number(embeddingColumn.exec(await getMemoryTableSql())?.[2]);
+    const outdated = await count(`SELECT count(*) AS count FROM memory WHERE embedding_model IS NOT ?`, [embeddingModel]);
+    return currentDimensions === dimensions && outdated === 0;
+}
+
+async function getRunningMigration(): Promise<EmbeddingMigration | undefined> {
+    const db = await getDrizzleClient();
+    const [running] = await db.select().from(embeddingMigrations).where(eq(embeddingMigrations.status, 'running'));
+    return running;
+}
+
+// Resumes the running migration when it's for the same provider, otherwise starts over with a fresh shadow table
+async function startOrResume(embeddingModel: string, dimensions: number): Promise<EmbeddingMigration> {
+    const db = await getDrizzleClient();
+    const turso = await getTursoClient();
+    const running = await getRunningMigration();
+    if (running && running.embeddingModel === embeddingModel && running.dimensions === dimensions) {
+        return running;
+    }
+    if (running) {
+        await db.update(embeddingMigrations)
+            .set({ status: 'abandoned', updatedAt: new Date().toISOString() })
+            .where(eq(embeddingMigrations.id, running.id));
+    }
+    await turso.batch([
+        `DROP TABLE IF EXISTS ${SHADOW_TABLE}`,
+        // value is the memory's stored value when it was embedded, to spot memories that changed since
+        `CREATE TABLE ${SHADOW_TABLE} (memory_id INTEGER PRIMARY KEY, value TEXT NOT NULL, embedding F32_BLOB(${dimensions}) NOT NULL)`,
+    ], 'write');
+    const [migration] = await db.insert(embeddingMigrations).values({
+        id: `reembed_${nanoid(21)}`,
+        embeddingModel,
+        dimensions,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+    }).returning();
+    return migration;
+}
+
+async function embedBatch(migration: EmbeddingMigration, batchSize: number, userId?: string): Promise<number> {
+    const turso = await getTursoClient();
+    const filter = userFilter(userId);
+    const { rows } = await turso.execute(`
+        SELECT m.id, m.user_id, m.value FROM memory m LEFT JOIN ${SHADOW_TABLE} s ON s.memory_id = m.id
+        WHERE ${pendingWhere} ${filter.where}
+        ORDER BY m.id
+        LIMIT ?
+    `, [...filter.args, batchSize]);
+    const statements: InStatement[] = [];
+    for (const row of rows) {
+        // Sensitive values are encrypted at rest, the provider embeds what the memory says
+        const embedding = await generateEmbedding(decryptForUser(row.user_id as string, row.value as string));
+        statements.push({
+            sql: `INSERT OR REPLACE INTO ${SHADOW_TABLE} (memory_id, value, embedding) VALUES (?, ?, vector32(?))`,
+            args: [row.id, row.value, JSON.stringify(embedding)],
+        });
+    }
+    if (rows.length > 0) {
+        statements.push({
+            sql: `UPDATE embedding_migrations SET processed = processed + ?, updated_at = ? WHERE id = ?`,
+            args: [rows.length, new Date().toISOString(), migration.id],
+        });
+        await turso.batch(statements, 'write');
+    }
+    return rows.length;
+}
+
+// Rebuilds the memory table with the shadow vectors in one transaction. A memory written after the last batch has no
+// usable shadow vector, its NULL embedding fails the copy and the whole swap rolls back
+async function swap(migration: EmbeddingMigration) {
+    const turso = await getTursoClient();
+    const tableSql = await getMemoryTableSql();
+    const [related, columns, sequence] = await Promise.all([
+        turso.execute(`SELECT sql FROM sqlite_master WHERE tbl_name = 'memory' AND type IN ('index', 'trigger') AND sql IS NOT NULL`),
+        turso.execute(`PRAGMA table_info(memory)`),
+        turso.execute(`SELECT seq FROM sqlite_sequence WHERE name = 'memory'`),
+    ]);
+    const columnNames = columns.rows.map(column => column.name as string);
+    const copied = columnNames.map(name => {
+        if (name === 'embedding') return `CASE WHEN s.value = m.value THEN s.embedding END`;
+        if (name === 'embedding_model') return `?`;
+        return `m.\`${name}\``;
+    });
+    try {
+        await turso.batch([
+            tableSql
+                .replace(/^CREATE TABLE [`"]?memory[`"]?/, 'CREATE TABLE `memory_next`')
+                .replace(embeddingColumn, `$1F32_BLOB(${migration.dimensions})`),
+            {
+                sql: `INSERT INTO memory_next (${columnNames.map(name => `\`${name}\``).join(', ')})
+                      SELECT ${copied.join(', ')} FROM memory m LEFT JOIN ${SHADOW_TABLE} s ON s.memory_id = m.id`,
+                args: [migration.embeddingModel],
+            },
+            `DROP TABLE memory`,
+            `ALTER TABLE memory_next RENAME TO memory`,
+            // The vector index, the unique key and the full text search triggers went with the old table
+            ...related.rows.map(row => row.sql as string),
+            `INSERT INTO memory_fts (memory_fts) VALUES ('rebuild')`,
+            // Keep ids of deleted memories from being handed out again, their revisions still point at them
+            ...(sequence.rows.length > 0 ? [{ sql: `UPDATE sqlite_sequence SET seq = ? WHERE name = 'memory'`, args: [sequence.rows[0].seq] }] : []),
+            `DROP TABLE ${SHADOW_TABLE}`,
+            {
+                sql: `UPDATE embedding_migrations SET status = 'completed', completed_at = ?, updated_at = ? WHERE id = ?`,
+                args: [new Date().toISOString(), new Date().toISOString(), migration.id],
+            },
+        ], 'write');
+    } catch (error) {
+        if (error instanceof Error && error.message.includes('NOT NULL constraint failed: memory_next.embedding')) {
+            throw new Error('Memories changed while swapping, run the command again to embed them');
+        }
+        throw error;
+    }
+}
+
+export async function reembedMemories({ userId, limit = Infinity, batchSize = DEFAULT_BATCH_SIZE, dryRun = false }: ReembedOptions = {}): Promise<ReembedReport> {
+    const { id: embeddingModel, dimensions } = getEmbeddingProvider();
+    const filter = userFilter(userId);
+    const total = await count(`SELECT count(*) AS count FROM memory m WHERE 1 = 1 ${filter.where}`, filter.args);
+    const running = await getRunningMigration();
+    const resumable = running?.embeddingModel === embeddingModel && running.dimensions === dimensions ? running : undefined;
+    const report: ReembedReport = { embeddingModel, dimensions, total, embedded: 0, pending: total, swapped: false, upToDate: false, migration: resumable };
+
+    if (!resumable && await isUpToDate(embeddingModel, dimensions)) {
+        return { ...report, pending: 0, upToDate: true };
+    }
+    if (dryRun) {
+        return { ...report, pending: resumable ? await countPending(userId) : total };
+    }
+
+    const migration = await startOrResume(embeddingModel, dimensions);
+    while (report.embedded < limit) {
+        const embedded = await embedBatch(migration, Math.min(batchSize, limit - report.embedded), userId);
+        if (embedded === 0) break;
+        report.embedded += embedded;
+    }
+    report.pending = await countPending(userId);
+    if (await countPending() === 0) {
+        await swap(migration);
+        report.swapped = true;
+    }
+    const db = await getDrizzleClient();
+    const [updated] = await db.select().from(embeddingMigrations).where(eq(embeddingMigrations.id, migration.id));
+    return { ...report, migration: updated };
+}
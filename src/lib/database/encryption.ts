@@ -0,0 +1,32 @@
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from "crypto";
+
+// Encryption at rest for sensitive memory values. Every user gets their own AES-256-GCM key, derived from
+// MEMORY_ENCRYPTION_KEY (32 random bytes, base64) so there are no keys to store. Encrypted values carry a
+// prefix, readers decrypt whatever has it and pass plaintext through
+
+export const ENCRYPTED_PREFIX = 'enc:v1:';
+
+const getUserKey = (userId: string): Buffer => {
+    const masterKey = process.env.MEMORY_ENCRYPTION_KEY;
+    if (!masterKey) {
+        throw new Error('MEMORY_ENCRYPTION_KEY is not set, sensitive memories cannot be stored or read');
+    }
+    return Buffer.from(hkdfSync('sha256', Buffer.from(masterKey, 'base64'), userId, 'moach-memory', 32));
+};
+
+export const isEncrypted = (value: string) => value.startsWith(ENCRYPTED_PREFIX);
+
+export function encryptForUser(userId: string, plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', getUserKey(userId), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return ENCRYPTED_PREFIX + [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.');
+}
+
+export function decryptForUser(userId: string, value: string): string {
+    if (!isEncrypted(value)) return value;
+    const [iv, tag, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split('.').map(part => Buffer.from(part, 'base64url'));
+    const decipher = createDecipheriv('aes-256-gcm', getUserKey(userId), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,8 @@
+// Thrown when a row doesn't exist or belongs to another user. The two cases are
+// deliberately indistinguishable so callers can't probe for other users' ids.
+export class NotFoundOrForbidden extends Error {
+    constructor(public readonly resource: string, public readonly id: string | number) {
+        super(`${resource.charAt(0).toUpperCase()}${resource.slice(1)} not found`);
+        this.name = 'NotFoundOrForbidden';
+    }
+}
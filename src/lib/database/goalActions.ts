@@ -0,0 +1,49 @@
+'use server'
+import { getScope } from "./scoped";
+import { createGoal, deleteGoal, listGoals, updateGoal } from "./goals";
+import type { Goal } from "./schema";
+import { goalChangesSchema, goalCreateSchema, type GoalChanges, type GoalCreate } from "../ai/tools/goals/schemas";
+
+// Server actions behind the goals panel
+
+export async function getUserGoals(): Promise<{ goals: Goal[]; success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    return { goals: await listGoals(scope), success: true };
+  } catch (error) {
+    console.error('Error getting user goals:', error);
+    return { goals: [], success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Inputs are parsed again here, server action arguments come straight from the client
+export async function createUserGoal(input: GoalCreate): Promise<{ goal?: Goal; success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    return { goal: await createGoal(scope, goalCreateSchema.parse(input)), success: true };
+  } catch (error) {
+    console.error('Error creating goal:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function updateUserGoal(goalId: string, changes: GoalChanges): Promise<{ goal?: Goal; success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    return { goal: await updateGoal(scope, goalId, goalChangesSchema.parse(changes)), success: true };
+  } catch (error) {
+    console.error('Error updating goal:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function deleteUserGoal(goalId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    await deleteGoal(scope, goalId);
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting goal:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
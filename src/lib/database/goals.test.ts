@@ -0,0 +1,41 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createTestUser } from "@/test/fixtures";
+import { createGoal, getGoal, updateGoal } from "./goals";
+import { NotFoundOrForbidden } from "./errors";
+import type { OwnerScope } from "./scoped";
+
+describe('goal parents', () => {
+    let scope: OwnerScope;
+
+    beforeEach(async () => {
+        scope = await createTestUser();
+    });
+
+    it('moves a goal under another of the user\'s goals', async () => {
+        const parent = await createGoal(scope, { title: 'Get fit' });
+        const child = await createGoal(scope, { title: 'Run 5k' });
+        expect((await updateGoal(scope, child.id, { parentGoalId: parent.id })).parentGoalId).toBe(parent.id);
+    });
+
+    it('refuses a goal as its own parent', async () => {
+        const goal = await createGoal(scope, { title: 'Get fit' });
+        await expect(updateGoal(scope, goal.id, { parentGoalId: goal.id })).rejects.toThrow('its own parent');
+    });
+
+    it('refuses cycles through sub-goals', async () => {
+        const a = await createGoal(scope, { title: 'A' });
+        const b = await createGoal(scope, { title: 'B', parentGoalId: a.id });
+        const c = await createGoal(scope, { title: 'C', parentGoalId: b.id });
+        await expect(updateGoal(scope, a.id, { parentGoalId: b.id })).rejects.toThrow('its own sub-goal');
+        await expect(updateGoal(scope, a.id, { parentGoalId: c.id })).rejects.toThrow('its own sub-goal');
+        expect((await getGoal(scope, a.id)).parentGoalId).toBeNull();
+    });
+
+    it("refuses another user's goal as parent", async () => {
+        const other = await createTestUser();
+        const foreign = await createGoal(other, { title: 'Not yours' });
+        const goal = await createGoal(scope, { title: 'Mine' });
+        await expect(createGoal(scope, { title: 'Sub', parentGoalId: foreign.id })).rejects.toBeInstanceOf(NotFoundOrForbidden);
+        await expect(updateGoal(scope, goal.id, { parentGoalId: foreign.id })).rejects.toBeInstanceOf(NotFoundOrForbidden);
+    });
+});
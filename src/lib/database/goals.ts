@@ -0,0 +1,105 @@
+import { asc, eq } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { getDrizzleClient } from "./connection";
+import { goals, type Goal, type GoalStatus } from "./schema";
+import { NotFoundOrForbidden } from "./errors";
+import type { OwnerScope } from "./scoped";
+
+export type GoalInput = Pick<Goal, 'title'> & Partial<Pick<Goal, 'why' | 'targetDate' | 'metric' | 'targetValue' | 'currentValue' | 'parentGoalId'>>;
+export type GoalChanges = Partial<Pick<Goal, 'title' | 'why' | 'targetDate' | 'metric' | 'targetValue' | 'currentValue' | 'progressNote' | 'status' | 'parentGoalId'>>;
+
+export async function getGoal(scope: OwnerScope, goalId: string): Promise<Goal> {
+    const db = await getDrizzleClient();
+    const result = await db.select().from(goals).where(scope.where(goals, eq(goals.id, goalId)));
+    if (result.length === 0) {
+        throw new NotFoundOrForbidden('goal', goalId);
+    }
+    return result[0];
+}
+
+export async function listGoals(scope: OwnerScope, status?: GoalStatus): Promise<Goal[]> {
+    const db = await getDrizzleClient();
+    return await db.select().from(goals)
+        .where(scope.where(goals, status ? eq(goals.status, status) : undefined))
+        .orderBy(asc(goals.createdAt));
+}
+
+export async function createGoal(scope: OwnerScope, input: GoalInput): Promise<Goal> {
+    if (input.parentGoalId) {
+        // Sub-goals can only hang off the user's own goals
+        await getGoal(scope, input.parentGoalId);
+    }
+    const db = await getDrizzleClient();
+    const now = new Date().toISOString();
+    const result = await db.insert(goals).values({
+        ...input,
+        id: `goal_${nanoid(21)}`,
+        userId: scope.userId,
+        status: 'active',
+        createdAt: now,
+        updatedAt: now,
+    }).returning();
+    return result[0];
+}
+
+// Walks up from the new parent, which has to be one of the user's goals, and refuses parents inside the goal's own
+// subtree so the goals stay a tree
+async function assertValidParent(scope: OwnerScope, goalId: string, parentGoalId: string) {
+    if (parentGoalId === goalId) {
+        throw new Error('A goal cannot be its own parent');
+    }
+    const visited = new Set<string>();
+    for (let ancestorId: string | null = parentGoalId; ancestorId && !visited.has(ancestorId);) {
+        if (ancestorId === goalId) {
+            throw new Error('A goal cannot be a sub-goal of its own sub-goal');
+        }
+        visited.add(ancestorId);
+        ancestorId = (await getGoal(scope, ancestorId)).parentGoalId;
+    }
+}
+
+export async function updateGoal(scope: OwnerScope, goalId: string, changes: GoalChanges): Promise<Goal> {
+    if (changes.parentGoalId) {
+        await assertValidParent(scope, goalId, changes.parentGoalId);
+    }
+    const db = await getDrizzleClient();
+    const now = new Date().toISOString();
+    const closedAt = changes.status === undefined ? {} : { closedAt: changes.status === 'active' ? null : now };
+    const result = await db.update(goals)
+        .set({ ...changes, ...closedAt, updatedAt: now })
+        .where(scope.where(goals, eq(goals.id, goalId)))
+        .returning();
+    if (result.length === 0) {
+        throw new NotFoundOrForbidden('goal', goalId);
+    }
+    return result[0];
+}
+
+export async function deleteGoal(scope: OwnerScope, goalId: string) {
+    const db = await getDrizzleClient();
+    const result = await db.delete(goals).where(scope.where(goals, eq(goals.id, goalId)));
+    if (result.rowsAffected === 0) {
+        throw new NotFoundOrForbidden('goal', goalId);
+    }
+}
+
+// Summary of the active goals for the system prompt, empty when there are none
+export async function buildGoalsContext(scope: OwnerScope): Promise<string> {
+    const activeGoals = await listGoals(scope, 'active');
+    if (activeGoals.length === 0) {
+        return '';
+    }
+    const lines = activeGoals.map((goal) => {
+        const details = [
+            goal.why && `why: ${goal.why}`,
+            goal.targetDate && `target date: ${goal.targetDate}`,
+            goal.metric && `metric: ${goal.metric}`,
+            goal.targetValue !== null && `target: ${goal.targetValue}`,
+            goal.currentValue !== null && `current: ${goal.currentValue}`,
+            goal.progressNote && `latest progress: ${goal.progressNote}`,
+            goal.parentGoalId && `sub-goal of ${goal.parentGoalId}`,
+        ].filter(Boolean);
+        return `- [${goal.id}] ${goal.title}${details.length > 0 ? ` (${details.join('; ')})` : ''}`;
+    });
+    return `The user's active goals:\n${lines.join('\n')}`;
+}
@@ -0,0 +1,58 @@
+'use server'
+import { getScope } from "./scoped";
+import { archiveHabit, checkIn, getHabitsOverview, removeCheckIn, type HabitOverview } from "./habits";
+import { habitCreateFunction } from "../ai/tools/habits/functions";
+import type { HabitCreate } from "../ai/tools/habits/schemas";
+import { toDateKey } from "../habits/stats";
+
+// Server actions behind the habits panel, timeZone is the browser's so "today" matches the user's day
+
+export async function getUserHabits(timeZone?: string): Promise<{ habits: HabitOverview[]; today: string; success: boolean; error?: string }> {
+  const today = toDateKey(new Date(), timeZone);
+  try {
+    const scope = await getScope();
+    return { habits: await getHabitsOverview(scope, today), today, success: true };
+  } catch (error) {
+    console.error('Error getting user habits:', error);
+    return { habits: [], today, success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function createUserHabit(input: HabitCreate): Promise<{ success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    const { success, error } = await habitCreateFunction(scope, input);
+    return { success, error };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function setHabitCheckIn(habitId: string, date: string, done: boolean, timeZone?: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || date > toDateKey(new Date(), timeZone)) {
+      return { success: false, error: 'Invalid check-in date' };
+    }
+    if (done) {
+      await checkIn(scope, habitId, date);
+    } else {
+      await removeCheckIn(scope, habitId, date);
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating habit check-in:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function archiveUserHabit(habitId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    await archiveHabit(scope, habitId);
+    return { success: true };
+  } catch (error) {
+    console.error('Error archiving habit:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
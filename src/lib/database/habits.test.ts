@@ -0,0 +1,27 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createTestUser } from "@/test/fixtures";
+import { createGoal } from "./goals";
+import { createHabit, listHabits } from "./habits";
+import { NotFoundOrForbidden } from "./errors";
+import type { OwnerScope } from "./scoped";
+
+describe('habit goals', () => {
+    let scope: OwnerScope;
+
+    beforeEach(async () => {
+        scope = await createTestUser();
+    });
+
+    it("links a habit to one of the user's goals", async () => {
+        const goal = await createGoal(scope, { title: 'Get fit' });
+        const habit = await createHabit(scope, { name: 'Run', goalId: goal.id, schedule: { type: 'daily' } });
+        expect(habit.goalId).toBe(goal.id);
+    });
+
+    it("refuses to link a habit to another user's goal", async () => {
+        const other = await createTestUser();
+        const foreign = await createGoal(other, { title: 'Not yours' });
+        await expect(createHabit(scope, { name: 'Run', goalId: foreign.id, schedule: { type: 'daily' } })).rejects.toBeInstanceOf(NotFoundOrForbidden);
+        expect(await listHabits(scope)).toHaveLength(0);
+    });
+});
@@ -0,0 +1,123 @@
+import { asc, eq, gte, isNull, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { getDrizzleClient } from "./connection";
+import { goals, habitCheckins, habits, type Habit } from "./schema";
+import { NotFoundOrForbidden } from "./errors";
+import type { OwnerScope } from "./scoped";
+import { addDays, computeHabitStats, type HabitSchedule, type HabitStats } from "../habits/stats";
+
+export type HabitInput = Pick<Habit, 'name'> & Partial<Pick<Habit, 'description' | 'goalId'>> & { schedule: HabitSchedule };
+
+export interface HabitOverview {
+    habit: Habit;
+    schedule: HabitSchedule;
+    stats: HabitStats;
+    // Check-in dates inside the requested history window, for the heat-map
+    checkInDates: string[];
+}
+
+export function toSchedule(habit: Habit): HabitSchedule {
+    switch (habit.scheduleType) {
+        case 'weekly':
+            return { type: 'weekly', timesPerWeek: habit.timesPerWeek ?? 1 };
+        case 'weekdays':
+            return { type: 'weekdays', weekdays: habit.weekdays ?? [] };
+        default:
+            return { type: 'daily' };
+    }
+}
+
+export async function getHabit(scope: OwnerScope, habitId: string): Promise<Habit> {
+    const db = await getDrizzleClient();
+    const result = await db.select().from(habits).where(scope.where(habits, eq(habits.id, habitId)));
+    if (result.length === 0) {
+        throw new NotFoundOrForbidden('habit', habitId);
+    }
+    return result[0];
+}
+
+export async function listHabits(scope: OwnerScope, includeArchived: boolean = false): Promise<Habit[]> {
+    const db = await getDrizzleClient();
+    return await db.select().from(habits)
+        .where(scope.where(habits, includeArchived ? undefined : isNull(habits.archivedAt)))
+        .orderBy(asc(habits.createdAt));
+}
+
+export async function createHabit(scope: OwnerScope, { schedule, ...input }: HabitInput): Promise<Habit> {
+    const db = await getDrizzleClient();
+    if (input.goalId) {
+        // Habits can only work towards the user's own goals
+        const goal = await db.select({ id: goals.id }).from(goals).where(scope.where(goals, eq(goals.id, input.goalId)));
+        if (goal.length === 0) {
+            throw new NotFoundOrForbidden('goal', input.goalId);
+        }
+    }
+    const result = await db.insert(habits).values({
+        ...input,
+        id: `habit_${nanoid(21)}`,
+        userId: scope.userId,
+        scheduleType: schedule.type,
+        timesPerWeek: schedule.type === 'weekly' ? schedule.timesPerWeek : null,
+        weekdays: schedule.type === 'weekdays' ? schedule.weekdays : null,
+        createdAt: new Date().toISOString(),
+    }).returning();
+    return result[0];
+}
+
+export async function archiveHabit(scope: OwnerScope, habitId: string) {
+    const db = await getDrizzleClient();
+    const result = await db.update(habits)
+        .set({ archivedAt: new Date().toISOString() })
+        .where(scope.where(habits, eq(habits.id, habitId)));
+    if (result.rowsAffected === 0) {
+        throw new NotFoundOrForbidden('habit', habitId);
+    }
+}
+
+// Record that the habit was done on a day, checking in twice on the same day only updates the note
+export async function checkIn(scope: OwnerScope, habitId: string, date: string, note?: string) {
+    await getHabit(scope, habitId);
+    const db = await getDrizzleClient();
+    await db.insert(habitCheckins).values({
+        id: `chk_${nanoid(21)}`,
+        habitId,
+        userId: scope.userId,
+        date,
+        note: note ?? null,
+    }).onConflictDoUpdate({
+        target: [habitCheckins.habitId, habitCheckins.date],
+        set: { note: sql`coalesce(excluded.note, ${habitCheckins.note})` },
+    });
+}
+
+export async function removeCheckIn(scope: OwnerScope, habitId: string, date: string) {
+    const db = await getDrizzleClient();
+    await db.delete(habitCheckins).where(scope.where(habitCheckins, eq(habitCheckins.habitId, habitId), eq(habitCheckins.date, date)));
+}
+
+export async function listCheckInDates(scope: OwnerScope, habitId: string, since?: string): Promise<string[]> {
+    const db = await getDrizzleClient();
+    const result = await db.select({ date: habitCheckins.date }).from(habitCheckins)
+        .where(scope.where(habitCheckins, eq(habitCheckins.habitId, habitId), since ? gte(habitCheckins.date, since) : undefined))
+        .orderBy(asc(habitCheckins.date));
+    return result.map(row => row.date);
+}
+
+// Stats are always computed here from the check-in rows, never taken from the model
+export async function getHabitOverview(scope: OwnerScope, habit: Habit, today: string, { windowDays = 30, historyDays = 182 } = {}): Promise<HabitOverview> {
+    const allDates = await listCheckInDates(scope, habit.id);
+    const schedule = toSchedule(habit);
+    const stats = computeHabitStats(schedule, allDates, {
+        startDate: (habit.createdAt ?? today).slice(0, 10),
+        today,
+        windowDays,
+    });
+    const historyStart = addDays(today, -(historyDays - 1));
+    return { habit, schedule, stats, checkInDates: allDates.filter(date => date >= historyStart) };
+}
+
+export async function getHabitsOverview(scope: OwnerScope, today: string, options?: { windowDays?: number; historyDays?: number }): Promise<HabitOverview[]> {
+    const userHabits = await listHabits(scope);
+    return await Promise.all(userHabits.map(habit => getHabitOverview(scope, habit, today, options)));
+}
+
@@ -0,0 +1,210 @@
+import { asc, count, desc, eq, inArray, ne, sql } from "drizzle-orm";
+import { getDrizzleClient } from "./connection";
+import { memory, memoryRevisions, memoryTags } from "./schema";
+import { recordMemoryRevision, renameMemoryRevisions } from "./memoryRevisions";
+import { NotFoundOrForbidden } from "./errors";
+import type { OwnerScope } from "./scoped";
+import { decryptForUser } from "./encryption";
+import { createLibsqlMemoryStore, sealMemoryValue, upsertMemory } from "../ai/tools/memory/stores/libsql";
+import { generateEmbedding, getEmbeddingProvider } from "../ai/embeddings";
+import type { MemoryInput, MemoryRecord, MemoryTagCount } from "../ai/tools/memory/stores";
+import { canonicalizeTags } from "../ai/tools/memory/stores/tags";
+
+// Owner-scoped access to the libSQL memory table for the /memory page
+
+export interface MemoryProfile {
+    // Exactly what goes into the system prompt, empty when nothing is pinned
+    text: string;
+    included: MemoryRecord[];
+    // Pinned memories that didn't fit the budget
+    omitted: MemoryRecord[];
+    tokens: number;
+    budget: number;
+}
+
+export const MEMORY_PROFILE_TOKEN_BUDGET = Number(process.env.MEMORY_PROFILE_TOKEN_BUDGET) || 500;
+
+// Rough count, English averages about four characters per token
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export interface MemoryPage {
+    memories: MemoryRecord[];
+    total: number;
+    page: number;
+    pageSize: number;
+}
+
+// Everything but the embedding, which is large and never shown
+const memoryColumns = {
+    id: memory.id,
+    key: memory.key,
+    value: memory.value,
+    tags: memory.tags,
+    created_at: memory.createdAt,
+    conversation_id: memory.conversationId,
+    message_id: memory.messageId,
+    pinned: memory.pinned,
+    sensitivity: memory.sensitivity,
+};
+
+const toMemoryRecord = (scope: OwnerScope, row: Omit<MemoryRecord, 'tags'> & { tags: string }): MemoryRecord => ({
+    ...row,
+    value: decryptForUser(scope.userId, row.value),
+    tags: JSON.parse(row.tags),
+});
+
+// Memories carrying every one of the tags
+const hasAllTags = (tags: string[]) => tags.length === 0
+    ? undefined
+    : sql`(SELECT count(*) FROM ${memoryTags} WHERE ${memoryTags.memoryId} = ${memory.id} AND ${inArray(memoryTags.tag, tags)}) = ${tags.length}`;
+
+export async function listMemories(scope: OwnerScope, { page = 1, pageSize = 20, tags = [] }: { page?: number; pageSize?: number; tags?: string[] } = {}): Promise<MemoryPage> {
+    const db = await getDrizzleClient();
+    const where = scope.where(memory, hasAllTags(canonicalizeTags(tags)));
+    const [rows, [{ total }]] = await Promise.all([
+        db.select(memoryColumns).from(memory)
+            .where(where)
+            .orderBy(desc(memory.createdAt), desc(memory.id))
+            .limit(pageSize)
+            .offset((page - 1) * pageSize),
+        db.select({ total: count() }).from(memory).where(where),
+    ]);
+    return { memories: rows.map(row => toMemoryRecord(scope, row)), total, page, pageSize };
+}
+
+export async function getMemoriesByIds(scope: OwnerScope, memoryIds: number[]): Promise<MemoryRecord[]> {
+    const db = await getDrizzleClient();
+    const rows = await db.select(memoryColumns).from(memory).where(scope.where(memory, inArray(memory.id, memoryIds)));
+    return rows.map(row => toMemoryRecord(scope, row));
+}
+
+export async function setMemoryPinned(scope: OwnerScope, memoryId: number, pinned: boolean) {
+    const db = await getDrizzleClient();
+    const result = await db.update(memory).set({ pinned }).where(scope.where(memory, eq(memory.id, memoryId)));
+    if (result.rowsAffected === 0) {
+        throw new NotFoundOrForbidden('memory', memoryId);
+    }
+}
+
+// The user profile /api/chat puts in every system prompt, built from the pinned memories in the order they were
+// created. It stops at the first memory that would go over the budget so it can't crowd out the conversation
+export async function buildMemoryProfile(scope: OwnerScope, budget: number = MEMORY_PROFILE_TOKEN_BUDGET): Promise<MemoryProfile> {
+    const db = await getDrizzleClient();
+    const pinned = await db.select(memoryColumns).from(memory)
+        .where(scope.where(memory, eq(memory.pinned, true)))
+        .orderBy(asc(memory.id));
+    let text = "What you always know about the user:";
+    const included: MemoryRecord[] = [];
+    const omitted: MemoryRecord[] = [];
+    for (const row of pinned.map(row => toMemoryRecord(scope, row))) {
+        const line = `\n- ${row.key}: ${row.value}`;
+        if (omitted.length === 0 && estimateTokens(text + line) <= budget) {
+            text += line;
+            included.push(row);
+        } else {
+            omitted.push(row);
+        }
+    }
+    if (included.length === 0) {
+        text = '';
+    }
+    return { text, included, omitted, tokens: estimateTokens(text), budget };
+}
+
+// Sensitive memories only leave with an explicit includeSensitive, any export or sharing goes through here
+export async function exportMemories(scope: OwnerScope, { includeSensitive = false }: { includeSensitive?: boolean } = {}): Promise<MemoryRecord[]> {
+    const db = await getDrizzleClient();
+    const rows = await db.select(memoryColumns).from(memory)
+        .where(scope.where(memory, includeSensitive ? undefined : eq(memory.sensitivity, 'general')))
+        .orderBy(asc(memory.id));
+    return rows.map(row => toMemoryRecord(scope, row));
+}
+
+// Every tag the user has with how many memories carry it, most used first
+export async function listMemoryTags(scope: OwnerScope): Promise<MemoryTagCount[]> {
+    const db = await getDrizzleClient();
+    return await db.select({ tag: memoryTags.tag, count: count() }).from(memoryTags)
+        .where(scope.where(memoryTags))
+        .groupBy(memoryTags.tag)
+        .orderBy(desc(count()), memoryTags.tag);
+}
+
+export async function searchMemories(scope: OwnerScope, query: string, limit: number = 20): Promise<MemoryRecord[]> {
+    return await createLibsqlMemoryStore(scope.userId).hybridSearch(query, limit);
+}
+
+// Saving re-embeds the value so semantic search keeps matching what the memory now says
+export async function updateMemory(scope: OwnerScope, memoryId: number, { key, value, tags: requestedTags }: MemoryInput): Promise<MemoryRecord> {
+    const tags = canonicalizeTags(requestedTags);
+    const db = await getDrizzleClient();
+    const [previous] = await db.select({ ...memoryColumns, classifiedAt: memory.classifiedAt }).from(memory).where(scope.where(memory, eq(memory.id, memoryId)));
+    if (!previous) {
+        throw new NotFoundOrForbidden('memory', memoryId);
+    }
+    const clash = await db.select({ id: memory.id }).from(memory).where(scope.where(memory, eq(memory.key, key), ne(memory.id, memoryId)));
+    if (clash.length > 0) {
+        throw new Error(`Another memory already uses the key "${key}"`);
+    }
+    const { value: oldValue, tags: oldTags } = toMemoryRecord(scope, previous);
+    // A classified memory whose value stays the same keeps its sensitivity, only a new value is classified again
+    const sensitivity = oldValue === value && previous.classifiedAt ? previous.sensitivity : undefined;
+    const [embedding, sealed] = await Promise.all([generateEmbedding(value), sealMemoryValue(scope.userId, { key, value, tags }, sensitivity)]);
+    const result = await db.update(memory)
+        .set({
+            key,
+            value: sealed.value,
+            sensitivity: sealed.sensitivity,
+            classifiedAt: sealed.classifiedAt,
+            tags: JSON.stringify(tags),
+            embedding,
+            embeddingModel: getEmbeddingProvider().id,
+        })
+        .where(scope.where(memory, eq(memory.id, memoryId)))
+        .returning(memoryColumns);
+    if (result.length === 0) {
+        throw new NotFoundOrForbidden('memory', memoryId);
+    }
+    if (previous.key !== key) {
+        await renameMemoryRevisions(scope, previous.key, key);
+    }
+    if (oldValue !== value || JSON.stringify(oldTags) !== JSON.stringify(tags)) {
+        await recordMemoryRevision({
+            userId: scope.userId,
+            memoryId,
+            key,
+            change: 'update',
+            oldValue: previous.value,
+            newValue: sealed.value,
+            oldTags,
+            newTags: tags,
+            conversationId: null,
+            messageId: null,
+        });
+    }
+    return toMemoryRecord(scope, result[0]);
+}
+
+export async function deleteMemory(scope: OwnerScope, memoryId: number) {
+    const forgotten = await createLibsqlMemoryStore(scope.userId).forget({ id: memoryId });
+    if (!forgotten) {
+        throw new NotFoundOrForbidden('memory', memoryId);
+    }
+}
+
+// Puts the memory back to what the revision set it to, recreating it when it has been deleted since.
+// The rollback is itself a revision so the timeline shows it, the memory points at the revision's source again
+export async function rollbackMemory(scope: OwnerScope, revisionId: number) {
+    const db = await getDrizzleClient();
+    const [revision] = await db.select().from(memoryRevisions).where(scope.where(memoryRevisions, eq(memoryRevisions.id, revisionId)));
+    if (!revision) {
+        throw new NotFoundOrForbidden('memory revision', revisionId);
+    }
+    if (revision.newValue === null) {
+        throw new Error('This revision deleted the memory, roll back to an earlier one instead');
+    }
+    const input = { key: revision.key, value: decryptForUser(scope.userId, revision.newValue), tags: revision.newTags ?? [] };
+    await upsertMemory(scope.userId, input, await generateEmbedding(input.value), {
+        change: 'rollback',
+        source: { conversationId: revision.conversationId ?? undefined, messageId: revision.messageId ?? undefined },
+    });
+}
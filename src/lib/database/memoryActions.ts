@@ -0,0 +1,268 @@
+'use server'
+import { z } from "zod";
+import { getScope } from "./scoped";
+import { buildMemoryProfile, deleteMemory, exportMemories, listMemories, listMemoryTags, rollbackMemory, searchMemories, setMemoryPinned, updateMemory, type MemoryPage, type MemoryProfile } from "./memory";
+import { listDeletedMemoryRevisions, listMemoryRevisions } from "./memoryRevisions";
+import { applyConsolidation, planConsolidation, type ConsolidationProposal } from "./memoryConsolidation";
+import { listOpenConflicts, resolveConflict, type ConflictResolution } from "./memoryConflicts";
+import { approveProposal, getMemoryApproval, getMemoryProposals, rejectProposal, setMemoryApproval } from "./memoryProposals";
+import type { MemoryConflict, MemoryProposal, MemoryRevision } from "./schema";
+import { memoryUpdateSchema, type MemoryUpdate } from "../ai/tools/memory/schemas";
+import { getAllowedMemoryBackends, getDefaultMemoryBackend, getMemoryStore, MEMORY_BACKENDS, type MemoryBackend, type MemoryRecord } from "../ai/tools/memory/stores";
+
+// Server actions behind the /memory page
+
+const listOptionsSchema = z.object({
+  page: z.number().int().min(1).default(1),
+  pageSize: z.number().int().min(1).max(100).default(20),
+  tags: z.array(z.string()).default([]),
+});
+
+export async function getUserMemories(options: { page?: number; pageSize?: number; tags?: string[] } = {}): Promise<MemoryPage & { success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    return { ...(await listMemories(scope, listOptionsSchema.parse(options))), success: true };
+  } catch (error) {
+    console.error('Error getting memories:', error);
+    return { memories: [], total: 0, page: 1, pageSize: 20, success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function getUserMemoryTags(): Promise<{ tags: { tag: string; count: number }[]; success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    return { tags: await listMemoryTags(scope), success: true };
+  } catch (error) {
+    console.error('Error getting memory tags:', error);
+    return { tags: [], success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function searchUserMemories(query: string): Promise<{ memories: MemoryRecord[]; success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    return { memories: await searchMemories(scope, z.string().min(1).max(500).parse(query)), success: true };
+  } catch (error) {
+    console.error('Error searching memories:', error);
+    return { memories: [], success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function updateUserMemory(memoryId: number, input: MemoryUpdate): Promise<{ memory?: MemoryRecord; success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    return { memory: await updateMemory(scope, z.number().int().parse(memoryId), memoryUpdateSchema.parse(input)), success: true };
+  } catch (error) {
+    console.error('Error updating memory:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function deleteUserMemory(memoryId: number): Promise<{ success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    await deleteMemory(scope, z.number().int().parse(memoryId));
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting memory:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function setUserMemoryPinned(memoryId: number, pinned: boolean): Promise<{ success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    await setMemoryPinned(scope, z.number().int().parse(memoryId), z.boolean().parse(pinned));
+    return { success: true };
+  } catch (error) {
+    console.error('Error pinning memory:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Sensitive memories are only exported when the user asks for them
+export async function exportUserMemories(includeSensitive: boolean = false): Promise<{ memories: MemoryRecord[]; success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    return { memories: await exportMemories(scope, { includeSensitive: z.boolean().parse(includeSensitive) }), success: true };
+  } catch (error) {
+    console.error('Error exporting memories:', error);
+    return { memories: [], success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Preview of the profile /api/chat injects, built the same way
+export async function getUserMemoryProfile(): Promise<{ profile?: MemoryProfile; success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    return { profile: await buildMemoryProfile(scope), success: true };
+  } catch (error) {
+    console.error('Error building memory profile:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function getUserMemoryRevisions(key: string): Promise<{ revisions: MemoryRevision[]; success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    return { revisions: await listMemoryRevisions(scope, z.string().min(1).parse(key)), success: true };
+  } catch (error) {
+    console.error('Error getting memory revisions:', error);
+    return { revisions: [], success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function getDeletedUserMemories(): Promise<{ revisions: MemoryRevision[]; success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    return { revisions: await listDeletedMemoryRevisions(scope), success: true };
+  } catch (error) {
+    console.error('Error getting deleted memories:', error);
+    return { revisions: [], success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function rollbackUserMemory(revisionId: number): Promise<{ success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    await rollbackMemory(scope, z.number().int().parse(revisionId));
+    return { success: true };
+  } catch (error) {
+    console.error('Error rolling back memory:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Dry run, nothing changes until a proposal is passed to applyUserConsolidation
+export async function getConsolidationReport(): Promise<{ proposals: ConsolidationProposal[]; success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    return { proposals: await planConsolidation(scope), success: true };
+  } catch (error) {
+    console.error('Error planning memory consolidation:', error);
+    return { proposals: [], success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+const consolidationSchema = z.object({
+  memories: z.array(z.object({ id: z.number().int(), key: z.string(), value: z.string() })).min(2),
+  merged: memoryUpdateSchema,
+});
+
+export async function applyUserConsolidation(proposal: Pick<ConsolidationProposal, 'memories' | 'merged'>): Promise<{ success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    await applyConsolidation(scope, consolidationSchema.parse(proposal));
+    return { success: true };
+  } catch (error) {
+    console.error('Error applying memory consolidation:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function getUserMemoryConflicts(): Promise<{ conflicts: MemoryConflict[]; success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    return { conflicts: await listOpenConflicts(scope), success: true };
+  } catch (error) {
+    console.error('Error getting memory conflicts:', error);
+    return { conflicts: [], success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function resolveUserMemoryConflict(conflictId: string, resolution: ConflictResolution): Promise<{ success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    await resolveConflict(scope, z.string().parse(conflictId), z.enum(['keepNew', 'keepExisting', 'keepBoth']).parse(resolution));
+    return { success: true };
+  } catch (error) {
+    console.error('Error resolving memory conflict:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function getUserMemoryApproval(): Promise<{ enabled: boolean; success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    return { enabled: await getMemoryApproval(scope), success: true };
+  } catch (error) {
+    console.error('Error getting memory approval setting:', error);
+    return { enabled: false, success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function setUserMemoryApproval(enabled: boolean): Promise<{ success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    await setMemoryApproval(scope, z.boolean().parse(enabled));
+    return { success: true };
+  } catch (error) {
+    console.error('Error setting memory approval:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function getUserMemoryProposals(proposalIds: string[]): Promise<{ proposals: MemoryProposal[]; success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    return { proposals: await getMemoryProposals(scope, z.array(z.string()).max(100).parse(proposalIds)), success: true };
+  } catch (error) {
+    console.error('Error getting memory proposals:', error);
+    return { proposals: [], success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Edits replace what the coach proposed before it's written
+export async function approveUserMemoryProposal(proposalId: string, edits?: MemoryUpdate): Promise<{ proposal?: MemoryProposal; success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    return { proposal: await approveProposal(scope, z.string().parse(proposalId), memoryUpdateSchema.optional().parse(edits)), success: true };
+  } catch (error) {
+    console.error('Error approving memory proposal:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function rejectUserMemoryProposal(proposalId: string): Promise<{ proposal?: MemoryProposal; success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    return { proposal: await rejectProposal(scope, z.string().parse(proposalId)), success: true };
+  } catch (error) {
+    console.error('Error rejecting memory proposal:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Backends the memory selector in the chat offers, the ones the deployment lets requests pick
+export async function getMemoryBackendOptions(): Promise<{ backends: MemoryBackend[]; defaultBackend: MemoryBackend }> {
+  return { backends: getAllowedMemoryBackends(), defaultBackend: getDefaultMemoryBackend() };
+}
+
+// Values of the recalled memories MemoryDisplay shows, sensitive ones are saved in the chat without them
+export async function getUserMemoriesByKey(keys: string[], backend?: string): Promise<{ memories: MemoryRecord[]; success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    const store = getMemoryStore(z.enum(MEMORY_BACKENDS).optional().parse(backend), scope.userId);
+    const results = await Promise.all(z.array(z.string().min(1)).max(100).parse(keys).map((key) => store.searchByKey(key, true, 1)));
+    return { memories: results.flat(), success: true };
+  } catch (error) {
+    console.error('Error getting memories by key:', error);
+    return { memories: [], success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// The Forget action in MemoryDisplay, runs against the backend the conversation uses
+export async function forgetUserMemory(key: string, backend?: string): Promise<{ memory?: MemoryRecord; success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    const store = getMemoryStore(z.enum(MEMORY_BACKENDS).optional().parse(backend), scope.userId);
+    const forgotten = await store.forget({ key: z.string().min(1).parse(key) });
+    if (!forgotten) {
+      return { success: false, error: `No memory found with key "${key}"` };
+    }
+    return { memory: forgotten, success: true };
+  } catch (error) {
+    console.error('Error forgetting memory:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
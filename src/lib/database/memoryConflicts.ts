@@ -0,0 +1,83 @@
+import { and, desc, eq, or } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { getDrizzleClient } from "./connection";
+import { memoryConflicts, type MemoryConflict } from "./schema";
+import { NotFoundOrForbidden } from "./errors";
+import { decryptForUser, encryptForUser } from "./encryption";
+import type { OwnerScope } from "./scoped";
+import { createLibsqlMemoryStore } from "../ai/tools/memory/stores/libsql";
+import type { MemorySource } from "../ai/tools/memory/stores";
+
+export type MemoryConflictInput = Pick<MemoryConflict, 'key' | 'value' | 'conflictingKey' | 'conflictingValue' | 'explanation'>;
+
+// keepNew forgets the memory that was there first, keepExisting the one that was being stored
+export type ConflictResolution = 'keepNew' | 'keepExisting' | 'keepBoth';
+
+const involvesKey = (key: string) => or(eq(memoryConflicts.key, key), eq(memoryConflicts.conflictingKey, key));
+
+// Either value may be sensitive and the new one isn't classified yet, so both are stored encrypted
+const decryptConflict = (scope: OwnerScope, conflict: MemoryConflict): MemoryConflict => ({
+    ...conflict,
+    value: decryptForUser(scope.userId, conflict.value),
+    conflictingValue: decryptForUser(scope.userId, conflict.conflictingValue),
+});
+
+// A pair that already has an open conflict isn't recorded twice, in either direction
+export async function recordMemoryConflicts(scope: OwnerScope, conflicts: MemoryConflictInput[], source: MemorySource = {}) {
+    const db = await getDrizzleClient();
+    for (const conflict of conflicts) {
+        const existing = await db.select({ id: memoryConflicts.id }).from(memoryConflicts).where(scope.where(
+            memoryConflicts,
+            eq(memoryConflicts.status, 'open'),
+            or(
+                and(eq(memoryConflicts.key, conflict.key), eq(memoryConflicts.conflictingKey, conflict.conflictingKey)),
+                and(eq(memoryConflicts.key, conflict.conflictingKey), eq(memoryConflicts.conflictingKey, conflict.key)),
+            ),
+        ));
+        if (existing.length > 0) continue;
+        await db.insert(memoryConflicts).values({
+            ...conflict,
+            value: encryptForUser(scope.userId, conflict.value),
+            conflictingValue: encryptForUser(scope.userId, conflict.conflictingValue),
+            id: `conflict_${nanoid(21)}`,
+            userId: scope.userId,
+            conversationId: source.conversationId ?? null,
+            messageId: source.messageId ?? null,
+        });
+    }
+}
+
+export async function listOpenConflicts(scope: OwnerScope): Promise<MemoryConflict[]> {
+    const db = await getDrizzleClient();
+    const conflicts = await db.select().from(memoryConflicts)
+        .where(scope.where(memoryConflicts, eq(memoryConflicts.status, 'open')))
+        .orderBy(desc(memoryConflicts.createdAt));
+    return conflicts.map(conflict => decryptConflict(scope, conflict));
+}
+
+// Forgetting either side settles the conflict, whoever forgot it decided which one was wrong
+export async function resolveConflictsForKey(scope: OwnerScope, key: string) {
+    const db = await getDrizzleClient();
+    await db.update(memoryConflicts)
+        .set({ status: 'resolved', resolvedAt: new Date().toISOString() })
+        .where(scope.where(memoryConflicts, eq(memoryConflicts.status, 'open'), involvesKey(key)));
+}
+
+// Review on the /memory page, runs against the libSQL memories
+export async function resolveConflict(scope: OwnerScope, conflictId: string, resolution: ConflictResolution) {
+    const db = await getDrizzleClient();
+    const [conflict] = await db.select().from(memoryConflicts)
+        .where(scope.where(memoryConflicts, eq(memoryConflicts.id, conflictId), eq(memoryConflicts.status, 'open')));
+    if (!conflict) {
+        throw new NotFoundOrForbidden('memory conflict', conflictId);
+    }
+    if (resolution === 'keepBoth') {
+        await db.update(memoryConflicts)
+            .set({ status: 'dismissed', resolvedAt: new Date().toISOString() })
+            .where(scope.where(memoryConflicts, eq(memoryConflicts.id, conflictId)));
+        return;
+    }
+    const forgetKey = resolution === 'keepNew' ? conflict.conflictingKey : conflict.key;
+    await createLibsqlMemoryStore(scope.userId).forget({ key: forgetKey });
+    await resolveConflictsForKey(scope, forgetKey);
+}
@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createTestUser } from "@/test/fixtures";
+import { createLibsqlMemoryStore } from "../ai/tools/memory/stores/libsql";
+import { getTursoClient } from "./connection";
+import { listMemories, setMemoryPinned } from "./memory";
+import { applyConsolidation } from "./memoryConsolidation";
+import { listMemoryRevisions } from "./memoryRevisions";
+import type { OwnerScope } from "./scoped";
+
+describe('applying a consolidation', () => {
+    let scope: OwnerScope;
+
+    beforeEach(async () => {
+        scope = await createTestUser();
+        await createLibsqlMemoryStore(scope.userId).storeMany([
+            { key: 'running', value: 'Runs three times a week', tags: ['fitness'] },
+            { key: 'jogging', value: 'Jogs on Mondays, Wednesdays and Fridays', tags: ['fitness', 'habit'] },
+            { key: 'hobby', value: 'The user plays chess', tags: ['leisure'] },
+        ]);
+    });
+
+    const memoriesByKey = async () => Object.fromEntries((await listMemories(scope)).memories.map(item => [item.key, item]));
+
+    it('writes the merged memory and forgets the rest of the cluster', async () => {
+        const { running, jogging } = await memoriesByKey();
+        await setMemoryPinned(scope, Number(jogging.id), true);
+
+        await applyConsolidation(scope, {
+            memories: [running, jogging],
+            merged: { key: 'running', value: 'Runs Mondays, Wednesdays and Fridays', tags: ['fitness', 'habit'] },
+        });
+
+        const after = await memoriesByKey();
+        expect(Object.keys(after).sort()).toEqual(['hobby', 'running']);
+        expect(after.running).toMatchObject({ id: running.id, value: 'Runs Mondays, Wednesdays and Fridays', tags: ['fitness', 'habit'], pinned: true });
+        expect(after.hobby.pinned).toBe(false);
+        expect((await listMemoryRevisions(scope, 'running')).map(revision => revision.change)).toEqual(['create', 'merge']);
+        expect(await listMemoryRevisions(scope, 'jogging')).toEqual([
+            expect.objectContaining({ change: 'create' }),
+            expect.objectContaining({ change: 'delete', memoryId: jogging.id, oldValue: jogging.value, oldTags: ['fitness', 'habit'], newValue: null }),
+        ]);
+
+        const turso = await getTursoClient();
+        const tags = await turso.execute(`SELECT memory_id FROM memory_tags WHERE user_id = ? AND tag = 'habit'`, [scope.userId]);
+        expect(tags.rows.map(row => Number(row.memory_id))).toEqual([running.id]);
+    });
+
+    it('can merge under a new key', async () => {
+        const { running, jogging } = await memoriesByKey();
+
+        await applyConsolidation(scope, {
+            memories: [running, jogging],
+            merged: { key: 'running_schedule', value: 'Runs Mondays, Wednesdays and Fridays', tags: ['fitness'] },
+        });
+
+        const after = await memoriesByKey();
+        expect(Object.keys(after).sort()).toEqual(['hobby', 'running_schedule']);
+        expect(after.running_schedule.pinned).toBe(false);
+    });
+
+    it('changes nothing when a memory changed since the report or the key is taken', async () => {
+        const { running, jogging, hobby } = await memoriesByKey();
+        const merged = { key: 'running', value: 'Runs Mondays, Wednesdays and Fridays', tags: ['fitness'] };
+
+        await expect(applyConsolidation(scope, { memories: [running, { ...jogging, value: 'Jogs daily' }], merged }))
+            .rejects.toThrow('Some of these memories changed since the report was made, run it again');
+        await expect(applyConsolidation(scope, { memories: [running, jogging], merged: { ...merged, key: 'hobby' } }))
+            .rejects.toThrow('Another memory already uses the key "hobby"');
+
+        expect(await memoriesByKey()).toEqual({ running, jogging, hobby });
+    });
+});
@@ -0,0 +1,105 @@
+import { eq, notInArray } from "drizzle-orm";
+import { getDrizzleClient, getTursoClient } from "./connection";
+import { memory } from "./schema";
+import type { OwnerScope } from "./scoped";
+import { getMemoriesByIds } from "./memory";
+import { upsertMemory } from "../ai/tools/memory/stores/libsql";
+import { generateEmbedding, getEmbeddingProvider } from "../ai/embeddings";
+import { mergeMemories } from "../ai/serverFunctions/mergeMemories";
+import type { MemoryInput, MemoryRecord } from "../ai/tools/memory/stores";
+
+// Merges near-duplicate memories, run from scripts/consolidate-memories.ts and the /memory page.
+// Planning is a dry run, nothing changes until a proposal is applied
+
+export interface ConsolidationProposal {
+    // The memories the merge replaces, as they were when the report was made
+    memories: MemoryRecord[];
+    merged: MemoryInput;
+    reason: string;
+}
+
+export interface ConsolidationOptions {
+    // Memories closer than this cosine distance land in the same cluster
+    maxDistance?: number;
+    // Each cluster costs a model call, bigger backlogs take several runs
+    maxClusters?: number;
+}
+
+const DEFAULT_MAX_DISTANCE = 0.2;
+const DEFAULT_MAX_CLUSTERS = 20;
+
+// Single linkage, memories connected through any chain of close pairs end up together
+const clusterPairs = (pairs: [number, number][]): number[][] => {
+    const parent = new Map<number, number>();
+    const find = (id: number): number => {
+        const next = parent.get(id)!;
+        if (next === id) return id;
+        const root = find(next);
+        parent.set(id, root);
+        return root;
+    };
+    for (const [a, b] of pairs) {
+        if (!parent.has(a)) parent.set(a, a);
+        if (!parent.has(b)) parent.set(b, b);
+        parent.set(find(a), find(b));
+    }
+    const clusters = new Map<number, number[]>();
+    for (const id of parent.keys()) {
+        const root = find(id);
+        clusters.set(root, [...(clusters.get(root) ?? []), id]);
+    }
+    return [...clusters.values()].sort((a, b) => b.length - a.length);
+};
+
+// Pairs of the user's memories whose embeddings are closer than maxDistance, among those the current provider embedded
+async function findClosePairs(scope: OwnerScope, maxDistance: number): Promise<[number, number][]> {
+    const turso = await getTursoClient();
+    const result = await turso.execute(`
+        SELECT a.id AS a, b.id AS b
+        FROM memory a
+        JOIN memory b ON b.user_id = a.user_id AND b.id > a.id AND b.embedding_model = a.embedding_model
+        WHERE a.user_id = ? AND a.embedding_model = ? AND vector_distance_cos(a.embedding, b.embedding) < ?
+    `, [scope.userId, getEmbeddingProvider().id, maxDistance]);
+    return result.rows.map(row => [row.a as number, row.b as number]);
+}
+
+// The dry run: clusters close memories and asks the model how to merge each one. Clusters the model
+// considers distinct are left out
+export async function planConsolidation(scope: OwnerScope, { maxDistance = DEFAULT_MAX_DISTANCE, maxClusters = DEFAULT_MAX_CLUSTERS }: ConsolidationOptions = {}): Promise<ConsolidationProposal[]> {
+    const clusters = clusterPairs(await findClosePairs(scope, maxDistance)).slice(0, maxClusters);
+    const proposals: ConsolidationProposal[] = [];
+    for (const memoryIds of clusters) {
+        const memories = await getMemoriesByIds(scope, memoryIds);
+        const { duplicate, reason, ...merged } = await mergeMemories(memories);
+        if (duplicate) {
+            proposals.push({ memories, merged, reason });
+        }
+    }
+    return proposals;
+}
+
+// Writes the canonical memory as a 'merge' revision and forgets the rest of the cluster in one transaction. The merged
+// memory is pinned when any of the cluster was. Refuses when any memory changed since the report was made, or when
+// the canonical key belongs to a memory outside the cluster
+export async function applyConsolidation(scope: OwnerScope, { memories, merged }: { memories: Pick<MemoryRecord, 'id' | 'key' | 'value'>[]; merged: MemoryInput }) {
+    const memoryIds = memories.map(item => Number(item.id));
+    const current = await getMemoriesByIds(scope, memoryIds);
+    const unchanged = current.length === memories.length && memories.every(item =>
+        current.some(found => found.id === Number(item.id) && found.key === item.key && found.value === item.value));
+    if (!unchanged) {
+        throw new Error('Some of these memories changed since the report was made, run it again');
+    }
+    const db = await getDrizzleClient();
+    const clash = await db.select({ id: memory.id }).from(memory).where(scope.where(memory, eq(memory.key, merged.key), notInArray(memory.id, memoryIds)));
+    if (clash.length > 0) {
+        throw new Error(`Another memory already uses the key "${merged.key}"`);
+    }
+    // The memory whose key survives keeps pointing at where it came from
+    const kept = current.find(item => item.key === merged.key);
+    await upsertMemory(scope.userId, merged, await generateEmbedding(merged.value), {
+        change: 'merge',
+        source: { conversationId: kept?.conversation_id ?? undefined, messageId: kept?.message_id ?? undefined },
+        pinned: current.some(item => item.pinned),
+        forget: current.filter(item => item.key !== merged.key).map(item => Number(item.id)),
+    });
+}
@@ -0,0 +1,68 @@
+import { eq, gt, lte } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { getDrizzleClient } from "./connection";
+import { memoryForgetConfirmations } from "./schema";
+import type { OwnerScope } from "./scoped";
+
+// Confirmation tokens for memory_forget_matching. Listing the matches issues one, deleting them takes it back, and it
+// only works in a later coach message than the one that listed them, so the user always gets to answer in between
+
+const CONFIRMATION_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+export interface ForgetConfirmationInput {
+    backend: string;
+    memoryIds: (string | number)[];
+    // The coach message listing the matches
+    messageId: string;
+}
+
+// Why a token can't be used, so the coach knows to list the matches again or to wait for the user
+export class ForgetConfirmationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ForgetConfirmationError';
+    }
+}
+
+export async function createForgetConfirmation(scope: OwnerScope, { backend, memoryIds, messageId }: ForgetConfirmationInput): Promise<string> {
+    const db = await getDrizzleClient();
+    const now = new Date();
+    // Expired tokens of the user go whenever a new one is made
+    await db.delete(memoryForgetConfirmations)
+        .where(scope.where(memoryForgetConfirmations, lte(memoryForgetConfirmations.expiresAt, now.toISOString())));
+    const id = `forget_${nanoid(21)}`;
+    await db.insert(memoryForgetConfirmations).values({
+        id,
+        userId: scope.userId,
+        backend,
+        memoryIds: memoryIds.map(String),
+        messageId,
+        createdAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + CONFIRMATION_TTL_MS).toISOString(),
+    });
+    return id;
+}
+
+// Uses up the token and returns the ids it covers. A token used in the message that listed the matches stays valid
+export async function consumeForgetConfirmation(scope: OwnerScope, token: string, backend: string, messageId: string): Promise<Set<string>> {
+    const db = await getDrizzleClient();
+    const where = scope.where(
+        memoryForgetConfirmations,
+        eq(memoryForgetConfirmations.id, token),
+        eq(memoryForgetConfirmations.backend, backend),
+        gt(memoryForgetConfirmations.expiresAt, new Date().toISOString()),
+    );
+    const [confirmation] = await db.select().from(memoryForgetConfirmations).where(where);
+    if (!confirmation) {
+        throw new ForgetConfirmationError('The confirmation token is unknown, expired or already used. List the matching memories again and ask the user.');
+    }
+    if (confirmation.messageId === messageId) {
+        throw new ForgetConfirmationError('Nothing was deleted. Show the user the matching memories and wait for their answer before deleting.');
+    }
+    // Deleted in one statement so a token can't be used twice
+    const [consumed] = await db.delete(memoryForgetConfirmations).where(where).returning();
+    if (!consumed) {
+        throw new ForgetConfirmationError('The confirmation token was already used. List the matching memories again and ask the user.');
+    }
+    return new Set(consumed.memoryIds);
+}
@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { createTestConversation, createTestUser } from "@/test/fixtures";
+import { detectContradictions } from "../ai/serverFunctions/detectContradictions";
+import { createInMemoryMemoryStore } from "../ai/tools/memory/stores/in-memory";
+import { approveProposal, createMemoryProposals } from "./memoryProposals";
+import { listOpenConflicts } from "./memoryConflicts";
+import { retrieveMessagesForConversation } from "./messages";
+import { getDrizzleClient } from "./connection";
+import { isEncrypted } from "./encryption";
+import { memoryConflicts, memoryProposals } from "./schema";
+import type { OwnerScope } from "./scoped";
+
+// The contradiction check asks a model
+vi.mock("../ai/serverFunctions/detectContradictions", () => ({ detectContradictions: vi.fn() }));
+
+describe('approving memory proposals', () => {
+    let scope: OwnerScope;
+    let conversationId: string;
+
+    beforeEach(async () => {
+        scope = await createTestUser();
+        conversationId = await createTestConversation(scope);
+        await createInMemoryMemoryStore(scope.userId).store({ key: 'diet', value: 'The user is vegetarian', tags: [] });
+        vi.mocked(detectContradictions).mockResolvedValue([{ key: 'diet', explanation: 'Vegetarians do not eat chicken' }]);
+    });
+
+    it('checks the approved memory for contradictions and records them', async () => {
+        const [proposal] = await createMemoryProposals(scope, 'in-memory', 'store', [{ key: 'dinner', value: 'The user is not vegetarian', tags: [] }], { conversationId, messageId: 'msg_proposal' });
+        await approveProposal(scope, proposal.id);
+
+        const [memory] = await createInMemoryMemoryStore(scope.userId).searchByKey('dinner', true, 1);
+        expect(memory.value).toBe('The user is not vegetarian');
+        const conflicts = await listOpenConflicts(scope);
+        expect(conflicts).toMatchObject([{ key: 'dinner', conflictingKey: 'diet', messageId: 'msg_proposal' }]);
+        const [report] = await retrieveMessagesForConversation(conversationId, scope);
+        expect(JSON.stringify(report.parts)).toContain('This contradicts \\"diet\\"');
+    });
+
+    it('keeps the values encrypted at rest and out of the approval message', async () => {
+        const [proposal] = await createMemoryProposals(scope, 'in-memory', 'store', [{ key: 'dinner', value: 'The user is not vegetarian', tags: [] }], { conversationId, messageId: 'msg_proposal' });
+        expect(proposal.value).toBe('The user is not vegetarian');
+        await approveProposal(scope, proposal.id);
+
+        const db = await getDrizzleClient();
+        const [storedProposal] = await db.select().from(memoryProposals).where(eq(memoryProposals.id, proposal.id));
+        expect(isEncrypted(storedProposal.value)).toBe(true);
+        const [storedConflict] = await db.select().from(memoryConflicts).where(eq(memoryConflicts.userId, scope.userId));
+        expect(isEncrypted(storedConflict.value) && isEncrypted(storedConflict.conflictingValue)).toBe(true);
+        expect(await listOpenConflicts(scope)).toMatchObject([{ value: 'The user is not vegetarian', conflictingValue: 'The user is vegetarian' }]);
+        const [report] = await retrieveMessagesForConversation(conversationId, scope);
+        expect(JSON.stringify(report.parts)).not.toContain('not vegetarian');
+    });
+});
@@ -0,0 +1,131 @@
+import { createIdGenerator, type UIMessage } from "ai";
+import { eq, inArray } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { getDrizzleClient } from "./connection";
+import { memoryProposals, users, type MemoryProposal } from "./schema";
+import { NotFoundOrForbidden } from "./errors";
+import { decryptForUser, encryptForUser } from "./encryption";
+import type { OwnerScope } from "./scoped";
+import { saveMessages } from "./messages";
+import { getMemoryStore, type MemoryInput, type MemorySource } from "../ai/tools/memory/stores";
+import { writeMemoryCheckingConflicts, type MemoryConflictReport } from "../ai/tools/memory/conflicts";
+
+// Memory writes the coach proposes while the user has memory approval turned on. Nothing reaches the memory
+// store until the user approves, from MemoryDisplay in the chat. Values are stored encrypted, they're only
+// classified once approved
+
+export type MemoryProposalOperation = MemoryProposal['operation'];
+
+const decryptProposal = (scope: OwnerScope, proposal: MemoryProposal): MemoryProposal => ({
+    ...proposal,
+    value: decryptForUser(scope.userId, proposal.value),
+});
+
+const generateMessageId = createIdGenerator({
+    prefix: 'msg_',
+    size: 21,
+});
+
+export async function getMemoryApproval(scope: OwnerScope): Promise<boolean> {
+    const db = await getDrizzleClient();
+    const result = await db.select({ memoryApproval: users.memoryApproval }).from(users).where(eq(users.id, scope.userId));
+    return result[0]?.memoryApproval ?? false;
+}
+
+export async function setMemoryApproval(scope: OwnerScope, enabled: boolean) {
+    const db = await getDrizzleClient();
+    await db.update(users).set({ memoryApproval: enabled, updatedAt: new Date().toISOString() }).where(eq(users.id, scope.userId));
+}
+
+export async function createMemoryProposals(scope: OwnerScope, backend: string, operation: MemoryProposalOperation, inputs: MemoryInput[], source: MemorySource = {}): Promise<MemoryProposal[]> {
+    if (inputs.length === 0) return [];
+    const db = await getDrizzleClient();
+    const proposals = await db.insert(memoryProposals).values(inputs.map(({ key, value, tags, validUntil }) => ({
+        id: `proposal_${nanoid(21)}`,
+        userId: scope.userId,
+        backend,
+        operation,
+        key,
+        value: encryptForUser(scope.userId, value),
+        tags,
+        validUntil: validUntil ?? null,
+        conversationId: source.conversationId ?? null,
+        messageId: source.messageId ?? null,
+        createdAt: new Date().toISOString(),
+    }))).returning();
+    return proposals.map(proposal => decryptProposal(scope, proposal));
+}
+
+// Current state of the proposals a message made, so MemoryDisplay knows which ones were already decided
+export async function getMemoryProposals(scope: OwnerScope, proposalIds: string[]): Promise<MemoryProposal[]> {
+    if (proposalIds.length === 0) return [];
+    const db = await getDrizzleClient();
+    const proposals = await db.select().from(memoryProposals).where(scope.where(memoryProposals, inArray(memoryProposals.id, proposalIds)));
+    return proposals.map(proposal => decryptProposal(scope, proposal));
+}
+
+async function decideProposal(scope: OwnerScope, proposalId: string, status: 'approved' | 'rejected', edits?: MemoryInput): Promise<MemoryProposal> {
+    const db = await getDrizzleClient();
+    // Claims the proposal in the same statement so a double click can't write it twice
+    const [decided] = await db.update(memoryProposals)
+        .set({ status, decidedAt: new Date().toISOString(), ...edits, ...(edits && { value: encryptForUser(scope.userId, edits.value) }) })
+        .where(scope.where(memoryProposals, eq(memoryProposals.id, proposalId), eq(memoryProposals.status, 'pending')))
+        .returning();
+    if (!decided) {
+        throw new NotFoundOrForbidden('memory proposal', proposalId);
+    }
+    return decryptProposal(scope, decided);
+}
+
+// The coach learns about the approval from its conversation history, like a scheduled check-in. Only the key goes
+// into the message, the value may be sensitive and messages aren't encrypted
+async function reportApproval(scope: OwnerScope, proposal: MemoryProposal, edited: boolean, conflicts: MemoryConflictReport[]) {
+    if (!proposal.conversationId) return;
+    const contradicts = conflicts.length > 0
+        ? `\nThis contradicts ${conflicts.map(conflict => `"${conflict.key}"`).join(', ')}. Which one is true?`
+        : '';
+    const message: UIMessage = {
+        id: generateMessageId(),
+        role: 'assistant',
+        parts: [{
+            type: 'text',
+            text: `${proposal.operation === 'update' ? 'Updated' : 'Saved'} memory "${proposal.key}"${edited ? ' with your edits' : ''}.${contradicts}`,
+        }],
+        metadata: { memoryProposalId: proposal.id },
+    };
+    await saveMessages([message], proposal.conversationId, scope);
+}
+
+// Writes the proposal, with the user's edits if there are any, to the store it was proposed for
+export async function approveProposal(scope: OwnerScope, proposalId: string, edits?: MemoryInput): Promise<MemoryProposal> {
+    const proposal = await decideProposal(scope, proposalId, 'approved', edits);
+    const source = {
+        conversationId: proposal.conversationId ?? undefined,
+        messageId: proposal.messageId ?? undefined,
+    };
+    const store = getMemoryStore(proposal.backend, scope.userId, source);
+    const memory = { key: proposal.key, value: proposal.value, tags: proposal.tags, validUntil: proposal.validUntil ?? undefined };
+    let conflicts: MemoryConflictReport[];
+    try {
+        // Checked like a write from the memory tools, conflicts are recorded for review
+        conflicts = await writeMemoryCheckingConflicts(store, proposal.operation, memory, { scope, source });
+    } catch (error) {
+        // Back in the queue so the user can try again
+        const db = await getDrizzleClient();
+        await db.update(memoryProposals)
+            .set({ status: 'pending', decidedAt: null })
+            .where(scope.where(memoryProposals, eq(memoryProposals.id, proposalId)));
+        throw error;
+    }
+    try {
+        await reportApproval(scope, proposal, edits !== undefined, conflicts);
+    } catch (error) {
+        // The memory is written, a conversation that was deleted since just doesn't hear about it
+        console.error('Error reporting memory approval:', error);
+    }
+    return proposal;
+}
+
+export async function rejectProposal(scope: OwnerScope, proposalId: string): Promise<MemoryProposal> {
+    return await decideProposal(scope, proposalId, 'rejected');
+}
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { UIMessage } from "ai";
+import { nanoid } from "nanoid";
+import { createTestConversation, createTestUser } from "@/test/fixtures";
+import { memoryForgetFunction, memorySearchByKeyFunction, memoryStoreFunction } from "@/lib/ai/tools/memory/functions";
+import { createLibsqlMemoryStore } from "@/lib/ai/tools/memory/stores/libsql";
+import type { MemoryStore } from "@/lib/ai/tools/memory/stores/types";
+import { saveConversation } from "./conversations";
+import { getMessages } from "./messages";
+import { getScope, type OwnerScope } from "./scoped";
+
+// Conversations are saved as a test user instead of a signed in session
+vi.mock("./scoped", async (importOriginal) => ({
+    ...await importOriginal<typeof import("./scoped")>(),
+    getScope: vi.fn(),
+}));
+
+const insulin = { key: 'medication', value: 'The user takes insulin every morning', tags: ['health'] };
+const chess = { key: 'hobby', value: 'The user plays chess', tags: ['leisure'] };
+
+const toolPart = (toolName: string, input: object, output: unknown) => ({
+    type: `tool-${toolName}`,
+    toolCallId: `call_${nanoid(8)}`,
+    state: 'output-available',
+    input,
+    output,
+}) as UIMessage['parts'][number];
+
+const assistantMessage = (...parts: UIMessage['parts']): UIMessage => ({ id: `msg_${nanoid(12)}`, role: 'assistant', parts });
+
+describe('saving conversations with memory tool parts', () => {
+    let scope: OwnerScope;
+    let store: MemoryStore;
+    let conversationId: string;
+
+    beforeEach(async () => {
+        scope = await createTestUser();
+        store = createLibsqlMemoryStore(scope.userId);
+        conversationId = await createTestConversation(scope);
+        vi.mocked(getScope).mockResolvedValue(scope);
+    });
+
+    // The parts column exactly as it is stored
+    const storedParts = async () => (await getMessages(conversationId, scope)).map(message => message.parts as string).join('\n');
+
+    it("never stores a sensitive memory's value in the parts", async () => {
+        const context = { scope };
+        const message = assistantMessage(
+            toolPart('memory_store', insulin, await memoryStoreFunction(store, insulin.key, insulin.value, insulin.tags, undefined, context)),
+            toolPart('memory_store', chess, await memoryStoreFunction(store, chess.key, chess.value, chess.tags, undefined, context)),
+            toolPart('memory_update', { ...insulin, value: 'The user takes insulin twice a day' }, { success: true }),
+            toolPart('memory_search_by_key', { keyPattern: 'medication' }, await memorySearchByKeyFunction(store, 'medication', true)),
+            { type: 'data-recalled', data: { memories: await store.searchByKey('', false, 10) } },
+            { type: 'text', text: 'Noted.' },
+        );
+
+        expect(await saveConversation(conversationId, [message])).toEqual({ success: true });
+
+        const parts = await storedParts();
+        expect(parts).not.toContain('insulin');
+        expect(parts).toContain('"key":"medication"');
+        expect(parts).toContain(chess.value);
+        expect(parts).toContain('Noted.');
+    });
+
+    it('leaves out the value of a sensitive memory that was forgotten', async () => {
+        await store.store(insulin);
+        const forgotten = await memoryForgetFunction(store, insulin.key, undefined, { scope });
+
+        await saveConversation(conversationId, [assistantMessage(toolPart('memory_forget', { key: insulin.key }, forgotten))]);
+
+        expect(await storedParts()).not.toContain('insulin');
+    });
+
+    it('leaves out the values of memories waiting for approval', async () => {
+        const proposed = await memoryStoreFunction(store, chess.key, chess.value, chess.tags, undefined, { scope, requireApproval: true });
+
+        await saveConversation(conversationId, [assistantMessage(toolPart('memory_store', chess, proposed))]);
+
+        const parts = await storedParts();
+        expect(parts).toContain('"pendingApproval":true');
+        expect(parts).not.toContain('chess');
+    });
+});
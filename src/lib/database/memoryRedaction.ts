@@ -0,0 +1,75 @@
+import type { UIMessage } from "ai";
+import { getTursoClient } from "./connection";
+import { ENCRYPTED_PREFIX } from "./encryption";
+import type { OwnerScope } from "./scoped";
+
+// Messages aren't encrypted. Before a conversation is saved, the values of memories that are encrypted at rest are
+// taken out of the memory tool calls, their results and the recalled memories. MemoryDisplay looks them up again when
+// it shows them. What the coach wrote in its reply is left as it is
+
+type MessagePart = UIMessage['parts'][number];
+
+// Memory tool calls and results, and the memories the chat route recalled
+const carriesMemories = (part: MessagePart) => part.type.startsWith('tool-memory_') || part.type === 'data-recalled';
+
+// The keys of every memory-like object in the part, a memory is anything with a key
+const collectKeys = (value: unknown, keys: Set<string>) => {
+    if (Array.isArray(value)) {
+        value.forEach(item => collectKeys(item, keys));
+    } else if (value !== null && typeof value === 'object') {
+        const fields = value as Record<string, unknown>;
+        if (typeof fields.key === 'string') keys.add(fields.key);
+        Object.values(fields).forEach(field => collectKeys(field, keys));
+    }
+};
+
+// Keys of the user's memories that are encrypted, or were before they were forgotten, which their revisions show
+async function findSensitiveKeys(scope: OwnerScope, keys: string[]): Promise<Set<string>> {
+    if (keys.length === 0) return new Set();
+    const turso = await getTursoClient();
+    const placeholders = keys.map(() => '?').join(', ');
+    const result = await turso.execute(`
+        SELECT key FROM memory WHERE user_id = ? AND key IN (${placeholders}) AND sensitivity != 'general'
+        UNION
+        SELECT key FROM memory_revisions WHERE user_id = ? AND key IN (${placeholders}) AND (old_value LIKE ? OR new_value LIKE ?)
+    `, [scope.userId, ...keys, scope.userId, ...keys, `${ENCRYPTED_PREFIX}%`, `${ENCRYPTED_PREFIX}%`]);
+    return new Set(result.rows.map(row => row.key as string));
+}
+
+interface MemoryLike {
+    key: string;
+    sensitivity?: unknown;
+}
+
+const withoutValues = (value: unknown, isSensitive: (memory: MemoryLike) => boolean): unknown => {
+    if (Array.isArray(value)) return value.map(item => withoutValues(item, isSensitive));
+    if (value === null || typeof value !== 'object') return value;
+    const copy = Object.fromEntries(Object.entries(value).map(([name, field]) => [name, withoutValues(field, isSensitive)]));
+    if (typeof copy.key === 'string' && typeof copy.value === 'string' && isSensitive(copy as unknown as MemoryLike)) {
+        delete copy.value;
+    }
+    return copy;
+};
+
+// Proposals are stored encrypted and only classified once approved, their values always go
+const isPendingApproval = (part: MessagePart) => 'output' in part
+    && typeof part.output === 'object' && part.output !== null
+    && (part.output as { pendingApproval?: boolean }).pendingApproval === true;
+
+export async function withoutSensitiveMemoryValues(scope: OwnerScope, messagesToSave: UIMessage[]): Promise<UIMessage[]> {
+    const keys = new Set<string>();
+    for (const message of messagesToSave) {
+        message.parts.filter(carriesMemories).forEach(part => collectKeys(part, keys));
+    }
+    const sensitiveKeys = await findSensitiveKeys(scope, [...keys]);
+    return messagesToSave.map(message => ({
+        ...message,
+        parts: message.parts.map(part => {
+            if (!carriesMemories(part)) return part;
+            const pending = isPendingApproval(part);
+            return withoutValues(part, memory => pending
+                || sensitiveKeys.has(memory.key)
+                || (memory.sensitivity !== undefined && memory.sensitivity !== 'general')) as MessagePart;
+        }),
+    }));
+}
@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { eq } from "drizzle-orm";
+import { createTestUser } from "@/test/fixtures";
+import { createLibsqlMemoryStore } from "../ai/tools/memory/stores/libsql";
+import type { MemoryStore } from "../ai/tools/memory/stores/types";
+import { getDrizzleClient } from "./connection";
+import { isEncrypted } from "./encryption";
+import { deleteMemory, listMemories, rollbackMemory, updateMemory } from "./memory";
+import { listDeletedMemoryRevisions, listMemoryRevisions } from "./memoryRevisions";
+import { memoryRevisions } from "./schema";
+import type { OwnerScope } from "./scoped";
+
+describe('memory revisions', () => {
+    let scope: OwnerScope;
+    let store: MemoryStore;
+
+    beforeEach(async () => {
+        scope = await createTestUser();
+        store = createLibsqlMemoryStore(scope.userId);
+        await store.store({ key: 'running', value: 'Runs three times a week', tags: ['fitness'] });
+    });
+
+    const currentMemory = async () => (await listMemories(scope)).memories[0];
+
+    it('rolls back to an earlier revision and records the rollback', async () => {
+        const { id } = await currentMemory();
+        await updateMemory(scope, Number(id), { key: 'running', value: 'Runs every day', tags: ['fitness', 'habit'] });
+        const [created, updated] = await listMemoryRevisions(scope, 'running');
+
+        await rollbackMemory(scope, created.id);
+
+        expect(await currentMemory()).toMatchObject({ id, value: 'Runs three times a week', tags: ['fitness'] });
+        const timeline = await listMemoryRevisions(scope, 'running');
+        expect(timeline.map(revision => revision.change)).toEqual(['create', 'update', 'rollback']);
+        expect(updated).toMatchObject({ memoryId: id, oldValue: 'Runs three times a week', newValue: 'Runs every day', oldTags: ['fitness'], newTags: ['fitness', 'habit'] });
+        expect(timeline[2]).toMatchObject({ memoryId: id, oldValue: 'Runs every day', newValue: 'Runs three times a week', oldTags: ['fitness', 'habit'], newTags: ['fitness'] });
+    });
+
+    it('recreates a forgotten memory from its last revision', async () => {
+        await deleteMemory(scope, Number((await currentMemory()).id));
+        const [deleted] = await listDeletedMemoryRevisions(scope);
+        expect(deleted).toMatchObject({ key: 'running', change: 'delete', oldValue: 'Runs three times a week', newValue: null });
+
+        await expect(rollbackMemory(scope, deleted.id)).rejects.toThrow('This revision deleted the memory, roll back to an earlier one instead');
+        const [created] = await listMemoryRevisions(scope, 'running');
+        await rollbackMemory(scope, created.id);
+
+        expect(await currentMemory()).toMatchObject({ key: 'running', value: 'Runs three times a week' });
+        expect(await listDeletedMemoryRevisions(scope)).toEqual([]);
+    });
+
+    it('keeps the timeline of a renamed memory under its new key', async () => {
+        const { id } = await currentMemory();
+        await updateMemory(scope, Number(id), { key: 'running_schedule', value: 'Runs three times a week', tags: ['fitness'] });
+
+        expect(await listMemoryRevisions(scope, 'running')).toEqual([]);
+        expect((await listMemoryRevisions(scope, 'running_schedule')).map(revision => revision.change)).toEqual(['create']);
+    });
+
+    it('stores the values of sensitive memories encrypted and lists them decrypted', async () => {
+        await store.store({ key: 'medication', value: 'The user takes insulin every morning', tags: [] });
+        await store.update({ key: 'medication', value: 'The user takes insulin twice a day', tags: [] });
+
+        const db = await getDrizzleClient();
+        const stored = await db.select().from(memoryRevisions).where(eq(memoryRevisions.userId, scope.userId));
+        const medication = stored.filter(revision => revision.key === 'medication');
+        expect(medication.flatMap(revision => [revision.oldValue, revision.newValue]).filter(value => value !== null).every(isEncrypted)).toBe(true);
+        expect((await listMemoryRevisions(scope, 'medication')).map(revision => revision.newValue)).toEqual([
+            'The user takes insulin every morning',
+            'The user takes insulin twice a day',
+        ]);
+    });
+});
@@ -0,0 +1,51 @@
+import { asc, desc, eq, sql } from "drizzle-orm";
+import { getDrizzleClient } from "./connection";
+import { memoryRevisions, type MemoryRevision } from "./schema";
+import type { OwnerScope } from "./scoped";
+import { decryptForUser } from "./encryption";
+
+export type MemoryRevisionInput = Omit<MemoryRevision, 'id' | 'createdAt'>;
+
+// Values of sensitive memories are stored encrypted, like on the memory itself
+const decryptRevision = (scope: OwnerScope, revision: MemoryRevision): MemoryRevision => ({
+    ...revision,
+    oldValue: revision.oldValue === null ? null : decryptForUser(scope.userId, revision.oldValue),
+    newValue: revision.newValue === null ? null : decryptForUser(scope.userId, revision.newValue),
+});
+
+// Not owner-scoped, called by the libSQL memory store which is already bound to a user. Values come in as stored
+export async function recordMemoryRevision(revision: MemoryRevisionInput) {
+    const db = await getDrizzleClient();
+    await db.insert(memoryRevisions).values(revision);
+}
+
+// The timeline of one key, oldest first
+export async function listMemoryRevisions(scope: OwnerScope, key: string): Promise<MemoryRevision[]> {
+    const db = await getDrizzleClient();
+    const revisions = await db.select().from(memoryRevisions)
+        .where(scope.where(memoryRevisions, eq(memoryRevisions.key, key)))
+        .orderBy(asc(memoryRevisions.id));
+    return revisions.map(revision => decryptRevision(scope, revision));
+}
+
+// Keys whose last change deleted them, newest first, so forgotten memories can still be restored
+export async function listDeletedMemoryRevisions(scope: OwnerScope, limit: number = 20): Promise<MemoryRevision[]> {
+    const db = await getDrizzleClient();
+    const revisions = await db.select().from(memoryRevisions)
+        .where(scope.where(
+            memoryRevisions,
+            eq(memoryRevisions.change, 'delete'),
+            sql`${memoryRevisions.id} = (SELECT max(latest.id) FROM memory_revisions latest WHERE latest.user_id = ${memoryRevisions.userId} AND latest.key = ${memoryRevisions.key})`,
+        ))
+        .orderBy(desc(memoryRevisions.id))
+        .limit(limit);
+    return revisions.map(revision => decryptRevision(scope, revision));
+}
+
+// A renamed memory takes its history along so the timeline stays under one key
+export async function renameMemoryRevisions(scope: OwnerScope, fromKey: string, toKey: string) {
+    const db = await getDrizzleClient();
+    await db.update(memoryRevisions)
+        .set({ key: toKey })
+        .where(scope.where(memoryRevisions, eq(memoryRevisions.key, fromKey)));
+}
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { createTestUser } from "@/test/fixtures";
+import { classifySensitivity } from "../ai/serverFunctions/classifySensitivity";
+import { generateEmbedding, getEmbeddingProvider } from "../ai/embeddings";
+import { createLibsqlMemoryStore } from "../ai/tools/memory/stores/libsql";
+import { getDrizzleClient, getTursoClient } from "./connection";
+import { isEncrypted } from "./encryption";
+import { sealStoredMemories } from "./memorySealing";
+import { memory, memoryRevisions } from "./schema";
+import type { OwnerScope } from "./scoped";
+
+// Classification asks a model
+vi.mock("../ai/serverFunctions/classifySensitivity", () => ({ classifySensitivity: vi.fn() }));
+
+// A memory the way versions before encryption at rest wrote it: plaintext and never classified
+const insertPlaintextMemory = async (scope: OwnerScope, key: string, value: string) => {
+    const db = await getDrizzleClient();
+    const [row] = await db.insert(memory).values({
+        key,
+        value,
+        tags: '[]',
+        userId: scope.userId,
+        embedding: await generateEmbedding(value),
+        embeddingModel: getEmbeddingProvider().id,
+    }).returning();
+    await db.insert(memoryRevisions).values({ userId: scope.userId, memoryId: row.id, key, change: 'create', newValue: value, newTags: [] });
+    return row;
+};
+
+describe('sealing memories stored before encryption', () => {
+    let scope: OwnerScope;
+
+    beforeEach(async () => {
+        scope = await createTestUser();
+        vi.clearAllMocks();
+        // The test runs classify with keywords, the backfill is about the model
+        vi.stubEnv('SENSITIVITY_CLASSIFIER', 'openai');
+        vi.mocked(classifySensitivity).mockImplementation(async ({ key }) => key === 'medication' ? 'health' : 'general');
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('encrypts the sensitive ones with their revisions and drops them from the keyword index', async () => {
+        const sensitive = await insertPlaintextMemory(scope, 'medication', 'The user takes insulin every morning');
+        const general = await insertPlaintextMemory(scope, 'hobby', 'The user plays chess');
+
+        const report = await sealStoredMemories({ userId: scope.userId });
+
+        expect(report).toMatchObject({ pending: 2, classified: 2, sealed: 1 });
+        const db = await getDrizzleClient();
+        const rows = await db.select().from(memory).where(eq(memory.userId, scope.userId));
+        expect(rows.find(row => row.id === sensitive.id)).toMatchObject({ sensitivity: 'health', classifiedAt: expect.any(String) });
+        expect(isEncrypted(rows.find(row => row.id === sensitive.id)!.value)).toBe(true);
+        expect(rows.find(row => row.id === general.id)).toMatchObject({ sensitivity: 'general', value: 'The user plays chess' });
+        const [revision] = await db.select().from(memoryRevisions).where(eq(memoryRevisions.memoryId, sensitive.id));
+        expect(isEncrypted(revision.newValue!)).toBe(true);
+
+        const turso = await getTursoClient();
+        const matches = await turso.execute(`SELECT rowid FROM memory_fts WHERE memory_fts MATCH 'insulin'`);
+        expect(matches.rows).toHaveLength(0);
+        const [stored] = await createLibsqlMemoryStore(scope.userId).searchByKey('medication', true, 1);
+        expect(stored.value).toBe('The user takes insulin every morning');
+    });
+
+    it('leaves classified memories alone on the next run', async () => {
+        await insertPlaintextMemory(scope, 'medication', 'The user takes insulin every morning');
+        await sealStoredMemories({ userId: scope.userId });
+
+        expect(await sealStoredMemories({ userId: scope.userId })).toMatchObject({ pending: 0, classified: 0, sealed: 0 });
+        expect(classifySensitivity).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,107 @@
+import { and, asc, eq, isNull, type Column } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import { getDrizzleClient, getTursoClient } from "./connection";
+import { memory, memoryConflicts, memoryProposals, memoryRevisions } from "./schema";
+import { decryptForUser, encryptForUser, isEncrypted } from "./encryption";
+import { sealMemoryValue } from "../ai/tools/memory/stores/libsql";
+
+// Encrypts what was stored in plaintext before sensitive memories were encrypted, run from scripts/seal-memories.ts.
+// Memories that were never classified (classified_at is null) are classified now, the sensitive ones are encrypted
+// along with their revisions. Conflicts and proposals are always encrypted. Stopping is safe, running it again picks
+// up the memories that are left
+
+export interface SealOptions {
+    // Only seal this user's memories
+    userId?: string;
+    // The most memories to classify in this run
+    limit?: number;
+    // Report what would happen without classifying or changing anything
+    dryRun?: boolean;
+}
+
+export interface SealReport {
+    // Memories in scope that were never classified, before the run
+    pending: number;
+    classified: number;
+    // Classified memories that turned out sensitive and were encrypted
+    sealed: number;
+    conflicts: number;
+    proposals: number;
+}
+
+const byUser = (userIdColumn: Column, userId?: string) => userId ? eq(userIdColumn, userId) : undefined;
+
+const sealRevisions = async (userId: string, memoryId: number) => {
+    const db = await getDrizzleClient();
+    const revisions = await db.select().from(memoryRevisions)
+        .where(and(eq(memoryRevisions.userId, userId), eq(memoryRevisions.memoryId, memoryId)));
+    const seal = (value: string | null) => value === null || isEncrypted(value) ? value : encryptForUser(userId, value);
+    return revisions.map(revision => db.update(memoryRevisions)
+        .set({ oldValue: seal(revision.oldValue), newValue: seal(revision.newValue) })
+        .where(eq(memoryRevisions.id, revision.id)));
+};
+
+// Classifies one memory at a time, each is written with its revisions in one transaction
+async function sealMemories(userId: string | undefined, limit: number) {
+    const db = await getDrizzleClient();
+    const rows = await db.select({ id: memory.id, userId: memory.userId, key: memory.key, value: memory.value, tags: memory.tags })
+        .from(memory)
+        .where(and(isNull(memory.classifiedAt), byUser(memory.userId, userId)))
+        .orderBy(asc(memory.id))
+        .limit(limit);
+    let classified = 0;
+    let sealed = 0;
+    for (const row of rows) {
+        // Already encrypted when the model failed and the keywords decided, those are classified again
+        const input = { key: row.key, value: decryptForUser(row.userId, row.value), tags: JSON.parse(row.tags) };
+        const { sensitivity, value, classifiedAt } = await sealMemoryValue(row.userId, input);
+        const queries: BatchItem<'sqlite'>[] = [
+            db.update(memory).set({ sensitivity, value, classifiedAt }).where(eq(memory.id, row.id)),
+            ...(sensitivity === 'general' ? [] : await sealRevisions(row.userId, row.id)),
+        ];
+        await db.batch(queries as [BatchItem<'sqlite'>, ...BatchItem<'sqlite'>[]]);
+        // Left unclassified when the keywords stood in for the model, the next run tries again
+        if (classifiedAt) classified++;
+        if (sensitivity !== 'general') sealed++;
+    }
+    return { classified, sealed };
+}
+
+async function plaintextConflicts(userId?: string) {
+    const db = await getDrizzleClient();
+    const conflicts = await db.select().from(memoryConflicts).where(byUser(memoryConflicts.userId, userId));
+    return conflicts.filter(conflict => !isEncrypted(conflict.value) || !isEncrypted(conflict.conflictingValue));
+}
+
+async function plaintextProposals(userId?: string) {
+    const db = await getDrizzleClient();
+    const proposals = await db.select().from(memoryProposals).where(byUser(memoryProposals.userId, userId));
+    return proposals.filter(proposal => !isEncrypted(proposal.value));
+}
+
+export async function sealStoredMemories({ userId, limit = Infinity, dryRun = false }: SealOptions = {}): Promise<SealReport> {
+    const db = await getDrizzleClient();
+    const pending = await db.$count(memory, and(isNull(memory.classifiedAt), byUser(memory.userId, userId)));
+    const [conflicts, proposals] = await Promise.all([plaintextConflicts(userId), plaintextProposals(userId)]);
+    const report: SealReport = { pending, classified: 0, sealed: 0, conflicts: conflicts.length, proposals: proposals.length };
+    if (dryRun) return report;
+
+    for (const conflict of conflicts) {
+        const seal = (value: string) => isEncrypted(value) ? value : encryptForUser(conflict.userId, value);
+        await db.update(memoryConflicts)
+            .set({ value: seal(conflict.value), conflictingValue: seal(conflict.conflictingValue) })
+            .where(eq(memoryConflicts.id, conflict.id));
+    }
+    for (const proposal of proposals) {
+        await db.update(memoryProposals)
+            .set({ value: encryptForUser(proposal.userId, proposal.value) })
+            .where(eq(memoryProposals.id, proposal.id));
+    }
+
+    const { classified, sealed } = await sealMemories(userId, Math.min(limit, pending));
+    // The update triggers only mark the old terms deleted, rebuilding drops the plaintext from the index for good.
+    // Every run rebuilds, one that was stopped before it got here left plaintext behind
+    const turso = await getTursoClient();
+    await turso.execute(`INSERT INTO memory_fts (memory_fts) VALUES ('rebuild')`);
+    return { ...report, classified, sealed };
+}
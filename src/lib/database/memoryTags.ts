@@ -0,0 +1,34 @@
+import { eq } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import { getDrizzleClient } from "./connection";
+import { memory } from "./schema";
+import { canonicalizeTags } from "../ai/tools/memory/stores/tags";
+
+// Rewrites the tags of memories stored before tags were canonicalized, run from scripts/canonicalize-tags.ts. The
+// memory_tags triggers follow along. Not recorded as revisions, the memories say the same thing as before
+
+export interface TagCanonicalization {
+    memoryId: number;
+    userId: string;
+    key: string;
+    from: string[];
+    to: string[];
+}
+
+export async function canonicalizeStoredTags({ dryRun = false }: { dryRun?: boolean } = {}): Promise<TagCanonicalization[]> {
+    const db = await getDrizzleClient();
+    const rows = await db.select({ id: memory.id, userId: memory.userId, key: memory.key, tags: memory.tags }).from(memory);
+    const changes = rows
+        .map(row => {
+            const from: string[] = JSON.parse(row.tags);
+            return { memoryId: row.id, userId: row.userId, key: row.key, from, to: canonicalizeTags(from) };
+        })
+        .filter(change => JSON.stringify(change.from) !== JSON.stringify(change.to));
+    if (!dryRun && changes.length > 0) {
+        const updates: BatchItem<'sqlite'>[] = changes.map(change => db.update(memory)
+            .set({ tags: JSON.stringify(change.to) })
+            .where(eq(memory.id, change.memoryId)));
+        await db.batch(updates as [BatchItem<'sqlite'>, ...BatchItem<'sqlite'>[]]);
+    }
+    return changes;
+}
@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { nanoid } from "nanoid";
+import { createTestConversation, createTestUser, textMessage } from "@/test/fixtures";
+import { searchMessages, toMatchQuery } from "./messageSearch";
+import { getMessages, saveMessages, updateMessage } from "./messages";
+import type { OwnerScope } from "./scoped";
+
+describe('searching messages', () => {
+    let alice: OwnerScope;
+    let bob: OwnerScope;
+    let conversationId: string;
+    let messageId: string;
+
+    beforeEach(async () => {
+        messageId = `msg_${nanoid(12)}`;
+        alice = await createTestUser();
+        bob = await createTestUser();
+        conversationId = await createTestConversation(alice);
+        await saveMessages([
+            textMessage('user', 'I ran a marathon today', messageId),
+            textMessage('assistant', 'Well done, how do your legs feel?'),
+        ], conversationId, alice);
+        await saveMessages([textMessage('user', 'Training for a marathon in spring')], await createTestConversation(bob), bob);
+    });
+
+    it("finds only the caller's messages, with the matches highlighted", async () => {
+        const results = await searchMessages(alice, 'marath');
+
+        expect(results).toEqual([{
+            conversationId,
+            conversationTitle: 'Test',
+            messageId,
+            messageIndex: 0,
+            role: 'user',
+            snippet: [
+                { text: 'I ran a ', highlighted: false },
+                { text: 'marathon', highlighted: true },
+                { text: ' today', highlighted: false },
+            ],
+        }]);
+        expect((await searchMessages(bob, 'marathon')).map(result => result.snippet.map(segment => segment.text).join(''))).toEqual(['Training for a marathon in spring']);
+    });
+
+    it('needs every word, the last one as a prefix', async () => {
+        expect(toMatchQuery('ran a mara')).toBe('"ran" "a" "mara"*');
+        expect(await searchMessages(alice, 'ran marathon')).toHaveLength(1);
+        expect(await searchMessages(alice, 'ran spring')).toEqual([]);
+    });
+
+    it('treats FTS syntax as plain words', async () => {
+        expect(toMatchQuery('"marathon" OR NEAR(')).toBe('"marathon" "OR" "NEAR"*');
+        expect(toMatchQuery('?! …')).toBeNull();
+        expect(await searchMessages(alice, '?!')).toEqual([]);
+        expect(await searchMessages(alice, 'marathon*')).toHaveLength(1);
+    });
+
+    it('replaces the index rows when a message is saved again', async () => {
+        await saveMessages([textMessage('user', 'I ran a half marathon today', messageId)], conversationId, alice);
+
+        const results = await searchMessages(alice, 'marathon');
+        expect(results).toHaveLength(1);
+        expect(results[0].snippet.map(segment => segment.text).join('')).toBe('I ran a half marathon today');
+    });
+
+    it('re-indexes a message edited with updateMessage', async () => {
+        const [stored] = await getMessages(conversationId, alice);
+        await updateMessage({ ...stored, parts: JSON.stringify([{ type: 'text', text: 'I swam a mile today' }]) }, alice);
+
+        expect(await searchMessages(alice, 'marathon')).toEqual([]);
+        expect((await searchMessages(alice, 'swam')).map(result => result.messageId)).toEqual([messageId]);
+    });
+});
@@ -0,0 +1,92 @@
+import type { UIMessage } from "ai";
+import type { InStatement } from "@libsql/client";
+import { getTursoClient } from "./connection";
+import type { OwnerScope } from "./scoped";
+
+// Full-text search over the messages_fts table from drizzle/0007_messages_fts.sql
+
+export interface SnippetSegment {
+    text: string;
+    highlighted: boolean;
+}
+
+export interface MessageSearchResult {
+    conversationId: string;
+    conversationTitle: string;
+    messageId: string;
+    messageIndex: number;
+    role: UIMessage['role'];
+    snippet: SnippetSegment[];
+}
+
+// Private use characters, they never show up in messages so they can't be confused with the text
+const HIGHLIGHT_START = '\uE000';
+const HIGHLIGHT_END = '\uE001';
+
+export function messageText(message: UIMessage): string {
+    return message.parts
+        .flatMap(part => part.type === 'text' ? [part.text] : [])
+        .join('\n');
+}
+
+// Replaces the index rows of the given messages, messages without text end up unindexed
+export async function indexMessages(scope: OwnerScope, messagesToIndex: UIMessage[]) {
+    if (messagesToIndex.length === 0) return;
+    const ids = messagesToIndex.map(message => message.id);
+    const statements: InStatement[] = [{
+        sql: `DELETE FROM messages_fts WHERE user_id = ? AND message_id IN (${ids.map(() => '?').join(', ')})`,
+        args: [scope.userId, ...ids],
+    }];
+    for (const message of messagesToIndex) {
+        const text = messageText(message);
+        if (text.trim()) {
+            statements.push({
+                sql: 'INSERT INTO messages_fts (text, message_id, user_id) VALUES (?, ?, ?)',
+                args: [text, message.id, scope.userId],
+            });
+        }
+    }
+    const turso = await getTursoClient();
+    await turso.batch(statements, 'write');
+}
+
+// Plain words in, FTS5 syntax out: every word has to match, the last one as a prefix so results show while typing
+export function toMatchQuery(query: string): string | null {
+    const words = query.match(/[\p{L}\p{N}]+/gu);
+    if (!words) return null;
+    return words.map((word, i) => `"${word}"${i === words.length - 1 ? '*' : ''}`).join(' ');
+}
+
+const toSegments = (snippet: string): SnippetSegment[] =>
+    snippet.split(HIGHLIGHT_START).flatMap((chunk, i) => {
+        if (i === 0) return chunk ? [{ text: chunk, highlighted: false }] : [];
+        const [match, rest] = chunk.split(HIGHLIGHT_END);
+        return [
+            { text: match, highlighted: true },
+            ...(rest ? [{ text: rest, highlighted: false }] : []),
+        ];
+    });
+
+export async function searchMessages(scope: OwnerScope, query: string, limit: number = 20): Promise<MessageSearchResult[]> {
+    const match = toMatchQuery(query);
+    if (!match) return [];
+    const turso = await getTursoClient();
+    const result = await turso.execute(`
+        SELECT m.conversation_id, c.title, m.id, m.message_index, m.role,
+               snippet(messages_fts, 0, ?, ?, '…', 12) AS snippet
+        FROM messages_fts
+        JOIN messages m ON m.id = messages_fts.message_id
+        JOIN conversations c ON c.id = m.conversation_id
+        WHERE messages_fts MATCH ? AND messages_fts.user_id = ? AND m.user_id = ?
+        ORDER BY bm25(messages_fts)
+        LIMIT ?
+    `, [HIGHLIGHT_START, HIGHLIGHT_END, match, scope.userId, scope.userId, limit]);
+    return result.rows.map(row => ({
+        conversationId: row.conversation_id as string,
+        conversationTitle: row.title as string,
+        messageId: row.id as string,
+        messageIndex: row.message_index as number,
+        role: row.role as UIMessage['role'],
+        snippet: toSegments(row.snippet as string),
+    }));
+}
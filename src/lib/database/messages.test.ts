@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { createTestConversation, createTestUser, textMessage } from "@/test/fixtures";
+import { createLibsqlMemoryStore } from "@/lib/ai/tools/memory/stores/libsql";
+import { getDrizzleClient } from "./connection";
+import { deleteConversation, loadConversation } from "./conversations";
+import { deleteMemory, getMemoriesByIds, listMemories, rollbackMemory, setMemoryPinned, updateMemory } from "./memory";
+import { listMemoryRevisions } from "./memoryRevisions";
+import { deleteMessages, getMessages, retrieveMessagesForConversation, saveMessages, updateMessage } from "./messages";
+import { NotFoundOrForbidden } from "./errors";
+import { memory } from "./schema";
+import { getScope, type OwnerScope } from "./scoped";
+
+// The conversation server actions run as whichever test user a test signs in
+vi.mock("./scoped", async (importOriginal) => ({
+    ...await importOriginal<typeof import("./scoped")>(),
+    getScope: vi.fn(),
+}));
+
+describe('owner scoping of messages', () => {
+    let alice: OwnerScope;
+    let bob: OwnerScope;
+    let conversationId: string;
+
+    beforeEach(async () => {
+        alice = await createTestUser();
+        bob = await createTestUser();
+        conversationId = await createTestConversation(alice);
+        await saveMessages([textMessage('user', 'hello'), textMessage('assistant', 'hi there')], conversationId, alice);
+    });
+
+    it('lets the owner read their messages', async () => {
+        expect(await getMessages(conversationId, alice)).toHaveLength(2);
+    });
+
+    it("refuses to read another user's conversation", async () => {
+        await expect(getMessages(conversationId, bob)).rejects.toBeInstanceOf(NotFoundOrForbidden);
+        await expect(retrieveMessagesForConversation(conversationId, bob)).rejects.toBeInstanceOf(NotFoundOrForbidden);
+    });
+
+    it("refuses to save messages into another user's conversation", async () => {
+        await expect(saveMessages([textMessage('user', 'sneaky')], conversationId, bob)).rejects.toBeInstanceOf(NotFoundOrForbidden);
+        expect(await getMessages(conversationId, alice)).toHaveLength(2);
+    });
+
+    it("refuses to overwrite another user's message by reusing its id", async () => {
+        const [existing] = await getMessages(conversationId, alice);
+        const bobsConversation = await createTestConversation(bob);
+        await expect(saveMessages([textMessage('user', 'overwritten', existing.id)], bobsConversation, bob)).rejects.toBeInstanceOf(NotFoundOrForbidden);
+        const [unchanged] = await getMessages(conversationId, alice);
+        expect(unchanged.parts).toEqual(existing.parts);
+    });
+
+    it("refuses to update another user's message", async () => {
+        const [existing] = await getMessages(conversationId, alice);
+        await expect(updateMessage({ ...existing, parts: JSON.stringify([{ type: 'text', text: 'edited' }]) }, bob)).rejects.toBeInstanceOf(NotFoundOrForbidden);
+        const [unchanged] = await getMessages(conversationId, alice);
+        expect(unchanged.parts).toEqual(existing.parts);
+    });
+
+    it('never moves a message to another owner or conversation on update', async () => {
+        const [existing] = await getMessages(conversationId, alice);
+        await updateMessage({ ...existing, userId: bob.userId, conversationId: 'elsewhere', parts: JSON.stringify([{ type: 'text', text: 'edited' }]) }, alice);
+        const [updated] = await getMessages(conversationId, alice);
+        expect(updated.userId).toBe(alice.userId);
+        expect(updated.conversationId).toBe(conversationId);
+        expect(JSON.stringify(updated.parts)).toContain('edited');
+    });
+
+    it("refuses to delete another user's messages", async () => {
+        await expect(deleteMessages(conversationId, bob)).rejects.toBeInstanceOf(NotFoundOrForbidden);
+        expect(await getMessages(conversationId, alice)).toHaveLength(2);
+    });
+
+    it('claims only conversations the user owns', async () => {
+        expect(await alice.claimConversation(conversationId)).toBe(true);
+        expect(await bob.claimConversation('conv_does_not_exist')).toBe(false);
+        await expect(bob.claimConversation(conversationId)).rejects.toBeInstanceOf(NotFoundOrForbidden);
+    });
+});
+
+describe('owner scoping of conversations', () => {
+    let alice: OwnerScope;
+    let bob: OwnerScope;
+    let conversationId: string;
+
+    beforeEach(async () => {
+        alice = await createTestUser();
+        bob = await createTestUser();
+        conversationId = await createTestConversation(alice);
+        await saveMessages([textMessage('user', 'hello')], conversationId, alice);
+    });
+
+    it("refuses to load another user's conversation", async () => {
+        vi.mocked(getScope).mockResolvedValue(bob);
+        expect(await loadConversation(conversationId)).toMatchObject({ success: false, messages: [], error: 'Conversation not found' });
+
+        vi.mocked(getScope).mockResolvedValue(alice);
+        expect(await loadConversation(conversationId)).toMatchObject({ success: true, messages: [{ parts: [{ type: 'text', text: 'hello' }] }] });
+    });
+
+    it("refuses to delete another user's conversation", async () => {
+        vi.mocked(getScope).mockResolvedValue(bob);
+        expect(await deleteConversation(conversationId)).toMatchObject({ success: false, error: 'Conversation not found' });
+        expect(await getMessages(conversationId, alice)).toHaveLength(1);
+    });
+});
+
+describe('owner scoping of memories', () => {
+    let alice: OwnerScope;
+    let bob: OwnerScope;
+    let hobbyId: number;
+
+    beforeEach(async () => {
+        alice = await createTestUser();
+        bob = await createTestUser();
+        await createLibsqlMemoryStore(alice.userId).store({ key: 'hobby', value: 'The user plays chess', tags: ['leisure'] });
+        const db = await getDrizzleClient();
+        [{ id: hobbyId }] = await db.select({ id: memory.id }).from(memory).where(eq(memory.userId, alice.userId));
+    });
+
+    const alicesMemory = async () => (await getMemoriesByIds(alice, [hobbyId]))[0];
+
+    it("never returns another user's memories by id", async () => {
+        expect(await getMemoriesByIds(bob, [hobbyId])).toEqual([]);
+        expect(await alicesMemory()).toMatchObject({ key: 'hobby', value: 'The user plays chess' });
+    });
+
+    it("refuses to update another user's memory", async () => {
+        await expect(updateMemory(bob, hobbyId, { key: 'hobby', value: 'The user plays poker', tags: [] })).rejects.toBeInstanceOf(NotFoundOrForbidden);
+        expect(await alicesMemory()).toMatchObject({ value: 'The user plays chess', tags: ['leisure'] });
+    });
+
+    it("refuses to pin another user's memory", async () => {
+        await expect(setMemoryPinned(bob, hobbyId, true)).rejects.toBeInstanceOf(NotFoundOrForbidden);
+        expect(await alicesMemory()).toMatchObject({ pinned: false });
+    });
+
+    it("refuses to delete another user's memory", async () => {
+        await expect(deleteMemory(bob, hobbyId)).rejects.toBeInstanceOf(NotFoundOrForbidden);
+        expect(await alicesMemory()).toBeDefined();
+    });
+
+    it("refuses to roll back to another user's revision", async () => {
+        const [created] = await listMemoryRevisions(alice, 'hobby');
+        await expect(rollbackMemory(bob, created.id)).rejects.toBeInstanceOf(NotFoundOrForbidden);
+        expect((await listMemories(bob)).memories).toEqual([]);
+    });
+});
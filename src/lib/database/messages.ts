@@ -1,17 +1,34 @@
 import { UIDataTypes, UIMessage, UIMessagePart, UITools } from "ai";
 import { getDrizzleClient } from "./connection";
 import { Message, messages } from "./schema";
-import { eq, desc, and, asc, sql } from "drizzle-orm";
-import { getUser } from "../auth/user";
+import { eq, and, asc, sql, inArray, ne, or } from "drizzle-orm";
+import { getScope, type OwnerScope } from "./scoped";
+import { NotFoundOrForbidden } from "./errors";
+import { indexMessages } from "./messageSearch";
 
-export async function saveMessage(message: UIMessage,conversationId: string, messageIndex: number) {
-    const userId = await getUser();
+// Message ids come from the client, refuse ids that already belong to another user or conversation
+async function assertMessagesWritable(scope: OwnerScope, messageIds: string[], conversationId: string) {
+    if (messageIds.length === 0) return;
+    const db = await getDrizzleClient();
+    const foreign = await db.select({ id: messages.id }).from(messages).where(and(
+        inArray(messages.id, messageIds),
+        or(ne(messages.userId, scope.userId), ne(messages.conversationId, conversationId)),
+    ));
+    if (foreign.length > 0) {
+        throw new NotFoundOrForbidden('message', foreign[0].id);
+    }
+}
+
+export async function saveMessage(message: UIMessage,conversationId: string, messageIndex: number, scope?: OwnerScope) {
+    scope ??= await getScope();
+    await scope.requireConversation(conversationId);
+    await assertMessagesWritable(scope, [message.id], conversationId);
     const db = await getDrizzleClient();
     const now = new Date().toISOString();
     await db.insert(messages).values({
         id: message.id,
         conversationId: conversationId,
-        userId,
+        userId: scope.userId,
         role: message.role,
         parts: JSON.stringify(message.parts),
         metadata: message.metadata ? JSON.stringify(message.metadata) : null,
@@ -22,53 +39,87 @@ export async function saveMessage(message: UIMessage,conversationId: string, mes
         set: {
           parts: sql`excluded.parts`,
           metadata: sql`excluded.metadata`,
-        }
+        },
+        setWhere: scope.where(messages, eq(messages.conversationId, conversationId)),
       });
+    await indexMessages(scope, [message]);
 }
-export async function saveMessages(messagesToSave: UIMessage[], conversationId: string) {
-    const userId = await getUser();
+// Messages already in the conversation keep their place, new ones go after the last stored message in the order given.
+// A client that hasn't seen a message the coach sent on its own, like a check-in, saves its next turn after it
+export async function saveMessages(messagesToSave: UIMessage[], conversationId: string, scope?: OwnerScope) {
+    scope ??= await getScope();
+    await scope.requireConversation(conversationId);
+    const messageIds = messagesToSave.map(message => message.id);
+    await assertMessagesWritable(scope, messageIds, conversationId);
     const db = await getDrizzleClient();
+    const stored = await db.select({ id: messages.id }).from(messages)
+        .where(scope.where(messages, eq(messages.conversationId, conversationId), inArray(messages.id, messageIds)));
+    const storedIds = new Set(stored.map(row => row.id));
+    // Counted inside the insert so a concurrent save can't take the same index
+    const nextIndex = sql`(SELECT coalesce(max(${messages.messageIndex}), -1) + 1 FROM ${messages} WHERE ${messages.conversationId} = ${conversationId})`;
+    let appended = 0;
     const now = new Date().toISOString();
-    await db.insert(messages).values(messagesToSave.map((message, index) => ({
+    await db.insert(messages).values(messagesToSave.map(message => ({
         id: message.id,
         conversationId: conversationId,
-        userId,
+        userId: scope.userId,
         role: message.role,
         parts: JSON.stringify(message.parts),
         metadata: message.metadata ? JSON.stringify(message.metadata) : null,
-        messageIndex: index,
+        // Stored messages only update their parts and metadata, the index is a placeholder
+        messageIndex: storedIds.has(message.id) ? 0 : sql`${nextIndex} + ${appended++}`,
         createdAt: now,
       }))).onConflictDoUpdate({
         target: [messages.id],
         set: {
           parts: sql`excluded.parts`,
           metadata: sql`excluded.metadata`,
-        }
+        },
+        setWhere: scope.where(messages, eq(messages.conversationId, conversationId)),
       });
+    // Keep the search index in step with the stored parts
+    await indexMessages(scope, messagesToSave);
 }
 
-export async function getMessages(conversationId: string) {
+export async function getMessages(conversationId: string, scope?: OwnerScope) {
+    scope ??= await getScope();
+    await scope.requireConversation(conversationId);
     const db = await getDrizzleClient();
-    return await db.select().from(messages).where(eq(messages.conversationId, conversationId));
+    return await db.select().from(messages).where(scope.where(messages, eq(messages.conversationId, conversationId)));
 }
 
-export async function deleteMessages(conversationId: string) {
+export async function deleteMessages(conversationId: string, scope?: OwnerScope) {
+    scope ??= await getScope();
+    await scope.requireConversation(conversationId);
     const db = await getDrizzleClient();
-    await db.delete(messages).where(eq(messages.conversationId, conversationId));
+    await db.delete(messages).where(scope.where(messages, eq(messages.conversationId, conversationId)));
 }
 
-export async function updateMessage(message: Message) {
+export async function updateMessage(message: Message, scope?: OwnerScope) {
+    scope ??= await getScope();
     const db = await getDrizzleClient();
-    await db.update(messages).set(message).where(eq(messages.id, message.id));
+    // Ownership columns are never taken from the caller
+    const { id, role, parts, metadata, messageIndex, createdAt } = message;
+    const changes = { role, parts, metadata, messageIndex, createdAt };
+    const result = await db.update(messages).set(changes).where(scope.where(messages, eq(messages.id, id)));
+    if (result.rowsAffected === 0) {
+        throw new NotFoundOrForbidden('message', id);
+    }
+    if (changes.parts !== undefined) {
+        const parts = typeof changes.parts === 'string' ? JSON.parse(changes.parts) : changes.parts;
+        await indexMessages(scope, [{ id, role: message.role, parts }]);
+    }
 }
 
-export async function retrieveMessagesForConversation(conversationId: string): Promise<UIMessage[]> {
+export async function retrieveMessagesForConversation(conversationId: string, scope?: OwnerScope): Promise<UIMessage[]> {
+    scope ??= await getScope();
+    await scope.requireConversation(conversationId);
     const db = await getDrizzleClient();
-    const messagesResult = await db.select().from(messages).where(eq(messages.conversationId, conversationId)).orderBy(asc(messages.messageIndex));
+    const messagesResult = await db.select().from(messages).where(scope.where(messages, eq(messages.conversationId, conversationId))).orderBy(asc(messages.messageIndex));
     return messagesResult.map((row: Message) => ({
         id: row.id,
         role: row.role,
         parts: JSON.parse(row.parts as unknown as string) as UIMessagePart<UIDataTypes, UITools>[],
         metadata: row.metadata ? JSON.parse(row.metadata as unknown as string) : undefined
     }));
-}
\ No newline at end of file
+}
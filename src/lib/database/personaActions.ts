@@ -0,0 +1,60 @@
+'use server'
+import { getScope } from "./scoped";
+import { createPersona, deletePersona, listPersonas, setConversationPersona, updatePersona } from "./personas";
+import type { Persona } from "./schema";
+import { personaChangesSchema, personaInputSchema, type PersonaChanges, type PersonaInput } from "../personas/schemas";
+
+// Server actions behind the persona picker and the personas page
+
+export async function getUserPersonas(): Promise<{ personas: Persona[]; success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    return { personas: await listPersonas(scope), success: true };
+  } catch (error) {
+    console.error('Error getting personas:', error);
+    return { personas: [], success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function createUserPersona(input: PersonaInput): Promise<{ persona?: Persona; success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    return { persona: await createPersona(scope, personaInputSchema.parse(input)), success: true };
+  } catch (error) {
+    console.error('Error creating persona:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function updateUserPersona(personaId: string, changes: PersonaChanges): Promise<{ persona?: Persona; success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    return { persona: await updatePersona(scope, personaId, personaChangesSchema.parse(changes)), success: true };
+  } catch (error) {
+    console.error('Error updating persona:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function deleteUserPersona(personaId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    await deletePersona(scope, personaId);
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting persona:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Only for conversations that already exist, new ones get their persona when the first reply is saved
+export async function setUserConversationPersona(conversationId: string, personaId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const scope = await getScope();
+    await setConversationPersona(scope, conversationId, personaId);
+    return { success: true };
+  } catch (error) {
+    console.error('Error setting conversation persona:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
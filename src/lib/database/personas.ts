@@ -0,0 +1,83 @@
+import { and, asc, eq, isNull, or, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { getDrizzleClient } from "./connection";
+import { conversations, personas, type Persona } from "./schema";
+import { NotFoundOrForbidden } from "./errors";
+import type { OwnerScope } from "./scoped";
+import { DEFAULT_PERSONA_ID, type PersonaChanges, type PersonaInput } from "../personas/schemas";
+
+// Built-in personas plus the user's own
+const visibleTo = (scope: OwnerScope) => or(isNull(personas.userId), eq(personas.userId, scope.userId));
+
+export async function getPersona(scope: OwnerScope, personaId: string): Promise<Persona> {
+    const db = await getDrizzleClient();
+    const result = await db.select().from(personas).where(and(visibleTo(scope), eq(personas.id, personaId)));
+    if (result.length === 0) {
+        throw new NotFoundOrForbidden('persona', personaId);
+    }
+    return result[0];
+}
+
+export async function listPersonas(scope: OwnerScope): Promise<Persona[]> {
+    const db = await getDrizzleClient();
+    return await db.select().from(personas)
+        .where(visibleTo(scope))
+        .orderBy(sql`${personas.userId} is not null`, asc(personas.createdAt));
+}
+
+export async function createPersona(scope: OwnerScope, input: PersonaInput): Promise<Persona> {
+    const db = await getDrizzleClient();
+    const now = new Date().toISOString();
+    const result = await db.insert(personas).values({
+        ...input,
+        id: `persona_${nanoid(21)}`,
+        userId: scope.userId,
+        createdAt: now,
+        updatedAt: now,
+    }).returning();
+    return result[0];
+}
+
+// Built-in personas match no row here, so they can't be changed or deleted
+export async function updatePersona(scope: OwnerScope, personaId: string, changes: PersonaChanges): Promise<Persona> {
+    const db = await getDrizzleClient();
+    const result = await db.update(personas)
+        .set({ ...changes, updatedAt: new Date().toISOString() })
+        .where(scope.where(personas, eq(personas.id, personaId)))
+        .returning();
+    if (result.length === 0) {
+        throw new NotFoundOrForbidden('persona', personaId);
+    }
+    return result[0];
+}
+
+// Conversations using the persona go back to the default
+export async function deletePersona(scope: OwnerScope, personaId: string) {
+    const db = await getDrizzleClient();
+    const result = await db.delete(personas).where(scope.where(personas, eq(personas.id, personaId)));
+    if (result.rowsAffected === 0) {
+        throw new NotFoundOrForbidden('persona', personaId);
+    }
+}
+
+// The requested persona, else the one stored on the conversation, else the default
+export async function resolvePersona(scope: OwnerScope, conversationId: string, requestedId?: string | null): Promise<Persona> {
+    if (requestedId) {
+        return await getPersona(scope, requestedId);
+    }
+    const db = await getDrizzleClient();
+    const result = await db.select({ personaId: conversations.personaId }).from(conversations)
+        .where(scope.where(conversations, eq(conversations.id, conversationId)));
+    return await getPersona(scope, result[0]?.personaId ?? DEFAULT_PERSONA_ID);
+}
+
+export async function setConversationPersona(scope: OwnerScope, conversationId: string, personaId: string) {
+    await getPersona(scope, personaId);
+    const db = await getDrizzleClient();
+    const result = await db.update(conversations)
+        .set({ personaId })
+        .where(scope.where(conversations, eq(conversations.id, conversationId)));
+    if (result.rowsAffected === 0) {
+        throw new NotFoundOrForbidden('conversation', conversationId);
+    }
+}
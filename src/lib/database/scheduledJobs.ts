@@ -0,0 +1,80 @@
+import { and, asc, eq, inArray, lte, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { getDrizzleClient } from "./connection";
+import { conversations, scheduledJobs, type ScheduledJob } from "./schema";
+import { NotFoundOrForbidden } from "./errors";
+import type { OwnerScope } from "./scoped";
+
+export type ScheduledJobInput = Pick<ScheduledJob, 'conversationId' | 'message'> & { runAt: Date };
+
+export async function createScheduledJob(scope: OwnerScope, { runAt, ...input }: ScheduledJobInput): Promise<ScheduledJob> {
+    const db = await getDrizzleClient();
+    const result = await db.insert(scheduledJobs).values({
+        ...input,
+        id: `job_${nanoid(21)}`,
+        userId: scope.userId,
+        runAt: runAt.toISOString(),
+        createdAt: new Date().toISOString(),
+    }).returning();
+    return result[0];
+}
+
+export async function listPendingJobs(scope: OwnerScope, conversationId?: string): Promise<ScheduledJob[]> {
+    const db = await getDrizzleClient();
+    return await db.select().from(scheduledJobs)
+        .where(scope.where(scheduledJobs, eq(scheduledJobs.status, 'pending'), conversationId ? eq(scheduledJobs.conversationId, conversationId) : undefined))
+        .orderBy(asc(scheduledJobs.runAt));
+}
+
+// Only jobs that haven't fired yet can be cancelled
+export async function cancelScheduledJob(scope: OwnerScope, jobId: string) {
+    const db = await getDrizzleClient();
+    const result = await db.update(scheduledJobs)
+        .set({ status: 'cancelled' })
+        .where(scope.where(scheduledJobs, eq(scheduledJobs.id, jobId), eq(scheduledJobs.status, 'pending')));
+    if (result.rowsAffected === 0) {
+        throw new NotFoundOrForbidden('scheduled job', jobId);
+    }
+}
+
+// Worker only, not owner-scoped. Marks due jobs as running in the same statement so a job fires once.
+export async function claimDueJobs(now: Date, limit: number): Promise<ScheduledJob[]> {
+    const db = await getDrizzleClient();
+    const due = db.select({ id: scheduledJobs.id }).from(scheduledJobs)
+        .where(and(eq(scheduledJobs.status, 'pending'), lte(scheduledJobs.runAt, now.toISOString())))
+        .orderBy(asc(scheduledJobs.runAt))
+        .limit(limit);
+    return await db.update(scheduledJobs)
+        .set({ status: 'running', attempts: sql`${scheduledJobs.attempts} + 1` })
+        .where(and(eq(scheduledJobs.status, 'pending'), inArray(scheduledJobs.id, due)))
+        .returning();
+}
+
+// Jobs left running by a worker that stopped mid-way get picked up again
+export async function releaseRunningJobs() {
+    const db = await getDrizzleClient();
+    await db.update(scheduledJobs).set({ status: 'pending' }).where(eq(scheduledJobs.status, 'running'));
+}
+
+export async function finishJob(jobId: string, messageId: string) {
+    const db = await getDrizzleClient();
+    await db.update(scheduledJobs)
+        .set({ status: 'done', messageId, firedAt: new Date().toISOString(), lastError: null })
+        .where(eq(scheduledJobs.id, jobId));
+}
+
+// Puts the job back for another try at retryAt, or gives up when there is none
+export async function failJob(jobId: string, error: string, retryAt?: Date) {
+    const db = await getDrizzleClient();
+    await db.update(scheduledJobs)
+        .set(retryAt ? { status: 'pending', runAt: retryAt.toISOString(), lastError: error } : { status: 'failed', lastError: error })
+        .where(eq(scheduledJobs.id, jobId));
+}
+
+// Shows the badge in the sidebar until the user opens the conversation again
+export async function markConversationUnread(scope: OwnerScope, conversationId: string) {
+    const db = await getDrizzleClient();
+    await db.update(conversations)
+        .set({ unreadCount: sql`${conversations.unreadCount} + 1`, lastMessageAt: new Date().toISOString() })
+        .where(scope.where(conversations, eq(conversations.id, conversationId)));
+}
@@ -1,5 +1,7 @@
-import { integer, text, sqliteTable, index, unique } from "drizzle-orm/sqlite-core";
+import { integer, real, text, sqliteTable, index, primaryKey, unique, type AnySQLiteColumn } from "drizzle-orm/sqlite-core";
 import { sql } from "drizzle-orm";
+import type { PersonaTone, Toolset } from "../personas/schemas";
+import { EMBEDDING_DIMENSIONS } from "../ai/embeddings/provider";
 import { customType } from "drizzle-orm/sqlite-core";
 
 // Custom type for F32_BLOB vector embeddings
@@ -29,7 +31,19 @@ export const memory = sqliteTable("memory", {
   value: text("value").notNull(),
   tags: text("tags").notNull(), // JSON string of tags array
   userId: text("user_id").notNull(),
-  embedding: float32Array("embedding", { dimensions: 1536 }).notNull(),
+  embedding: float32Array("embedding", { dimensions: EMBEDDING_DIMENSIONS }).notNull(),
+  embeddingModel: text("embedding_model"), // Id of the embedding provider that made the vector, null ones are never compared
+  // Where the current value came from. No foreign keys, the conversation is only saved once the turn that wrote the memory finishes
+  conversationId: text("conversation_id"),
+  messageId: text("message_id"),
+  pinned: integer("pinned", { mode: "boolean" }).notNull().default(false), // Pinned memories go into every system prompt, see buildMemoryProfile
+  // Anything but general is encrypted in value, see src/lib/database/encryption.ts. The embedding stays searchable
+  sensitivity: text("sensitivity", { enum: ["general", "health", "mental-health", "relationships", "financial"] }).notNull().default("general"),
+  classifiedAt: text("classified_at"), // When the sensitivity was classified, null for memories from before that, see scripts/seal-memories.ts
+  // Bumped whenever a retrieval tool returns the memory, feeds the frequency boost in stores/ranking.ts
+  lastAccessedAt: text("last_accessed_at"),
+  accessCount: integer("access_count").notNull().default(0),
+  validUntil: text("valid_until"), // ISO timestamp after which the memory no longer holds, retrieval leaves it out
   createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
 }, (table) => [
   // Unique constraint on key + user_id combination
@@ -38,12 +52,156 @@ export const memory = sqliteTable("memory", {
   index("memory_embedding_idx").on(sql`libsql_vector_idx(${table.embedding})`),
 ]);
 
+// The canonical tags of each memory one per row, for tag queries. Triggers on memory keep it in sync with memory.tags,
+// see drizzle/0017_memory_tags.sql. No foreign key, the re-embedding swap rebuilds the memory table under it
+export const memoryTags = sqliteTable("memory_tags", {
+  memoryId: integer("memory_id").notNull(),
+  userId: text("user_id").notNull(),
+  tag: text("tag").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.memoryId, table.tag] }),
+  index("memory_tags_user_tag_idx").on(table.userId, table.tag),
+]);
+
+// Every change made to a memory, oldest first by id. Rows outlive the memory so deleted memories keep their history
+export const memoryRevisions = sqliteTable("memory_revisions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: text("user_id").notNull(),
+  memoryId: integer("memory_id"), // No foreign key, the memory may be gone
+  key: text("key").notNull(),
+  change: text("change", { enum: ["create", "update", "delete", "rollback", "merge"] }).notNull(),
+  oldValue: text("old_value"), // Null for create. Encrypted like the memory's value when it is sensitive
+  newValue: text("new_value"), // Null for delete
+  oldTags: text("old_tags", { mode: "json" }).$type<string[]>(),
+  newTags: text("new_tags", { mode: "json" }).$type<string[]>(),
+  conversationId: text("conversation_id"), // Where the change came from, null for edits made on the /memory page
+  messageId: text("message_id"),
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => [
+  index("memory_revisions_user_key_idx").on(table.userId, table.key),
+]);
+
+// Memories that contradict each other, found when the coach stores one. Open until the user says which is true
+export const memoryConflicts = sqliteTable("memory_conflicts", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  key: text("key").notNull(), // The memory that was being stored
+  value: text("value").notNull(), // Both values encrypted, see src/lib/database/encryption.ts
+  conflictingKey: text("conflicting_key").notNull(), // The existing memory it contradicts
+  conflictingValue: text("conflicting_value").notNull(),
+  explanation: text("explanation").notNull(),
+  status: text("status", { enum: ["open", "resolved", "dismissed"] }).notNull().default("open"),
+  conversationId: text("conversation_id"),
+  messageId: text("message_id"),
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  resolvedAt: text("resolved_at"),
+}, (table) => [
+  index("memory_conflicts_user_status_idx").on(table.userId, table.status),
+]);
+
+// Memories memory_forget_matching listed for the user to confirm. The token only deletes them in a later turn of the
+// coach, after the user had a chance to answer
+export const memoryForgetConfirmations = sqliteTable("memory_forget_confirmations", {
+  id: text("id").primaryKey(), // The confirmation token handed to the coach
+  userId: text("user_id").notNull(),
+  backend: text("backend").notNull(), // The memory store the ids belong to
+  memoryIds: text("memory_ids", { mode: "json" }).$type<string[]>().notNull(),
+  messageId: text("message_id").notNull(), // The coach message that listed them
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  expiresAt: text("expires_at").notNull(),
+}, (table) => [
+  index("memory_forget_confirmations_user_idx").on(table.userId),
+]);
+
+// Memory writes waiting for the user, made instead of writing when the user turned on memory approval
+export const memoryProposals = sqliteTable("memory_proposals", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  backend: text("backend").notNull(), // The memory store the write goes to once approved
+  operation: text("operation", { enum: ["store", "update"] }).notNull(),
+  key: text("key").notNull(),
+  value: text("value").notNull(), // Encrypted, see src/lib/database/encryption.ts
+  tags: text("tags", { mode: "json" }).$type<string[]>().notNull(),
+  validUntil: text("valid_until"),
+  status: text("status", { enum: ["pending", "approved", "rejected"] }).notNull().default("pending"),
+  conversationId: text("conversation_id"),
+  messageId: text("message_id"), // The coach message that proposed it, approvals are reported back into its conversation
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  decidedAt: text("decided_at"),
+}, (table) => [
+  index("memory_proposals_user_status_idx").on(table.userId, table.status),
+]);
+
+// Runs of scripts/reembed.ts. A run moves every memory to a new embedding provider and is resumed until it's swapped in
+export const embeddingMigrations = sqliteTable("embedding_migrations", {
+  id: text("id").primaryKey(),
+  embeddingModel: text("embedding_model").notNull(), // Provider id the run embeds with
+  dimensions: integer("dimensions").notNull(),
+  status: text("status", { enum: ["running", "completed", "abandoned"] }).notNull().default("running"),
+  processed: integer("processed").notNull().default(0), // Memories embedded so far, counting ones embedded again after they changed
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text("updated_at").default(sql`CURRENT_TIMESTAMP`),
+  completedAt: text("completed_at"),
+});
+
+// Users table for authenticated accounts
+export const users = sqliteTable("users", {
+  id: text("id").primaryKey(),
+  email: text("email").notNull(),
+  name: text("name"),
+  passwordHash: text("password_hash"), // Null for accounts that only sign in through an OAuth provider
+  memoryApproval: integer("memory_approval", { mode: "boolean" }).notNull().default(false), // Coach memory writes wait for the user's approval
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text("updated_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => [
+  unique("unique_user_email").on(table.email),
+]);
+
+// OAuth accounts linked to a user
+export const accounts = sqliteTable("accounts", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  provider: text("provider").notNull(),
+  providerAccountId: text("provider_account_id").notNull(),
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => [
+  unique("unique_provider_account").on(table.provider, table.providerAccountId),
+  index("accounts_user_idx").on(table.userId),
+]);
+
+// Sessions table, the id is a SHA-256 hash of the token stored in the session cookie
+export const sessions = sqliteTable("sessions", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  expiresAt: text("expires_at").notNull(),
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => [
+  index("sessions_user_idx").on(table.userId),
+]);
+
+// Coach personas, rows without a user are built in and shared by everyone
+export const personas = sqliteTable("personas", {
+  id: text("id").primaryKey(),
+  userId: text("user_id"),
+  name: text("name").notNull(),
+  description: text("description"),
+  systemPrompt: text("system_prompt").notNull(),
+  tone: text("tone", { mode: "json" }).$type<PersonaTone>().notNull(),
+  toolsets: text("toolsets", { mode: "json" }).$type<Toolset[]>().notNull(), // Tool groups the persona may use
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text("updated_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => [
+  index("personas_user_idx").on(table.userId),
+]);
+
 // Conversations table for storing conversation metadata
 export const conversations = sqliteTable("conversations", {
   id: text("id").primaryKey(), // UUID
   userId: text("user_id").notNull(),
   title: text("title").notNull(),
   lastMessageAt: text("last_message_at").notNull(),
+  personaId: text("persona_id").references(() => personas.id, { onDelete: "set null" }), // Null falls back to the built-in persona
+  unreadCount: integer("unread_count").notNull().default(0), // Messages the coach sent on its own since the user last opened it
   createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
   updatedAt: text("updated_at").default(sql`CURRENT_TIMESTAMP`),
 }, (table) => [
@@ -67,10 +225,95 @@ export const messages = sqliteTable("messages", {
   index("messages_order_idx").on(table.conversationId, table.messageIndex),
 ]);
 
+// Goals the coach tracks with the user, sub-goals point at their parent
+export const goals = sqliteTable("goals", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  parentGoalId: text("parent_goal_id").references((): AnySQLiteColumn => goals.id, { onDelete: "set null" }),
+  title: text("title").notNull(),
+  why: text("why"), // The user's motivation, used by the coach to hold them to it
+  targetDate: text("target_date"), // YYYY-MM-DD
+  metric: text("metric"), // How progress is measured, e.g. "body weight in kg"
+  targetValue: real("target_value"),
+  currentValue: real("current_value"),
+  progressNote: text("progress_note"),
+  status: text("status", { enum: ["active", "completed", "abandoned"] }).notNull().default("active"),
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text("updated_at").default(sql`CURRENT_TIMESTAMP`),
+  closedAt: text("closed_at"), // Set when completed or abandoned
+}, (table) => [
+  index("goals_user_status_idx").on(table.userId, table.status),
+  index("goals_parent_idx").on(table.parentGoalId),
+]);
+
+// Habits and their schedule, see HabitSchedule in lib/habits/stats.ts
+export const habits = sqliteTable("habits", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  goalId: text("goal_id").references(() => goals.id, { onDelete: "set null" }), // Goal the habit works towards
+  name: text("name").notNull(),
+  description: text("description"),
+  scheduleType: text("schedule_type", { enum: ["daily", "weekly", "weekdays"] }).notNull().default("daily"),
+  timesPerWeek: integer("times_per_week"), // Only for weekly habits
+  weekdays: text("weekdays", { mode: "json" }).$type<number[]>(), // Only for weekdays habits, 0 = Sunday
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  archivedAt: text("archived_at"),
+}, (table) => [
+  index("habits_user_idx").on(table.userId),
+]);
+
+// One row per habit per day the user did it
+export const habitCheckins = sqliteTable("habit_checkins", {
+  id: text("id").primaryKey(),
+  habitId: text("habit_id").notNull().references(() => habits.id, { onDelete: "cascade" }),
+  userId: text("user_id").notNull(),
+  date: text("date").notNull(), // YYYY-MM-DD in the user's time zone
+  note: text("note"),
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+}, (table) => [
+  unique("unique_habit_date").on(table.habitId, table.date),
+  index("habit_checkins_user_date_idx").on(table.userId, table.date),
+]);
+
+// Messages the coach scheduled to send later, picked up by the worker in lib/scheduler/worker.ts
+export const scheduledJobs = sqliteTable("scheduled_jobs", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  conversationId: text("conversation_id").notNull(), // No foreign key, the conversation is only saved once the turn that scheduled the job finishes
+  message: text("message").notNull(), // What the coach says when the job fires
+  runAt: text("run_at").notNull(), // UTC ISO timestamp
+  status: text("status", { enum: ["pending", "running", "done", "failed", "cancelled"] }).notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  messageId: text("message_id"), // The assistant message created when the job fired
+  createdAt: text("created_at").default(sql`CURRENT_TIMESTAMP`),
+  firedAt: text("fired_at"),
+}, (table) => [
+  index("scheduled_jobs_status_run_at_idx").on(table.status, table.runAt),
+  index("scheduled_jobs_user_idx").on(table.userId),
+]);
+
 // Type exports for use in functions
+export type User = typeof users.$inferSelect;
+export type NewUser = typeof users.$inferInsert;
+export type Account = typeof accounts.$inferSelect;
+export type Session = typeof sessions.$inferSelect;
 export type Memory = typeof memory.$inferSelect;
 export type NewMemory = typeof memory.$inferInsert;
+export type MemoryRevision = typeof memoryRevisions.$inferSelect;
+export type MemoryConflict = typeof memoryConflicts.$inferSelect;
+export type MemoryProposal = typeof memoryProposals.$inferSelect;
+export type MemoryForgetConfirmation = typeof memoryForgetConfirmations.$inferSelect;
+export type EmbeddingMigration = typeof embeddingMigrations.$inferSelect;
+export type Persona = typeof personas.$inferSelect;
 export type Conversation = typeof conversations.$inferSelect;
 export type NewConversation = typeof conversations.$inferInsert;
 export type Message = typeof messages.$inferSelect;
 export type NewMessage = typeof messages.$inferInsert;
+export type Goal = typeof goals.$inferSelect;
+export type NewGoal = typeof goals.$inferInsert;
+export type GoalStatus = Goal["status"];
+export type Habit = typeof habits.$inferSelect;
+export type NewHabit = typeof habits.$inferInsert;
+export type HabitCheckin = typeof habitCheckins.$inferSelect;
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
@@ -0,0 +1,50 @@
+import { and, eq, type SQL } from "drizzle-orm";
+import type { SQLiteColumn, SQLiteTable } from "drizzle-orm/sqlite-core";
+import { getDrizzleClient } from "./connection";
+import { conversations } from "./schema";
+import { NotFoundOrForbidden } from "./errors";
+import { getUser } from "../auth/user";
+
+type OwnedTable = SQLiteTable & { userId: SQLiteColumn };
+
+export type OwnerScope = ReturnType<typeof scopedTo>;
+
+// Owner-scoped query helpers, every data-access function builds its where clauses through one of these
+export function scopedTo(userId: string) {
+    return {
+        userId,
+
+        // Where clause restricted to rows owned by the scope's user
+        where(table: OwnedTable, ...conditions: (SQL | undefined)[]): SQL {
+            return and(eq(table.userId, userId), ...conditions)!;
+        },
+
+        // Throws NotFoundOrForbidden unless the conversation exists and is owned by the scope's user
+        async requireConversation(conversationId: string) {
+            const db = await getDrizzleClient();
+            const result = await db.select().from(conversations).where(this.where(conversations, eq(conversations.id, conversationId)));
+            if (result.length === 0) {
+                throw new NotFoundOrForbidden('conversation', conversationId);
+            }
+            return result[0];
+        },
+
+        // True if the user owns the conversation, false if it doesn't exist yet, throws if someone else owns it
+        async claimConversation(conversationId: string): Promise<boolean> {
+            const db = await getDrizzleClient();
+            const result = await db.select({ userId: conversations.userId }).from(conversations).where(eq(conversations.id, conversationId));
+            if (result.length === 0) {
+                return false;
+            }
+            if (result[0].userId !== userId) {
+                throw new NotFoundOrForbidden('conversation', conversationId);
+            }
+            return true;
+        },
+    };
+}
+
+// Scope for the signed in user
+export async function getScope(): Promise<OwnerScope> {
+    return scopedTo(await getUser());
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { computeHabitStats, dateRange, type HabitSchedule } from "./stats";
+
+// 2026-03-02 is a Monday, 2026-03-10 a Tuesday
+describe('habit stats', () => {
+    describe('daily habits', () => {
+        const daily: HabitSchedule = { type: 'daily' };
+        const options = { startDate: '2026-03-01', today: '2026-03-10' };
+
+        it("keeps the streak going while today isn't done yet", () => {
+            const checkIns = dateRange('2026-03-05', '2026-03-09');
+
+            expect(computeHabitStats(daily, checkIns, options)).toEqual({
+                currentStreak: 5,
+                longestStreak: 5,
+                streakUnit: 'day',
+                adherence: 5 / 9,
+                windowDays: 30,
+                totalCheckIns: 5,
+                lastCheckIn: '2026-03-09',
+            });
+            expect(computeHabitStats(daily, [...checkIns, '2026-03-10'], options)).toMatchObject({ currentStreak: 6, adherence: 6 / 10 });
+        });
+
+        it('breaks the streak on a missed day before today', () => {
+            const stats = computeHabitStats(daily, dateRange('2026-03-05', '2026-03-08'), options);
+            expect(stats).toMatchObject({ currentStreak: 0, longestStreak: 4 });
+        });
+    });
+
+    describe('weekday habits', () => {
+        const mondayWednesdayFriday: HabitSchedule = { type: 'weekdays', weekdays: [1, 3, 5] };
+        const checkIns = ['2026-03-02', '2026-03-04', '2026-03-06', '2026-03-09'];
+
+        it('skips the days that are not due', () => {
+            const stats = computeHabitStats(mondayWednesdayFriday, [...checkIns, '2026-03-07'], { startDate: '2026-03-02', today: '2026-03-10' });
+            expect(stats).toMatchObject({ currentStreak: 4, longestStreak: 4, adherence: 1, totalCheckIns: 5, lastCheckIn: '2026-03-09' });
+        });
+
+        it('leaves a due today open', () => {
+            const stats = computeHabitStats(mondayWednesdayFriday, checkIns, { startDate: '2026-03-02', today: '2026-03-11' });
+            expect(stats).toMatchObject({ currentStreak: 4, adherence: 1 });
+        });
+    });
+
+    describe('weekly habits', () => {
+        const threeTimesAWeek: HabitSchedule = { type: 'weekly', timesPerWeek: 3 };
+        const options = { startDate: '2026-03-02', today: '2026-03-18' };
+        const metFirstWeek = ['2026-03-02', '2026-03-04', '2026-03-06'];
+
+        it('counts weeks that met their target and breaks on a missed one', () => {
+            const stats = computeHabitStats(threeTimesAWeek, [...metFirstWeek, '2026-03-10', '2026-03-16'], options);
+            // The running week only counts once it's met, 3 + 1 of 6 check-ins in the weeks before
+            expect(stats).toMatchObject({ currentStreak: 0, longestStreak: 1, streakUnit: 'week', adherence: 4 / 6 });
+        });
+
+        it('counts the running week once its target is met', () => {
+            const stats = computeHabitStats(threeTimesAWeek, [...metFirstWeek, '2026-03-10', '2026-03-16', '2026-03-17', '2026-03-18'], options);
+            expect(stats).toMatchObject({ currentStreak: 1, longestStreak: 1, adherence: 7 / 9 });
+        });
+
+        it('caps a week at its target', () => {
+            const everyDay = dateRange('2026-03-02', '2026-03-18');
+            expect(computeHabitStats(threeTimesAWeek, everyDay, options)).toMatchObject({ currentStreak: 3, longestStreak: 3, adherence: 1, totalCheckIns: 17 });
+        });
+    });
+
+    describe('the adherence window', () => {
+        const daily: HabitSchedule = { type: 'daily' };
+        const options = { startDate: '2026-02-01', today: '2026-03-10', windowDays: 7 };
+
+        it('starts windowDays - 1 days before today', () => {
+            // 2026-03-03 falls just outside, 2026-03-04 is the first day in the window
+            const checkIns = ['2026-03-03', '2026-03-04'];
+            expect(computeHabitStats(daily, checkIns, options).adherence).toBe(1 / 6);
+            expect(computeHabitStats(daily, [...checkIns, '2026-03-10'], options).adherence).toBe(2 / 7);
+        });
+
+        it('ignores check-ins after today', () => {
+            expect(computeHabitStats(daily, ['2026-03-11'], options)).toMatchObject({ adherence: 0, totalCheckIns: 0, lastCheckIn: null });
+        });
+
+        it('is null until something was due', () => {
+            expect(computeHabitStats(daily, [], { startDate: '2026-03-10', today: '2026-03-10' }).adherence).toBeNull();
+        });
+    });
+});
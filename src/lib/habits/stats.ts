@@ -0,0 +1,139 @@
+// Streak and adherence maths for habits. Pure functions over YYYY-MM-DD date keys so the
+// server and the heat-map agree on what counts as a due day.
+
+export type HabitSchedule =
+    | { type: 'daily' }
+    | { type: 'weekly'; timesPerWeek: number }
+    | { type: 'weekdays'; weekdays: number[] }; // 0 = Sunday
+
+export interface HabitStats {
+    currentStreak: number;
+    longestStreak: number;
+    // Weekly habits count streaks in weeks that hit their target, the others in due days
+    streakUnit: 'day' | 'week';
+    // Share of due check-ins done in the window, null when nothing was due yet
+    adherence: number | null;
+    windowDays: number;
+    totalCheckIns: number;
+    lastCheckIn: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseDateKey = (key: string) => {
+    const [year, month, day] = key.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+};
+
+const formatDateKey = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+// Calendar date in the given time zone, the server's zone when none or an unknown one is given
+export function toDateKey(date: Date, timeZone?: string): string {
+    const format = (zone?: string) => new Intl.DateTimeFormat('en-CA', { timeZone: zone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+    try {
+        return format(timeZone);
+    } catch {
+        return format();
+    }
+}
+
+export function addDays(key: string, days: number): string {
+    return formatDateKey(parseDateKey(key) + days * DAY_MS);
+}
+
+export function weekdayOf(key: string): number {
+    return new Date(parseDateKey(key)).getUTCDay();
+}
+
+// Weeks start on Monday
+export function weekStartOf(key: string): string {
+    return addDays(key, -((weekdayOf(key) + 6) % 7));
+}
+
+// Days from start to end inclusive
+export function dateRange(start: string, end: string): string[] {
+    const days: string[] = [];
+    for (let key = start; key <= end; key = addDays(key, 1)) {
+        days.push(key);
+    }
+    return days;
+}
+
+// Weekly habits have no fixed days, any day can be used for one of the week's check-ins
+export function isDueOn(schedule: HabitSchedule, key: string): boolean {
+    switch (schedule.type) {
+        case 'daily':
+            return true;
+        case 'weekdays':
+            return schedule.weekdays.includes(weekdayOf(key));
+        case 'weekly':
+            return false;
+    }
+}
+
+const longestRun = (values: boolean[]) => {
+    let longest = 0;
+    let run = 0;
+    for (const value of values) {
+        run = value ? run + 1 : 0;
+        longest = Math.max(longest, run);
+    }
+    return longest;
+};
+
+// The latest period is still in progress, so missing it doesn't break the streak yet
+const currentRun = (values: boolean[]) => {
+    let streak = 0;
+    for (let i = values.length - 1; i >= 0; i--) {
+        if (values[i]) streak++;
+        else if (i !== values.length - 1) break;
+    }
+    return streak;
+};
+
+export function computeHabitStats(
+    schedule: HabitSchedule,
+    checkInDates: string[],
+    { startDate, today, windowDays = 30 }: { startDate: string; today: string; windowDays?: number },
+): HabitStats {
+    const done = new Set(checkInDates.filter(date => date <= today));
+    const sorted = [...done].sort();
+    const firstDay = sorted[0] && sorted[0] < startDate ? sorted[0] : startDate;
+    const windowStart = addDays(today, -(windowDays - 1));
+    const base = { windowDays, totalCheckIns: done.size, lastCheckIn: sorted[sorted.length - 1] ?? null };
+
+    if (schedule.type === 'weekly') {
+        const target = Math.max(1, schedule.timesPerWeek);
+        const counts = new Map<string, number>();
+        sorted.forEach(date => counts.set(weekStartOf(date), (counts.get(weekStartOf(date)) ?? 0) + 1));
+        const weeks = dateRange(weekStartOf(firstDay), weekStartOf(today)).filter((_, i) => i % 7 === 0);
+        const met = weeks.map(week => (counts.get(week) ?? 0) >= target);
+
+        // Count the running week only once its target is already met
+        const currentWeek = weekStartOf(today);
+        const windowWeeks = weeks.filter(week => addDays(week, 6) >= windowStart && (week !== currentWeek || met[met.length - 1]));
+        const doneInWindow = windowWeeks.reduce((sum, week) => sum + Math.min(counts.get(week) ?? 0, target), 0);
+
+        return {
+            ...base,
+            currentStreak: currentRun(met),
+            longestStreak: longestRun(met),
+            streakUnit: 'week',
+            adherence: windowWeeks.length > 0 ? doneInWindow / (windowWeeks.length * target) : null,
+        };
+    }
+
+    const dueDays = dateRange(firstDay, today).filter(date => isDueOn(schedule, date));
+    const doneOnDueDays = dueDays.map(date => done.has(date));
+    // Today only counts against adherence once it's done, the day isn't over yet
+    const windowDueDays = dueDays.filter(date => date >= windowStart && (date !== today || done.has(date)));
+    const doneInWindow = windowDueDays.filter(date => done.has(date)).length;
+
+    return {
+        ...base,
+        currentStreak: dueDays[dueDays.length - 1] === today ? currentRun(doneOnDueDays) : currentRun([...doneOnDueDays, false]),
+        longestStreak: longestRun(doneOnDueDays),
+        streakUnit: 'day',
+        adherence: windowDueDays.length > 0 ? doneInWindow / windowDueDays.length : null,
+    };
+}
@@ -9,6 +9,13 @@ import {
 import { Conversation } from '../database/schema';
 import { generateConversationId } from '../utils';
 
+// How often the sidebar looks for check-ins the coach sent on its own
+const CONVERSATIONS_POLL_MS = 30_000;
+
+// loadConversation marks the conversation read on the server, mirror that locally
+const markRead = (conversations: Conversation[], conversationId: string) =>
+    conversations.map(conversation => conversation.id === conversationId ? { ...conversation, unreadCount: 0 } : conversation);
+
 export interface UseConversationOptions {
     initialConversationId?: string;
 }
@@ -75,6 +82,7 @@ export function useConversation(options: UseConversationOptions = {}) {
                 setMessages(result.messages);
                 setConversationState(prev => ({
                     ...prev,
+                    conversations: markRead(prev.conversations, conversationId),
                     currentConversationId: conversationId,
                     isLoading: false,
                     error: undefined,
@@ -210,6 +218,30 @@ export function useConversation(options: UseConversationOptions = {}) {
         loadInitialData();
     }, [initialConversationId, setMessages]);
 
+    // Scheduled check-ins arrive without a request from this tab, poll for them
+    useEffect(() => {
+        const interval = setInterval(async () => {
+            const result = await getUserConversations();
+            if (result.success) {
+                setConversationState(prev => ({ ...prev, conversations: result.conversations }));
+            }
+        }, CONVERSATIONS_POLL_MS);
+        return () => clearInterval(interval);
+    }, []);
+
+    // Pull a check-in into the open conversation, only while idle so a streaming reply isn't replaced
+    const { currentConversationId } = conversationState;
+    const currentUnreadCount = conversationState.conversations.find(c => c.id === currentConversationId)?.unreadCount ?? 0;
+    useEffect(() => {
+        if (!currentConversationId || currentUnreadCount === 0 || status !== 'ready') return;
+        loadConversation(currentConversationId).then(result => {
+            if (result.success) {
+                setMessages(result.messages);
+                setConversationState(prev => ({ ...prev, conversations: markRead(prev.conversations, currentConversationId) }));
+            }
+        });
+    }, [currentConversationId, currentUnreadCount, status, setMessages]);
+
     return {
         // Chat functionality
         messages,
@@ -0,0 +1,22 @@
+import type { Persona } from '../database/schema';
+import type { PersonaTone } from './schemas';
+
+// Wording for the low and high end of each slider, the middle third adds nothing
+const toneWording: Record<keyof PersonaTone, [low: string, high: string]> = {
+    warmth: ['Keep an even, matter-of-fact distance.', 'Be warm and encouraging, celebrate progress openly.'],
+    directness: ['Be gentle, suggest rather than tell.', 'Be blunt, say plainly what the user needs to hear.'],
+    humor: ['Stay serious.', 'Use plenty of humor.'],
+};
+
+export function toneInstructions(tone: PersonaTone): string[] {
+    return (Object.keys(toneWording) as (keyof PersonaTone)[]).flatMap(key => {
+        const [low, high] = toneWording[key];
+        if (tone[key] <= 33) return [low];
+        if (tone[key] >= 67) return [high];
+        return [];
+    });
+}
+
+export function buildPersonaPrompt(persona: Persona): string {
+    return [persona.systemPrompt, ...toneInstructions(persona.tone)].join('\n');
+}
@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+// Seeded by drizzle/0006_personas.sql, used when a conversation has no persona
+export const DEFAULT_PERSONA_ID = 'persona_moach';
+
+// Groups of tools a persona may use, the chat route only hands out the allowed ones
+export const TOOLSETS = ['memory', 'goals', 'habits', 'scheduler', 'webSearch'] as const;
+export type Toolset = typeof TOOLSETS[number];
+
+export const toolsetLabels: Record<Toolset, string> = {
+    memory: 'Memory',
+    goals: 'Goals',
+    habits: 'Habits',
+    scheduler: 'Check-ins',
+    webSearch: 'Web search',
+};
+
+// Each slider runs from 0 to 100, 50 leaves the persona's prompt alone
+export const toneSchema = z.object({
+    warmth: z.number().int().min(0).max(100),
+    directness: z.number().int().min(0).max(100),
+    humor: z.number().int().min(0).max(100),
+});
+export type PersonaTone = z.infer<typeof toneSchema>;
+
+export const defaultTone: PersonaTone = { warmth: 50, directness: 50, humor: 50 };
+
+export const personaInputSchema = z.object({
+    name: z.string().trim().min(1).max(60),
+    description: z.string().trim().max(280).nullable().optional(),
+    systemPrompt: z.string().trim().min(1),
+    tone: toneSchema,
+    toolsets: z.array(z.enum(TOOLSETS)),
+});
+export type PersonaInput = z.infer<typeof personaInputSchema>;
+
+export const personaChangesSchema = personaInputSchema.partial();
+export type PersonaChanges = z.infer<typeof personaChangesSchema>;
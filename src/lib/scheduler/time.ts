@@ -0,0 +1,46 @@
+// Wall clock times in the user's time zone, the coach talks in local time while jobs run on UTC timestamps
+
+const parts = (date: Date, timeZone?: string) => {
+    const format = (zone?: string) => new Intl.DateTimeFormat('en-US', {
+        timeZone: zone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+        weekday: 'long',
+    }).formatToParts(date);
+    let result: Intl.DateTimeFormatPart[];
+    try {
+        result = format(timeZone);
+    } catch {
+        result = format();
+    }
+    return Object.fromEntries(result.map(part => [part.type, part.value])) as Record<Intl.DateTimeFormatPartTypes, string>;
+};
+
+// Milliseconds the time zone is ahead of UTC at the given instant
+const offsetAt = (date: Date, timeZone?: string) => {
+    const { year, month, day, hour, minute, second } = parts(date, timeZone);
+    const wallClock = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+    return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// "YYYY-MM-DDTHH:mm" read as a wall clock time in the time zone
+export function zonedTimeToUtc(localDateTime: string, timeZone?: string): Date {
+    const [date, time = '00:00'] = localDateTime.split('T');
+    const [year, month, day] = date.split('-').map(Number);
+    const [hour, minute] = time.split(':').map(Number);
+    const guess = Date.UTC(year, month - 1, day, hour, minute);
+    // Second pass settles times close to a daylight saving switch
+    const first = guess - offsetAt(new Date(guess), timeZone);
+    return new Date(guess - offsetAt(new Date(first), timeZone));
+}
+
+// e.g. "Monday 2026-10-19 07:30"
+export function formatZonedTime(date: Date, timeZone?: string): string {
+    const { weekday, year, month, day, hour, minute } = parts(date, timeZone);
+    return `${weekday} ${year}-${month}-${day} ${hour}:${minute}`;
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { createTestConversation, createTestUser, textMessage } from "@/test/fixtures";
+import { createScheduledJob } from "../database/scheduledJobs";
+import { getMessages, retrieveMessagesForConversation, saveMessages } from "../database/messages";
+import { runDueJobs } from "./worker";
+
+describe('check-in delivery', () => {
+    it('appends the check-in and keeps the next turn of a stale client after it', async () => {
+        const scope = await createTestUser();
+        const conversationId = await createTestConversation(scope);
+        const history = [textMessage('user', 'remind me tomorrow'), textMessage('assistant', 'will do')];
+        await saveMessages(history, conversationId, scope);
+
+        const runAt = new Date('2000-01-01T09:00:00Z');
+        await createScheduledJob(scope, { conversationId, message: 'How did it go?', runAt });
+        expect(await runDueJobs(runAt)).toBe(1);
+
+        // The client never reloaded, its next save doesn't have the check-in
+        await saveMessages([...history, textMessage('user', 'it went well'), textMessage('assistant', 'great')], conversationId, scope);
+
+        const texts = (await retrieveMessagesForConversation(conversationId, scope))
+            .map(message => message.parts.map(part => part.type === 'text' ? part.text : '').join(''));
+        expect(texts).toEqual(['remind me tomorrow', 'will do', 'How did it go?', 'it went well', 'great']);
+        const indexes = (await getMessages(conversationId, scope)).map(message => message.messageIndex);
+        expect(new Set(indexes).size).toBe(indexes.length);
+    });
+});
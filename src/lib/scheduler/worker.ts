@@ -0,0 +1,67 @@
+import { createIdGenerator, type UIMessage } from "ai";
+import { scopedTo } from "../database/scoped";
+import { NotFoundOrForbidden } from "../database/errors";
+import { saveMessages } from "../database/messages";
+import { claimDueJobs, failJob, finishJob, markConversationUnread, releaseRunningJobs } from "../database/scheduledJobs";
+import type { ScheduledJob } from "../database/schema";
+
+const POLL_INTERVAL_MS = Number(process.env.SCHEDULER_INTERVAL_MS) || 30_000;
+const BATCH_SIZE = 20;
+const MAX_ATTEMPTS = 3;
+
+const generateMessageId = createIdGenerator({
+    prefix: 'msg_',
+    size: 21,
+});
+
+// The coach's message goes at the end of the conversation as if it had just replied
+async function deliver(job: ScheduledJob): Promise<string> {
+    const scope = scopedTo(job.userId);
+    const message: UIMessage = {
+        id: generateMessageId(),
+        role: 'assistant',
+        parts: [{ type: 'text', text: job.message }],
+        metadata: { scheduledJobId: job.id },
+    };
+    await saveMessages([message], job.conversationId, scope);
+    await markConversationUnread(scope, job.conversationId);
+    return message.id;
+}
+
+export async function runDueJobs(now: Date = new Date()) {
+    const jobs = await claimDueJobs(now, BATCH_SIZE);
+    for (const job of jobs) {
+        try {
+            await finishJob(job.id, await deliver(job));
+        } catch (error) {
+            console.error(`Error running scheduled job ${job.id}:`, error);
+            const message = error instanceof Error ? error.message : String(error);
+            // A conversation that was deleted or never saved won't come back, retrying is pointless
+            const retryAt = error instanceof NotFoundOrForbidden || job.attempts >= MAX_ATTEMPTS
+                ? undefined
+                : new Date(now.getTime() + job.attempts * 60_000);
+            await failJob(job.id, message, retryAt);
+        }
+    }
+    return jobs.length;
+}
+
+// Dev mode re-evaluates modules, keep the handle on globalThis so only one loop ever runs
+const globalForScheduler = globalThis as unknown as { schedulerTimer?: ReturnType<typeof setInterval> };
+
+export async function startScheduler() {
+    if (globalForScheduler.schedulerTimer) return;
+    await releaseRunningJobs();
+    let busy = false;
+    globalForScheduler.schedulerTimer = setInterval(async () => {
+        if (busy) return;
+        busy = true;
+        try {
+            await runDueJobs();
+        } catch (error) {
+            console.error('Error polling scheduled jobs:', error);
+        } finally {
+            busy = false;
+        }
+    }, POLL_INTERVAL_MS);
+}
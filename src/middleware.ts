@@ -0,0 +1,15 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { SESSION_COOKIE } from '@/lib/auth/cookies';
+
+// Send visitors without a session cookie to the login page. The cookie is only validated
+// against the database by getUser(), so API routes and server actions still check for themselves.
+export function middleware(req: NextRequest) {
+  if (!req.cookies.has(SESSION_COOKIE)) {
+    return NextResponse.redirect(new URL('/login', req.url));
+  }
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/((?!api|login|_next/static|_next/image|favicon.ico|.*\\.svg$).*)'],
+};
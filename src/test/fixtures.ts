@@ -0,0 +1,27 @@
+import { nanoid } from "nanoid";
+import type { UIMessage } from "ai";
+import { getDrizzleClient } from "@/lib/database/connection";
+import { conversations, users } from "@/lib/database/schema";
+import { scopedTo, type OwnerScope } from "@/lib/database/scoped";
+
+// A new user with their own scope, so test files never see each other's rows
+export async function createTestUser(): Promise<OwnerScope> {
+    const db = await getDrizzleClient();
+    const id = `user_${nanoid(12)}`;
+    await db.insert(users).values({ id, email: `${id}@example.com` });
+    return scopedTo(id);
+}
+
+export async function createTestConversation(scope: OwnerScope): Promise<string> {
+    const db = await getDrizzleClient();
+    const id = `conv_${nanoid(12)}`;
+    const now = new Date().toISOString();
+    await db.insert(conversations).values({ id, userId: scope.userId, title: 'Test', lastMessageAt: now });
+    return id;
+}
+
+export const textMessage = (role: UIMessage['role'], text: string, id = `msg_${nanoid(12)}`): UIMessage => ({
+    id,
+    role,
+    parts: [{ type: 'text', text }],
+});
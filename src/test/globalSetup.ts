@@ -0,0 +1,26 @@
+import { readdirSync, readFileSync, rmSync } from "fs";
+import { join } from "path";
+import { fileURLToPath } from "url";
+import { createClient } from "@libsql/client";
+import type { TestProject } from "vitest/node";
+
+const MIGRATIONS_FOLDER = "drizzle";
+
+// Builds the test database from the migrations and deletes it after the run. Each file runs whole rather than
+// through drizzle's migrator, which only runs the first statement of 0001_safe_conversations.sql since it has
+// no statement breakpoints
+export default async function setup(project: TestProject) {
+    const url = project.config.env.TURSO_DATABASE_URL;
+    if (!url) {
+        throw new Error("TURSO_DATABASE_URL is required, vitest.config.ts sets it");
+    }
+    const path = fileURLToPath(url);
+    rmSync(path, { force: true });
+    const client = createClient({ url });
+    const files = readdirSync(MIGRATIONS_FOLDER).filter(file => file.endsWith(".sql")).sort();
+    for (const file of files) {
+        await client.executeMultiple(readFileSync(join(MIGRATIONS_FOLDER, file), "utf8").replaceAll("--> statement-breakpoint", ""));
+    }
+    client.close();
+    return () => rmSync(path, { force: true });
+}
@@ -0,0 +1,26 @@
+import { defineConfig } from "vitest/config";
+import { tmpdir } from "os";
+import { join } from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": join(__dirname, "src"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+    // Every run gets a fresh database, migrated in src/test/globalSetup.ts
+    env: {
+      TURSO_DATABASE_URL: `file:${join(tmpdir(), `moach-test-${process.pid}.db`)}`,
+      EMBEDDING_PROVIDER: "hashing",
+      SENSITIVITY_CLASSIFIER: "keywords",
+      // Base64 of 32 bytes, only ever used for the test database
+      MEMORY_ENCRYPTION_KEY: "MDEyMzQ1Njc4OWFiY2RlZjAxMjM0NTY3ODlhYmNkZWY=",
+    },
+    globalSetup: ["src/test/globalSetup.ts"],
+    // The test files share the database file, SQLite takes one writer at a time
+    fileParallelism: false,
+  },
+});